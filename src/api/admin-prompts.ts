@@ -0,0 +1,74 @@
+import type { AppContext } from "@/worker";
+import type { RequestInfo } from "rwsdk/worker";
+import { getActivePromptVersions, setActivePromptVersion } from "@/lib/db";
+import { getDefaultPromptTemplate, getPromptTemplate, isPromptName, PROMPT_NAMES, PROMPT_TEMPLATES, promptVersionId } from "@/lib/prompts";
+import { createJsonResponse, createNotFoundResponse } from "@/utilities";
+
+export default async function adminPromptsHandler({ request }: RequestInfo<any, AppContext>) {
+  const url = new URL(request.url);
+  const pathParts = url.pathname.split('/');
+
+  // GET /api/admin/prompts - Every template version and which one is active per name
+  // POST /api/admin/prompts/[name]/activate - Make a version the active one ({ version })
+
+  // Admin calls need ADMIN_API_KEY as a bearer token; without one configured
+  // the admin API is off rather than open
+  const adminKey = process.env.ADMIN_API_KEY;
+  if (!adminKey) {
+    return createJsonResponse({ error: 'Admin API is disabled: ADMIN_API_KEY is not configured' }, 503);
+  }
+  if (request.headers.get('Authorization') !== `Bearer ${adminKey}`) {
+    return createJsonResponse({ error: 'Unauthorized' }, 401);
+  }
+
+  try {
+    if (pathParts.length === 4 && request.method === 'GET') {
+      return await listPrompts();
+    }
+
+    const name = pathParts[4];
+    if (pathParts.length === 6 && pathParts[5] === 'activate' && request.method === 'POST') {
+      if (!isPromptName(name)) return createNotFoundResponse(`Unknown prompt "${name}"`);
+      const { version } = await request.json() as { version?: string };
+      if (!version || !getPromptTemplate(name, version)) {
+        return createJsonResponse({ error: `Unknown ${name} prompt version "${version}"` }, 400);
+      }
+      await setActivePromptVersion(name, version);
+      console.log(`📝 Activated prompt ${name}@${version}`);
+      return createJsonResponse({ name, activeVersion: version });
+    }
+
+    return createNotFoundResponse('Invalid admin prompts endpoint');
+
+  } catch (error) {
+    console.error('Admin prompts request error:', error);
+    return createJsonResponse({
+      error: 'Admin prompts request failed',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, 500);
+  }
+}
+
+async function listPrompts(): Promise<Response> {
+  const active = await getActivePromptVersions();
+
+  const prompts = PROMPT_NAMES.map(name => {
+    const activeVersion = active[name] && getPromptTemplate(name, active[name])
+      ? active[name]
+      : getDefaultPromptTemplate(name).version;
+    return {
+      name,
+      activeVersion,
+      versions: PROMPT_TEMPLATES.filter(template => template.name === name).map(template => ({
+        id: promptVersionId(template),
+        version: template.version,
+        description: template.description,
+        isDefault: !!template.isDefault,
+        isActive: template.version === activeVersion,
+        template: template.template,
+      })),
+    };
+  });
+
+  return createJsonResponse({ prompts });
+}
@@ -1,7 +1,9 @@
 import { SiteAnalysisService } from '../lib/analysis-service';
 import type { AppContext } from "@/worker";
 import type { RequestInfo } from "rwsdk/worker";
-import { getDb, searches } from '../lib/db';
+import { saveSearch } from '../lib/db';
+import { validateLlmSelection, type LlmProviderId } from '../lib/llm-providers';
+import { assertWithinDailyLlmBudget, LlmBudgetExceededError } from '../lib/llm-budget';
 
 export default async function analyzeHtmlHandler({ request }: RequestInfo<any, AppContext>) {
   if (request.method !== 'POST') {
@@ -12,8 +14,9 @@ export default async function analyzeHtmlHandler({ request }: RequestInfo<any, A
   }
 
   try {
-    const body: { url: string; html: string } = await request.json();
-    const { url, html } = body;
+    const body: { url: string; html: string; extraInstructions?: string; llmProvider?: LlmProviderId; llmModel?: string; forceFresh?: boolean } = await request.json();
+    const { url, html, extraInstructions } = body;
+    const llm = { provider: body.llmProvider, model: body.llmModel };
 
     if (!url || !html) {
       return new Response(JSON.stringify({ error: 'Both url and html are required' }), {
@@ -22,24 +25,32 @@ export default async function analyzeHtmlHandler({ request }: RequestInfo<any, A
       });
     }
 
-    const analysisService = new SiteAnalysisService();
-    const result = await analysisService.analyzeProvidedHtml(url, html);
-    // Persist search
-    try {
-      const db = getDb();
-      await db.insert(searches).values({
-        id: result.analysisId,
-        url: url
+    const llmError = validateLlmSelection(llm);
+    if (llmError) {
+      return new Response(JSON.stringify({ error: llmError }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
       });
-    } catch (dbErr) {
-      console.warn('Failed to persist search:', dbErr);
     }
 
+    await assertWithinDailyLlmBudget();
+
+    const analysisService = new SiteAnalysisService();
+    const result = await analysisService.analyzeProvidedHtml(url, html, extraInstructions, llm, body.forceFresh);
+    // Persist search with its usage, so it counts towards the daily budget
+    await saveSearch(url, result);
+
     return new Response(JSON.stringify(result), {
       status: 200,
       headers: { 'Content-Type': 'application/json' },
     });
   } catch (error) {
+    if (error instanceof LlmBudgetExceededError) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 429,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
     console.error('Analyze HTML API error:', error);
     return new Response(JSON.stringify({ error: error instanceof Error ? error.message : 'Analyze HTML failed' }), {
       status: 500,
@@ -0,0 +1,166 @@
+import type { AppContext } from "@/worker";
+import type { RequestInfo } from "rwsdk/worker";
+import { CRAWL_DISCOVERY_MODES, type NewScheduleRequest, type ScheduleCadence } from "@/lib/types";
+import { createSchedule, deleteSchedule, getSchedule, getScheduleAlerts, listSchedules, listSessions, updateSchedule } from "@/lib/db";
+import { nextRunAt, runSchedule } from "@/lib/scheduler";
+import { createJsonResponse, createNotFoundResponse } from "@/utilities";
+import { inferDomainFromUrl } from "@vendors/lytx";
+import { validateLlmSelection } from "@/lib/llm-providers";
+import { getPromptTemplate } from "@/lib/prompts";
+import { LlmBudgetExceededError } from "@/lib/llm-budget";
+import { SessionStartError } from "@/api/session";
+
+const CADENCES: ScheduleCadence[] = ['daily', 'weekly', 'monthly'];
+
+type ScheduleOptions = NonNullable<NewScheduleRequest['options']>;
+
+/**
+ * Check session options the same way POST /api/session checks a request, so a
+ * schedule can't be saved with options every run would reject. Any `url` is
+ * dropped: runs always use the schedule's own URL.
+ */
+function validateScheduleOptions(raw: NewScheduleRequest['options'] | undefined): { options: ScheduleOptions } | { error: string } {
+  const { url: _url, ...options } = (raw ?? {}) as ScheduleOptions & { url?: string };
+
+  if (options.discoveryMode !== undefined && !CRAWL_DISCOVERY_MODES.includes(options.discoveryMode)) {
+    return { error: `discoveryMode must be one of ${CRAWL_DISCOVERY_MODES.join(', ')}` };
+  }
+  const llmError = validateLlmSelection({ provider: options.llmProvider, model: options.llmModel });
+  if (llmError) {
+    return { error: llmError };
+  }
+  if (options.promptVersion && !getPromptTemplate('site-analysis', options.promptVersion)) {
+    return { error: `Unknown site-analysis prompt version "${options.promptVersion}"` };
+  }
+  return { options };
+}
+
+export default async function schedulesHandler({ request }: RequestInfo<any, AppContext>) {
+  const url = new URL(request.url);
+  const pathParts = url.pathname.split('/');
+
+  // GET /api/schedules - List schedules
+  // POST /api/schedules - Create a schedule
+  // GET /api/schedules/[id] - Schedule with its timeline of sessions and alerts
+  // PATCH /api/schedules/[id] - Enable/disable or change cadence and options
+  // DELETE /api/schedules/[id] - Remove a schedule
+  // POST /api/schedules/[id]/run - Start a run now
+
+  try {
+    if (pathParts.length === 3) {
+      if (request.method === 'GET') {
+        return createJsonResponse({ schedules: await listSchedules() });
+      }
+      if (request.method === 'POST') {
+        return await createScheduleFromRequest(request);
+      }
+    }
+
+    const scheduleId = pathParts[3];
+    if (pathParts.length === 4) {
+      if (request.method === 'GET') return await getScheduleDetails(scheduleId);
+      if (request.method === 'PATCH') return await updateScheduleFromRequest(scheduleId, request);
+      if (request.method === 'DELETE') {
+        const deleted = await deleteSchedule(scheduleId);
+        return deleted ? createJsonResponse({ success: true }) : createNotFoundResponse('Schedule not found');
+      }
+    }
+
+    if (pathParts.length === 5 && pathParts[4] === 'run' && request.method === 'POST') {
+      const schedule = await getSchedule(scheduleId);
+      if (!schedule) return createNotFoundResponse('Schedule not found');
+      try {
+        const session = await runSchedule(schedule);
+        return createJsonResponse({ sessionId: session.id }, 201);
+      } catch (error) {
+        if (error instanceof LlmBudgetExceededError) return createJsonResponse({ error: error.message }, 429);
+        if (error instanceof SessionStartError) return createJsonResponse({ error: error.message, sessionId: error.sessionId }, 502);
+        throw error;
+      }
+    }
+
+    return createNotFoundResponse('Invalid schedules endpoint');
+
+  } catch (error) {
+    console.error('Schedule request error:', error);
+    return createJsonResponse({
+      error: 'Schedule request failed',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, 500);
+  }
+}
+
+async function createScheduleFromRequest(request: Request): Promise<Response> {
+  const body = await request.json() as NewScheduleRequest;
+
+  try {
+    new URL(body.url);
+  } catch {
+    return createJsonResponse({ error: 'A valid URL is required' }, 400);
+  }
+  if (!CADENCES.includes(body.cadence)) {
+    return createJsonResponse({ error: `cadence must be one of ${CADENCES.join(', ')}` }, 400);
+  }
+
+  const validated = validateScheduleOptions(body.options);
+  if ('error' in validated) {
+    return createJsonResponse({ error: validated.error }, 400);
+  }
+  const { options } = validated;
+
+  const now = new Date().toISOString();
+  const schedule = await createSchedule({
+    id: crypto.randomUUID(),
+    url: body.url,
+    domain: inferDomainFromUrl(body.url),
+    cadence: body.cadence,
+    options,
+    // First run happens on the next cron tick
+    nextRunAt: now,
+    createdAt: now,
+    updatedAt: now
+  });
+
+  console.log(`📅 Created ${schedule.cadence} schedule ${schedule.id} for ${schedule.url}`);
+  return createJsonResponse({ schedule }, 201);
+}
+
+async function getScheduleDetails(scheduleId: string): Promise<Response> {
+  const schedule = await getSchedule(scheduleId);
+  if (!schedule) return createNotFoundResponse('Schedule not found');
+
+  const [{ sessions: timeline }, alerts] = await Promise.all([
+    listSessions({ scheduleId, pageSize: 100 }),
+    getScheduleAlerts(scheduleId)
+  ]);
+  return createJsonResponse({ schedule, timeline, alerts });
+}
+
+async function updateScheduleFromRequest(scheduleId: string, request: Request): Promise<Response> {
+  const body = await request.json() as { enabled?: boolean; cadence?: ScheduleCadence; options?: NewScheduleRequest['options'] };
+  const schedule = await getSchedule(scheduleId);
+  if (!schedule) return createNotFoundResponse('Schedule not found');
+
+  if (body.cadence !== undefined && !CADENCES.includes(body.cadence)) {
+    return createJsonResponse({ error: `cadence must be one of ${CADENCES.join(', ')}` }, 400);
+  }
+
+  let options: ScheduleOptions | undefined;
+  if (body.options) {
+    const validated = validateScheduleOptions(body.options);
+    if ('error' in validated) {
+      return createJsonResponse({ error: validated.error }, 400);
+    }
+    options = validated.options;
+  }
+
+  const updated = await updateSchedule(scheduleId, {
+    ...(body.enabled !== undefined && { enabled: body.enabled }),
+    ...(options && { options }),
+    ...(body.cadence && body.cadence !== schedule.cadence && {
+      cadence: body.cadence,
+      nextRunAt: nextRunAt(body.cadence, new Date(schedule.lastRunAt ?? Date.now()))
+    })
+  });
+  return createJsonResponse({ schedule: updated });
+}
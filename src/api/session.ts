@@ -1,8 +1,18 @@
 import type { AppContext } from "@/worker";
 import type { RequestInfo } from "rwsdk/worker";
-import { env } from 'cloudflare:workers';
-import { DEFAULT_MAX_PAGES } from "@/lib/defaults";
-import { NewSessionRequest } from "@/lib/types";
+import { DEFAULT_CONCURRENCY, DEFAULT_MAX_CRAWL_DEPTH, DEFAULT_MAX_PAGES, MAX_CONCURRENCY, MAX_CRAWL_DEPTH, MAX_EXTRA_INSTRUCTIONS_LENGTH } from "@/lib/defaults";
+import { CRAWL_DISCOVERY_MODES, CrawlDiscoveryMode, NewSessionRequest } from "@/lib/types";
+import type { SkippedUrl } from "@/lib/crawler";
+import { getSession as readSession, getSessionManager, writeSessionSnapshot } from "@/session/cache";
+import { diffSessions } from "@/session/diff";
+import { validateLlmSelection, type LlmProviderId } from "@/lib/llm-providers";
+import { getPromptTemplate } from "@/lib/prompts";
+import { assertWithinDailyLlmBudget, LlmBudgetExceededError } from "@/lib/llm-budget";
+import type { SessionUsage } from "@/lib/llm-usage";
+import type { SiteSummary } from "@/lib/site-summary";
+import { buildGtmContainer, GtmContainerError, gtmEventsFromSession, parseGtmContainerExport, type GtmContainerExport } from "@/lib/gtm";
+import { inferDomainFromUrl } from "@vendors/lytx";
+import { updateSessionStatus } from "@/lib/db";
 
 export interface SessionData {
   id: string;
@@ -10,9 +20,23 @@ export interface SessionData {
   urls?: string[];
   crawl: boolean;
   maxPages: number;
+  maxDepth?: number;
+  discoveryMode?: CrawlDiscoveryMode;
   usePuppeteer: boolean;
   extraInstructions?: string;
+  concurrency?: number;
+  verifyLytx?: boolean;
+  validateEvents?: boolean;
+  agentMode?: boolean;
+  llmProvider?: LlmProviderId;
+  llmModel?: string;
+  promptVersion?: string;
+  forceFresh?: boolean;
   useExternalFetcher: boolean;
+  // Set when this session re-analyzes an earlier one
+  parentSessionId?: string;
+  // Set when a scheduled audit started this session
+  scheduleId?: string;
   status: 'pending' | 'crawling' | 'analyzing' | 'completed' | 'error';
   progress: {
     stage: 'idle' | 'crawling' | 'analyzing' | 'completed' | 'error';
@@ -21,8 +45,13 @@ export interface SessionData {
     message?: string;
     urls?: string[];
     allUrls?: string[];
+    skipped?: SkippedUrl[];
   };
   results?: any[];
+  // Token and cost totals over the results, kept in step by the manager
+  usage?: SessionUsage;
+  // Site-level report built once every page has finished
+  siteSummary?: SiteSummary;
   error?: string;
   createdAt: string;
   updatedAt: string;
@@ -35,7 +64,12 @@ export default async function sessionHandler({ request, params }: RequestInfo<an
 
   // Handle different session endpoints
   // GET /api/session/[uuid] - Get session status
+  // GET /api/session/[uuid]/events - Stream session progress events
+  // GET /api/session/[uuid]/diff?against=[uuid] - Compare with another session (default: parent)
+  // GET /api/session/[uuid]/gtm?account=[key] - GTM container export installing LYTX
+  // POST /api/session/[uuid]/gtm?account=[key] - Same, merged into an uploaded container export
   // POST /api/session - Create new session
+  // POST /api/session/[uuid]/reanalyze - Re-run a session with the same options
   // PUT /api/session/[uuid] - Update session
 
   if (request.method === 'POST' && pathParts.length === 3) {
@@ -50,6 +84,27 @@ export default async function sessionHandler({ request, params }: RequestInfo<an
     return getSession(sessionId);
   }
 
+  if (request.method === 'GET' && pathParts.length === 5 && pathParts[4] === 'events') {
+    // Stream live session progress (Server-Sent Events)
+    const sessionId = pathParts[3];
+    return getSessionManager(sessionId).fetch('https://internal/events');
+  }
+
+  if (request.method === 'GET' && pathParts.length === 5 && pathParts[4] === 'diff') {
+    const sessionId = pathParts[3];
+    return getSessionDiff(sessionId, url.searchParams.get('against'));
+  }
+
+  if ((request.method === 'GET' || request.method === 'POST') && pathParts.length === 5 && pathParts[4] === 'gtm') {
+    const sessionId = pathParts[3];
+    return getGtmContainer(sessionId, request);
+  }
+
+  if (request.method === 'POST' && pathParts.length === 5 && pathParts[4] === 'reanalyze') {
+    const sessionId = pathParts[3];
+    return reanalyzeSession(sessionId);
+  }
+
   if (request.method === 'PUT' && pathParts.length === 4) {
     // Update session
     const sessionId = pathParts[3];
@@ -63,93 +118,54 @@ export default async function sessionHandler({ request, params }: RequestInfo<an
 }
 
 async function createSession(request: Request): Promise<Response> {
+  let body: NewSessionRequest;
   try {
-    const body = await request.json() as NewSessionRequest;
-    const { url: siteUrl, crawl = true, maxPages = 5, usePuppeteer = false, useExternalFetcher = false, extraInstructions } = body;
+    body = await request.json() as NewSessionRequest;
+  } catch {
+    return new Response(JSON.stringify({ error: 'Invalid JSON body' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+  return startSession(body);
+}
 
-    if (!siteUrl) {
+async function startSession(body: NewSessionRequest, links: SessionLinks = {}): Promise<Response> {
+  try {
+    if (!body.url) {
       return new Response(JSON.stringify({ error: 'URL is required' }), {
         status: 400,
         headers: { 'Content-Type': 'application/json' }
       });
     }
 
-    // Generate UUID for session
-    const sessionId = crypto.randomUUID();
-
-    // Create session data
-    const sessionData: SessionData = {
-      id: sessionId,
-      url: siteUrl,
-      usePuppeteer,
-      useExternalFetcher,
-      extraInstructions,
-      crawl,
-      maxPages: Math.min(Math.max(maxPages, 1), DEFAULT_MAX_PAGES),
-      status: 'pending',
-      progress: {
-        stage: 'idle',
-        message: 'Session created, analysis will begin shortly...'
-      },
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString()
-    };
-
-    // Store in KV
-    if (env.SITE_ANALYSIS_CACHE) {
-      await env.SITE_ANALYSIS_CACHE.put(
-        `session:${sessionId}`,
-        JSON.stringify(sessionData),
-        { expirationTtl: 60 * 60 * 24 * 7 } // 7 days
-      );
+    if (body.discoveryMode !== undefined && !CRAWL_DISCOVERY_MODES.includes(body.discoveryMode)) {
+      return new Response(JSON.stringify({ error: `discoveryMode must be one of ${CRAWL_DISCOVERY_MODES.join(', ')}` }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
     }
 
-    console.log(`📝 Created session ${sessionId} for URL: ${siteUrl}`);
-
-    // Use Durable Object for background analysis
-    console.log(`🚀 Starting background analysis using Durable Object for session ${sessionId}...`);
-
-    try {
-      // Get the Durable Object instance
-      const durableObjectId = env.SESSION_ANALYSIS_MANAGER.idFromName(sessionId);
-      const durableObject = env.SESSION_ANALYSIS_MANAGER.get(durableObjectId);
-
-      // Start the analysis in the Durable Object
-      await durableObject.fetch('https://internal/start', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          sessionId,
-          sessionData
-        })
+    const llmError = validateLlmSelection({ provider: body.llmProvider, model: body.llmModel });
+    if (llmError) {
+      return new Response(JSON.stringify({ error: llmError }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
       });
+    }
 
-      console.log(`✅ Analysis process initiated via Durable Object for session ${sessionId}`);
-
-    } catch (error) {
-      console.error(`💥 Failed to initiate Durable Object analysis for session ${sessionId}:`, error);
-
-      // Update session to error state immediately
-      if (env.SITE_ANALYSIS_CACHE) {
-        await env.SITE_ANALYSIS_CACHE.put(
-          `session:${sessionId}`,
-          JSON.stringify({
-            ...sessionData,
-            status: 'error',
-            error: error instanceof Error ? error.message : 'Failed to start analysis',
-            progress: {
-              stage: 'error',
-              message: `Failed to start analysis: ${error instanceof Error ? error.message : 'Unknown error'}`
-            },
-            updatedAt: new Date().toISOString()
-          }),
-          { expirationTtl: 60 * 60 * 24 * 7 } // 7 days
-        );
-      }
+    if (body.promptVersion && !getPromptTemplate('site-analysis', body.promptVersion)) {
+      return new Response(JSON.stringify({ error: `Unknown site-analysis prompt version "${body.promptVersion}"` }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
     }
 
+    const sessionData = await launchSession(body, links);
+
     return new Response(JSON.stringify({
-      sessionId,
+      sessionId: sessionData.id,
+      parentSessionId: sessionData.parentSessionId,
       status: 'created',
       message: 'Session created successfully. Analysis starting...'
     }), {
@@ -158,6 +174,18 @@ async function createSession(request: Request): Promise<Response> {
     });
 
   } catch (error) {
+    if (error instanceof LlmBudgetExceededError) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 429,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+    if (error instanceof SessionStartError) {
+      return new Response(JSON.stringify({ error: error.message, sessionId: error.sessionId }), {
+        status: 502,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
     console.error('Session creation error:', error);
     return new Response(JSON.stringify({
       error: 'Failed to create session',
@@ -169,35 +197,188 @@ async function createSession(request: Request): Promise<Response> {
   }
 }
 
-async function getSession(sessionId: string): Promise<Response> {
+export class SessionStartError extends Error {
+  constructor(public sessionId: string, message: string) {
+    super(message);
+    this.name = 'SessionStartError';
+  }
+}
+
+export interface SessionLinks {
+  parentSessionId?: string;
+  scheduleId?: string;
+}
+
+/**
+ * Create a session and hand it to its SessionAnalysisManager. Every way of
+ * starting an analysis (the API, re-analysis, scheduled audits) goes through here.
+ * Throws SessionStartError, after marking the session failed, when the DO
+ * doesn't accept it.
+ */
+export async function launchSession(body: NewSessionRequest, links: SessionLinks = {}): Promise<SessionData> {
+  const { url: siteUrl, crawl = true, maxPages = 5, maxDepth = DEFAULT_MAX_CRAWL_DEPTH, discoveryMode = 'links', usePuppeteer = false, useExternalFetcher = false, extraInstructions, concurrency = DEFAULT_CONCURRENCY, verifyLytx = false, validateEvents = false, agentMode = false, llmProvider, llmModel, promptVersion, forceFresh = false } = body;
+
+  await assertWithinDailyLlmBudget();
+
+  // Generate UUID for session
+  const sessionId = crypto.randomUUID();
+
+  // Create session data
+  const sessionData: SessionData = {
+    id: sessionId,
+    url: siteUrl,
+    usePuppeteer,
+    useExternalFetcher,
+    extraInstructions: extraInstructions?.trim().slice(0, MAX_EXTRA_INSTRUCTIONS_LENGTH) || undefined,
+    concurrency: Math.min(Math.max(Math.floor(concurrency) || 1, 1), MAX_CONCURRENCY),
+    crawl,
+    maxPages: Math.min(Math.max(maxPages, 1), DEFAULT_MAX_PAGES),
+    maxDepth: Math.min(Math.max(maxDepth, 1), MAX_CRAWL_DEPTH),
+    discoveryMode,
+    verifyLytx,
+    validateEvents,
+    agentMode,
+    llmProvider,
+    llmModel: llmModel?.trim() || undefined,
+    promptVersion: promptVersion || undefined,
+    forceFresh,
+    parentSessionId: links.parentSessionId,
+    scheduleId: links.scheduleId,
+    status: 'pending',
+    progress: {
+      stage: 'idle',
+      message: 'Session created, analysis will begin shortly...'
+    },
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString()
+  };
+
+  // The Durable Object owns session state from here on and writes the KV snapshot
+  console.log(`📝 Created session ${sessionId} for URL: ${siteUrl}`);
+
+  // Use Durable Object for background analysis
+  console.log(`🚀 Starting background analysis using Durable Object for session ${sessionId}...`);
+
+  try {
+    // Get the Durable Object instance
+    const durableObject = getSessionManager(sessionId);
+
+    // Start the analysis in the Durable Object
+    const response = await durableObject.fetch('https://internal/start', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        sessionId,
+        sessionData
+      })
+    });
+
+    if (!response.ok) {
+      const errorBody = await response.json().catch(() => null) as { error?: string } | null;
+      throw new Error(errorBody?.error || `Session manager responded with status ${response.status}`);
+    }
+
+    console.log(`✅ Analysis process initiated via Durable Object for session ${sessionId}`);
+
+  } catch (error) {
+    console.error(`💥 Failed to initiate Durable Object analysis for session ${sessionId}:`, error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+
+    // The DO never started, so record the error state directly
+    await writeSessionSnapshot({
+      ...sessionData,
+      status: 'error',
+      error: message,
+      progress: {
+        stage: 'error',
+        message: `Failed to start analysis: ${message}`
+      },
+      updatedAt: new Date().toISOString()
+    });
+    await updateSessionStatus(sessionId, 'error', message);
+    throw new SessionStartError(sessionId, `Failed to start analysis: ${message}`);
+  }
+
+  return sessionData;
+}
+
+async function reanalyzeSession(parentSessionId: string): Promise<Response> {
   try {
-    if (!env.SITE_ANALYSIS_CACHE) {
-      return new Response(JSON.stringify({ error: 'Session storage not available' }), {
-        status: 503,
+    const parent = await readSession(parentSessionId);
+    if (!parent) {
+      return new Response(JSON.stringify({ error: 'Session not found' }), {
+        status: 404,
         headers: { 'Content-Type': 'application/json' }
       });
     }
 
-    const sessionData = await env.SITE_ANALYSIS_CACHE.get(`session:${sessionId}`);
+    // Same site, same options; `urls` is left out so a crawl can pick up new pages
+    return await startSession({
+      url: parent.url,
+      crawl: parent.crawl,
+      maxPages: parent.maxPages,
+      maxDepth: parent.maxDepth,
+      discoveryMode: parent.discoveryMode,
+      usePuppeteer: parent.usePuppeteer,
+      useExternalFetcher: parent.useExternalFetcher,
+      extraInstructions: parent.extraInstructions,
+      concurrency: parent.concurrency,
+      verifyLytx: parent.verifyLytx,
+      validateEvents: parent.validateEvents,
+      agentMode: parent.agentMode,
+      llmProvider: parent.llmProvider,
+      llmModel: parent.llmModel,
+      promptVersion: parent.promptVersion,
+      forceFresh: parent.forceFresh
+    }, { parentSessionId });
 
-    if (!sessionData) {
+  } catch (error) {
+    console.error('Session re-analysis error:', error);
+    return new Response(JSON.stringify({
+      error: 'Failed to re-analyze session',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+}
+
+async function getSessionDiff(sessionId: string, againstId: string | null): Promise<Response> {
+  try {
+    const target = await readSession(sessionId);
+    if (!target) {
       return new Response(JSON.stringify({ error: 'Session not found' }), {
         status: 404,
         headers: { 'Content-Type': 'application/json' }
       });
     }
 
-    const data = JSON.parse(sessionData) as SessionData;
+    const baseId = againstId || target.parentSessionId;
+    if (!baseId) {
+      return new Response(JSON.stringify({ error: 'No session to compare against; pass ?against=<sessionId>' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
 
-    return new Response(JSON.stringify(data), {
+    const base = await readSession(baseId);
+    if (!base) {
+      return new Response(JSON.stringify({ error: `Session ${baseId} not found` }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    return new Response(JSON.stringify(diffSessions(base, target)), {
       status: 200,
       headers: { 'Content-Type': 'application/json' }
     });
 
   } catch (error) {
-    console.error('Session retrieval error:', error);
+    console.error('Session diff error:', error);
     return new Response(JSON.stringify({
-      error: 'Failed to retrieve session',
+      error: 'Failed to diff sessions',
       details: error instanceof Error ? error.message : 'Unknown error'
     }), {
       status: 500,
@@ -206,42 +387,127 @@ async function getSession(sessionId: string): Promise<Response> {
   }
 }
 
-async function updateSession(sessionId: string, request: Request): Promise<Response> {
+async function getGtmContainer(sessionId: string, request: Request): Promise<Response> {
+  const accountKey = new URL(request.url).searchParams.get('account')?.trim();
+  if (!accountKey) {
+    return new Response(JSON.stringify({ error: 'Pass your LYTX account key as ?account=<key>' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
   try {
-    const updates: any = await request.json();
+    const session = await readSession(sessionId);
+    if (!session) {
+      return new Response(JSON.stringify({ error: 'Session not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
 
-    if (!env.SITE_ANALYSIS_CACHE) {
-      return new Response(JSON.stringify({ error: 'Session storage not available' }), {
-        status: 503,
+    let base: GtmContainerExport | undefined;
+    if (request.method === 'POST') {
+      let upload: unknown;
+      try {
+        upload = await request.json();
+      } catch {
+        return new Response(JSON.stringify({ error: 'Upload is not valid JSON' }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+      base = parseGtmContainerExport(upload);
+    }
+
+    const results = (session.results ?? []).filter((result: any) => !result.error);
+    const container = buildGtmContainer({
+      accountKey,
+      domain: inferDomainFromUrl(session.url),
+      events: gtmEventsFromSession(session),
+      consentRequired: results.some((result: any) => result.pageAnalysis.consent?.gateLytx),
+      base,
+    });
+    const publicId = container.containerVersion.container?.publicId;
+    console.log(`🏷️ GTM container for session ${sessionId}: ${container.containerVersion.tag?.length ?? 0} tags${publicId ? ` merged into ${publicId}` : ''}`);
+
+    return new Response(JSON.stringify(container, null, 2), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Disposition': `attachment; filename="${publicId ?? 'lytx'}-gtm-container.json"`,
+      }
+    });
+
+  } catch (error) {
+    if (error instanceof GtmContainerError) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 400,
         headers: { 'Content-Type': 'application/json' }
       });
     }
+    console.error('GTM container error:', error);
+    return new Response(JSON.stringify({
+      error: 'Failed to build GTM container',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+}
 
-    const sessionData = await env.SITE_ANALYSIS_CACHE.get(`session:${sessionId}`);
+async function getSession(sessionId: string): Promise<Response> {
+  try {
+    const data = await readSession(sessionId);
 
-    if (!sessionData) {
+    if (!data) {
       return new Response(JSON.stringify({ error: 'Session not found' }), {
         status: 404,
         headers: { 'Content-Type': 'application/json' }
       });
     }
 
-    const data = JSON.parse(sessionData) as SessionData;
+    return new Response(JSON.stringify(data), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
 
-    // Update session data  
-    const updatedData = {
-      ...data,
-      ...updates,
-      updatedAt: new Date().toISOString()
-    } as SessionData;
+  } catch (error) {
+    console.error('Session retrieval error:', error);
+    return new Response(JSON.stringify({
+      error: 'Failed to retrieve session',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+}
+
+async function updateSession(sessionId: string, request: Request): Promise<Response> {
+  try {
+    const updates: any = await request.json();
 
-    await env.SITE_ANALYSIS_CACHE.put(
-      `session:${sessionId}`,
-      JSON.stringify(updatedData),
-      { expirationTtl: 60 * 60 * 24 * 7 } // 7 days
-    );
+    // Updates go through the owning Durable Object so they can't race with results
+    const response = await getSessionManager(sessionId).fetch('https://internal/state', {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(updates)
+    });
+
+    if (response.status === 404) {
+      return new Response(JSON.stringify({ error: 'Session not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const { session, error } = await response.json() as { session?: SessionData; error?: string };
+    if (!response.ok || !session) {
+      throw new Error(error || `Session update failed with status ${response.status}`);
+    }
 
-    return new Response(JSON.stringify(updatedData), {
+    return new Response(JSON.stringify(session), {
       status: 200,
       headers: { 'Content-Type': 'application/json' }
     });
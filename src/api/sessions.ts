@@ -0,0 +1,60 @@
+import type { AppContext } from "@/worker";
+import type { RequestInfo } from "rwsdk/worker";
+import { listSessions, type SessionListFilters } from "@/lib/db";
+
+const SESSION_STATUSES = ['pending', 'crawling', 'analyzing', 'completed', 'error'] as const;
+
+// GET /api/sessions - Page through past sessions
+//   ?domain=&from=&to=&status=&cms=&framework=&lytx=true|false&page=&pageSize=
+export default async function sessionsHandler({ request }: RequestInfo<any, AppContext>) {
+  if (request.method !== 'GET') {
+    return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+      status: 405,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  const params = new URL(request.url).searchParams;
+  const status = params.get('status') || undefined;
+  if (status && !SESSION_STATUSES.includes(status as typeof SESSION_STATUSES[number])) {
+    return new Response(JSON.stringify({ error: `Invalid status: ${status}` }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  const lytx = params.get('lytx');
+  const filters: SessionListFilters = {
+    domain: params.get('domain')?.trim() || undefined,
+    from: params.get('from') || undefined,
+    to: params.get('to') || undefined,
+    status: status as SessionListFilters['status'],
+    cms: params.get('cms')?.trim() || undefined,
+    framework: params.get('framework')?.trim() || undefined,
+    lytxDetected: lytx === 'true' ? true : lytx === 'false' ? false : undefined,
+    page: Math.max(Number.parseInt(params.get('page') || '1', 10) || 1, 1),
+    pageSize: Math.min(Math.max(Number.parseInt(params.get('pageSize') || '20', 10) || 20, 1), 100),
+  };
+
+  try {
+    const { sessions, total } = await listSessions(filters);
+    return new Response(JSON.stringify({
+      sessions,
+      total,
+      page: filters.page,
+      pageSize: filters.pageSize
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error) {
+    console.error('Session listing error:', error);
+    return new Response(JSON.stringify({
+      error: 'Failed to list sessions',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+}
@@ -0,0 +1,48 @@
+import type { AppContext } from "@/worker";
+import type { RequestInfo } from "rwsdk/worker";
+import { verifyLytxInstallation } from '../lib/lytx-verifier';
+import { getRobotsPolicy, ROBOTS_DISALLOWED_REASON } from '../lib/robots';
+
+export default async function verifyLytxHandler({ request }: RequestInfo<any, AppContext>) {
+  if (request.method !== 'POST') {
+    return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+      status: 405,
+      headers: { 'Content-Type': 'application/json', 'Allow': 'POST' },
+    });
+  }
+
+  try {
+    const body: { url: string; expectedAccountId?: string } = await request.json();
+    const { url, expectedAccountId } = body;
+
+    if (!url) {
+      return new Response(JSON.stringify({ error: 'url is required' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const policy = await getRobotsPolicy(url);
+    if (!policy.isAllowed(url)) {
+      return new Response(JSON.stringify({ error: `Skipped ${url}: ${ROBOTS_DISALLOWED_REASON}` }), {
+        status: 403,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const verification = await verifyLytxInstallation(url, { expectedAccountId: expectedAccountId?.trim() || undefined });
+    return new Response(JSON.stringify(verification), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('LYTX verification error:', error);
+    return new Response(JSON.stringify({
+      error: 'Failed to verify LYTX installation',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
@@ -0,0 +1,47 @@
+'use client';
+
+import type { AgentTrace } from '@/lib/agent-analysis';
+
+export function AgentTracePanel({ trace }: { trace: AgentTrace }) {
+  const toolCallCount = trace.steps.reduce((total, step) => total + step.toolCalls.length, 0);
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-2xl font-bold text-gray-900">How This Was Derived</h2>
+        <span className="text-sm text-gray-500">
+          {trace.steps.length} of {trace.stepBudget} steps · {toolCallCount} tool calls
+          {trace.promptVersion && <> · {trace.promptVersion}</>}
+        </span>
+      </div>
+
+      {trace.findings && (
+        <div className="mb-4">
+          <h3 className="text-lg font-semibold text-gray-800 mb-2">Findings</h3>
+          <p className="text-sm text-gray-700 whitespace-pre-wrap">{trace.findings}</p>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {trace.steps.filter(step => step.toolCalls.length > 0).map(step => (
+          <details key={step.step} className="border border-gray-200 rounded-lg p-3">
+            <summary className="cursor-pointer text-sm font-medium text-gray-800">
+              Step {step.step}: {step.toolCalls.map(call => call.toolName).join(', ')}
+            </summary>
+            <div className="mt-2 space-y-3">
+              {step.text && <p className="text-sm text-gray-600">{step.text}</p>}
+              {step.toolCalls.map((call, index) => (
+                <div key={index} className="text-xs">
+                  <p className={`font-medium ${call.error ? 'text-red-700' : 'text-gray-700'}`}>
+                    {call.toolName}({JSON.stringify(call.input)})
+                  </p>
+                  <pre className="mt-1 bg-gray-50 p-2 rounded overflow-x-auto whitespace-pre-wrap break-all">{call.output}</pre>
+                </div>
+              ))}
+            </div>
+          </details>
+        ))}
+      </div>
+    </div>
+  );
+}
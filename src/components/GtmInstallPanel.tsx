@@ -0,0 +1,88 @@
+'use client';
+
+import { useState } from 'react';
+
+interface GtmInstallPanelProps {
+  sessionId: string;
+  accountKey: string;
+  // GTM-XXXX IDs seen on the analyzed pages
+  containerIds: string[];
+}
+
+export function GtmInstallPanel({ sessionId, accountKey, containerIds }: GtmInstallPanelProps) {
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const requestContainer = async (upload?: string) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/session/${sessionId}/gtm?account=${encodeURIComponent(accountKey)}`, {
+        method: upload ? 'POST' : 'GET',
+        headers: upload ? { 'Content-Type': 'application/json' } : undefined,
+        body: upload,
+      });
+      if (!response.ok) {
+        const body: any = await response.json().catch(() => ({}));
+        throw new Error(body.error || `Request failed (${response.status})`);
+      }
+
+      const filename = /filename="([^"]+)"/.exec(response.headers.get('Content-Disposition') || '')?.[1] ?? 'lytx-gtm-container.json';
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(await response.blob());
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(link.href);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to build the container');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleUpload = async (file: File | undefined) => {
+    if (!file) return;
+    await requestContainer(await file.text());
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <h2 className="text-lg font-semibold text-gray-800 mb-2">Install via Google Tag Manager</h2>
+      <p className="text-sm text-gray-600 mb-3">
+        {containerIds.length > 0
+          ? <>This site loads GTM ({containerIds.join(', ')}). Install LYTX through the container instead of editing page templates.</>
+          : <>No GTM container was detected, but if the site uses one you can install LYTX through it.</>}
+        {' '}Import the file under Admin › Import Container, choosing <em>Merge</em>.
+      </p>
+      {!accountKey ? (
+        <p className="text-sm text-gray-500">Enter a LYTX account key above to generate the container.</p>
+      ) : (
+        <div className="flex flex-wrap items-center gap-3">
+          <button
+            type="button"
+            disabled={busy}
+            onClick={() => requestContainer()}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+          >
+            Download LYTX container
+          </button>
+          <label className={`px-4 py-2 border border-gray-300 rounded-lg text-gray-700 ${busy ? 'opacity-50' : 'cursor-pointer hover:bg-gray-50'}`}>
+            Merge into exported container…
+            <input
+              type="file"
+              accept="application/json,.json"
+              disabled={busy}
+              className="hidden"
+              onChange={(e) => {
+                handleUpload(e.target.files?.[0]);
+                e.target.value = '';
+              }}
+            />
+          </label>
+          {busy && <span className="text-sm text-gray-500">Building…</span>}
+        </div>
+      )}
+      {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,261 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+interface SessionSummary {
+  id: string;
+  url: string;
+  domain: string;
+  status: 'pending' | 'crawling' | 'analyzing' | 'completed' | 'error';
+  maxPages: number;
+  error: string | null;
+  createdAt: string;
+  completedAt: string | null;
+  pageCount: number;
+  lytxDetected: boolean;
+  cms: string[];
+  frameworks: string[];
+}
+
+interface RecentSearch {
+  id: string;
+  url: string;
+  createdAt: string | null;
+}
+
+interface Filters {
+  domain: string;
+  from: string;
+  to: string;
+  status: string;
+  cms: string;
+  framework: string;
+  lytx: '' | 'true' | 'false';
+}
+
+interface HistoryPageProps {
+  recentSearches?: RecentSearch[];
+}
+
+const PAGE_SIZE = 20;
+
+const EMPTY_FILTERS: Filters = { domain: '', from: '', to: '', status: '', cms: '', framework: '', lytx: '' };
+
+export function HistoryPage({ recentSearches = [] }: HistoryPageProps) {
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [applied, setApplied] = useState<Filters>(EMPTY_FILTERS);
+  const [page, setPage] = useState<number>(1);
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [total, setTotal] = useState<number>(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchSessions = async () => {
+      setLoading(true);
+      try {
+        const params = new URLSearchParams({ page: String(page), pageSize: String(PAGE_SIZE) });
+        for (const [key, value] of Object.entries(applied)) {
+          if (value) params.set(key, value);
+        }
+
+        const response = await fetch(`/api/sessions?${params}`);
+        if (!response.ok) {
+          const errorData = await response.json() as { error?: string };
+          throw new Error(errorData.error || 'Failed to load sessions');
+        }
+
+        const data = await response.json() as { sessions: SessionSummary[]; total: number };
+        setSessions(data.sessions);
+        setTotal(data.total);
+        setError(null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load sessions');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchSessions();
+  }, [applied, page]);
+
+  const updateFilter = (key: keyof Filters) => (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    setFilters(prev => ({ ...prev, [key]: e.target.value }));
+  };
+
+  const applyFilters = (e: React.FormEvent) => {
+    e.preventDefault();
+    setPage(1);
+    setApplied(filters);
+  };
+
+  const resetFilters = () => {
+    setFilters(EMPTY_FILTERS);
+    setPage(1);
+    setApplied(EMPTY_FILTERS);
+  };
+
+  const totalPages = Math.max(Math.ceil(total / PAGE_SIZE), 1);
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8 px-4">
+      <div className="max-w-5xl mx-auto">
+        <header className="text-center mb-8">
+          <h1 className="text-4xl font-bold text-gray-900 mb-4">
+            Analysis History
+          </h1>
+          <p className="text-xl text-gray-600 max-w-2xl mx-auto">
+            Browse past site audits and jump back into any session.
+          </p>
+          <a href="/" className="inline-block mt-4 text-sm text-blue-600 hover:underline">
+            ← New analysis
+          </a>
+        </header>
+
+        <form onSubmit={applyFilters} className="bg-white rounded-lg shadow-md p-6 mb-8">
+          <div className="grid md:grid-cols-4 gap-4">
+            <div className="md:col-span-2">
+              <label htmlFor="domain" className="block text-sm font-medium text-gray-700 mb-1">Domain</label>
+              <input id="domain" type="text" value={filters.domain} onChange={updateFilter('domain')} placeholder="example.com" className={inputClass} />
+            </div>
+            <div>
+              <label htmlFor="from" className="block text-sm font-medium text-gray-700 mb-1">From</label>
+              <input id="from" type="date" value={filters.from} onChange={updateFilter('from')} className={inputClass} />
+            </div>
+            <div>
+              <label htmlFor="to" className="block text-sm font-medium text-gray-700 mb-1">To</label>
+              <input id="to" type="date" value={filters.to} onChange={updateFilter('to')} className={inputClass} />
+            </div>
+            <div>
+              <label htmlFor="status" className="block text-sm font-medium text-gray-700 mb-1">Status</label>
+              <select id="status" value={filters.status} onChange={updateFilter('status')} className={inputClass}>
+                <option value="">Any</option>
+                <option value="pending">Pending</option>
+                <option value="crawling">Crawling</option>
+                <option value="analyzing">Analyzing</option>
+                <option value="completed">Completed</option>
+                <option value="error">Error</option>
+              </select>
+            </div>
+            <div>
+              <label htmlFor="cms" className="block text-sm font-medium text-gray-700 mb-1">CMS</label>
+              <input id="cms" type="text" value={filters.cms} onChange={updateFilter('cms')} placeholder="WordPress" className={inputClass} />
+            </div>
+            <div>
+              <label htmlFor="framework" className="block text-sm font-medium text-gray-700 mb-1">Framework</label>
+              <input id="framework" type="text" value={filters.framework} onChange={updateFilter('framework')} placeholder="Next.js" className={inputClass} />
+            </div>
+            <div>
+              <label htmlFor="lytx" className="block text-sm font-medium text-gray-700 mb-1">LYTX installed</label>
+              <select id="lytx" value={filters.lytx} onChange={updateFilter('lytx')} className={inputClass}>
+                <option value="">Any</option>
+                <option value="true">Detected</option>
+                <option value="false">Not detected</option>
+              </select>
+            </div>
+          </div>
+          <div className="flex justify-end gap-3 mt-4">
+            <button type="button" onClick={resetFilters} className="px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50">
+              Reset
+            </button>
+            <button type="submit" className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700">
+              Apply filters
+            </button>
+          </div>
+        </form>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-8 text-red-700">
+            {error}
+          </div>
+        )}
+
+        <div className="bg-white rounded-lg shadow-md mb-8">
+          <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+            <h2 className="text-lg font-semibold text-gray-800">Sessions</h2>
+            <span className="text-sm text-gray-500">{total} total</span>
+          </div>
+
+          {loading ? (
+            <div className="p-6 animate-pulse space-y-3">
+              <div className="h-4 bg-gray-200 rounded w-3/4"></div>
+              <div className="h-4 bg-gray-200 rounded w-1/2"></div>
+            </div>
+          ) : sessions.length === 0 ? (
+            <p className="p-6 text-gray-500">No sessions match these filters.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {sessions.map(session => (
+                <li key={session.id}>
+                  <a href={`/session/${session.id}`} className="block px-6 py-4 hover:bg-gray-50">
+                    <div className="flex items-center justify-between gap-4">
+                      <div className="min-w-0">
+                        <p className="font-medium text-gray-900 truncate">{session.url}</p>
+                        <p className="text-sm text-gray-500">
+                          {new Date(session.createdAt).toLocaleString()} · {session.pageCount} page{session.pageCount === 1 ? '' : 's'}
+                        </p>
+                      </div>
+                      <span className={`shrink-0 px-3 py-1 rounded-full text-xs font-medium ${session.status === 'completed' ? 'bg-green-100 text-green-800' :
+                        session.status === 'error' ? 'bg-red-100 text-red-800' :
+                          'bg-yellow-100 text-yellow-800'
+                        }`}>
+                        {session.status}
+                      </span>
+                    </div>
+                    <div className="flex flex-wrap gap-2 mt-2 text-xs">
+                      {session.cms.map(cms => (
+                        <span key={`cms-${cms}`} className="px-2 py-0.5 rounded bg-purple-100 text-purple-800">{cms}</span>
+                      ))}
+                      {session.frameworks.map(framework => (
+                        <span key={`fw-${framework}`} className="px-2 py-0.5 rounded bg-blue-100 text-blue-800">{framework}</span>
+                      ))}
+                      <span className={`px-2 py-0.5 rounded ${session.lytxDetected ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'}`}>
+                        {session.lytxDetected ? 'LYTX detected' : 'No LYTX'}
+                      </span>
+                    </div>
+                    {session.error && <p className="mt-2 text-xs text-red-600">{session.error}</p>}
+                  </a>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex items-center justify-between px-6 py-4 border-t border-gray-200 text-sm">
+            <button
+              type="button"
+              onClick={() => setPage(p => p - 1)}
+              disabled={page <= 1 || loading}
+              className="px-3 py-1 border border-gray-300 rounded disabled:opacity-50"
+            >
+              Previous
+            </button>
+            <span className="text-gray-600">Page {page} of {totalPages}</span>
+            <button
+              type="button"
+              onClick={() => setPage(p => p + 1)}
+              disabled={page >= totalPages || loading}
+              className="px-3 py-1 border border-gray-300 rounded disabled:opacity-50"
+            >
+              Next
+            </button>
+          </div>
+        </div>
+
+        {recentSearches.length > 0 && (
+          <div className="bg-white rounded-lg shadow-md p-6">
+            <h2 className="text-lg font-semibold text-gray-800 mb-3">Recent pasted-HTML analyses</h2>
+            <ul className="space-y-1 text-sm">
+              {recentSearches.map(search => (
+                <li key={search.id} className="flex justify-between gap-4">
+                  <span className="text-gray-800 truncate">{search.url}</span>
+                  {search.createdAt && <span className="shrink-0 text-gray-500">{search.createdAt}</span>}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -2,8 +2,9 @@
 
 import { useMemo, useState } from 'react';
 import { createLytxTag, inferDomainFromUrl } from '@vendors/lytx';
-import { DEFAULT_MAX_PAGES } from "@/lib/defaults"
-import { NewSessionRequest } from '@/lib/types';
+import { DEFAULT_CONCURRENCY, DEFAULT_MAX_CRAWL_DEPTH, DEFAULT_MAX_PAGES, MAX_CONCURRENCY, MAX_CRAWL_DEPTH, MAX_EXTRA_INSTRUCTIONS_LENGTH } from "@/lib/defaults"
+import { CrawlDiscoveryMode, NewSessionRequest } from '@/lib/types';
+import type { LlmProviderId } from '@/lib/llm-providers';
 
 interface AnalysisResult {
   pageAnalysis: {
@@ -57,7 +58,16 @@ export function HomePage() {
   const [crawl, setCrawl] = useState<boolean>(true);
   const [usePuppeteer, setUsePuppeteer] = useState<boolean>(false);
   const [useExternalFetcher, setUseExternalFetcher] = useState<boolean>(false);
+  const [verifyLytx, setVerifyLytx] = useState<boolean>(false);
+  const [validateEvents, setValidateEvents] = useState<boolean>(false);
+  const [agentMode, setAgentMode] = useState<boolean>(false);
+  const [forceFresh, setForceFresh] = useState<boolean>(false);
   const [maxPages, setMaxPages] = useState<number>(5);
+  const [maxDepth, setMaxDepth] = useState<number>(DEFAULT_MAX_CRAWL_DEPTH);
+  const [discoveryMode, setDiscoveryMode] = useState<CrawlDiscoveryMode>('links');
+  const [concurrency, setConcurrency] = useState<number>(DEFAULT_CONCURRENCY);
+  const [llmProvider, setLlmProvider] = useState<LlmProviderId | ''>('');
+  const [llmModel, setLlmModel] = useState<string>('');
   const [loading, setLoading] = useState(false);
   const [results, setResults] = useState<AnalysisResult[] | null>(null);
   const [error, setError] = useState<string | null>(null);
@@ -83,10 +93,18 @@ export function HomePage() {
         url,
         crawl,
         maxPages,
+        maxDepth,
+        discoveryMode,
         usePuppeteer,
         useExternalFetcher,
         extraInstructions,
-        concurrency: 3 // Use configurable concurrency
+        concurrency,
+        verifyLytx,
+        validateEvents,
+        agentMode,
+        forceFresh,
+        llmProvider: llmProvider || undefined,
+        llmModel: llmModel.trim() || undefined
       }
       // Create session and redirect immediately
       const sessionRes = await fetch('/api/session', {
@@ -130,6 +148,14 @@ export function HomePage() {
             Intelligent website analysis for optimal LYTX.io analytics integration.
             Get comprehensive recommendations for tag placement, tracking, and optimization.
           </p>
+          <div className="mt-4 flex justify-center gap-6 text-sm">
+            <a href="/history" className="text-blue-600 hover:underline">
+              View past analyses →
+            </a>
+            <a href="/schedules" className="text-blue-600 hover:underline">
+              Scheduled audits →
+            </a>
+          </div>
         </header>
 
         <div className="bg-white rounded-lg shadow-md p-6 mb-8">
@@ -180,6 +206,46 @@ export function HomePage() {
                 />
                 Use External Fetcher
               </label>
+              <label className="inline-flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  className="h-4 w-4"
+                  checked={verifyLytx}
+                  onChange={(e) => setVerifyLytx(e.target.checked)}
+                  disabled={loading}
+                />
+                Verify LYTX in browser
+              </label>
+              <label className="inline-flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  className="h-4 w-4"
+                  checked={validateEvents}
+                  onChange={(e) => setValidateEvents(e.target.checked)}
+                  disabled={loading}
+                />
+                Test tracking events
+              </label>
+              <label className="inline-flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  className="h-4 w-4"
+                  checked={agentMode}
+                  onChange={(e) => setAgentMode(e.target.checked)}
+                  disabled={loading}
+                />
+                Agent mode (multi-step)
+              </label>
+              <label className="inline-flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  className="h-4 w-4"
+                  checked={forceFresh}
+                  onChange={(e) => setForceFresh(e.target.checked)}
+                  disabled={loading}
+                />
+                Force fresh (skip cached answers)
+              </label>
 
 
               <div className="flex items-center gap-2">
@@ -195,6 +261,71 @@ export function HomePage() {
                   disabled={loading || !crawl}
                 />
               </div>
+              <div className="flex items-center gap-2">
+                <label htmlFor="maxDepth" className="text-sm text-gray-700">Max depth</label>
+                <input
+                  type="number"
+                  id="maxDepth"
+                  min={1}
+                  max={MAX_CRAWL_DEPTH}
+                  value={maxDepth}
+                  onChange={(e) => setMaxDepth(Math.max(1, Math.min(MAX_CRAWL_DEPTH, Number(e.target.value) || 1)))}
+                  className="w-16 px-2 py-1 border border-gray-300 rounded"
+                  disabled={loading || !crawl}
+                />
+              </div>
+              <div className="flex items-center gap-2">
+                <label htmlFor="discoveryMode" className="text-sm text-gray-700">Discover via</label>
+                <select
+                  id="discoveryMode"
+                  value={discoveryMode}
+                  onChange={(e) => setDiscoveryMode(e.target.value as CrawlDiscoveryMode)}
+                  className="px-2 py-1 border border-gray-300 rounded text-sm"
+                  disabled={loading || !crawl}
+                >
+                  <option value="links">Links</option>
+                  <option value="sitemap">Sitemap</option>
+                  <option value="both">Both</option>
+                </select>
+              </div>
+              <div className="flex items-center gap-2">
+                <label htmlFor="concurrency" className="text-sm text-gray-700">Concurrency</label>
+                <input
+                  type="number"
+                  id="concurrency"
+                  min={1}
+                  max={MAX_CONCURRENCY}
+                  value={concurrency}
+                  onChange={(e) => setConcurrency(Math.max(1, Math.min(MAX_CONCURRENCY, Number(e.target.value) || 1)))}
+                  className="w-16 px-2 py-1 border border-gray-300 rounded"
+                  disabled={loading}
+                />
+              </div>
+              <div className="flex items-center gap-2">
+                <label htmlFor="llmProvider" className="text-sm text-gray-700">Model</label>
+                <select
+                  id="llmProvider"
+                  value={llmProvider}
+                  onChange={(e) => setLlmProvider(e.target.value as LlmProviderId | '')}
+                  className="px-2 py-1 border border-gray-300 rounded text-sm"
+                  disabled={loading}
+                >
+                  <option value="">Default</option>
+                  <option value="openai">OpenAI</option>
+                  <option value="anthropic">Anthropic</option>
+                  <option value="openai-compatible">OpenAI-compatible</option>
+                  <option value="mock">Mock (offline)</option>
+                </select>
+                <input
+                  type="text"
+                  aria-label="Model name"
+                  placeholder="provider default"
+                  value={llmModel}
+                  onChange={(e) => setLlmModel(e.target.value)}
+                  className="w-36 px-2 py-1 border border-gray-300 rounded text-sm"
+                  disabled={loading}
+                />
+              </div>
             </div>
             <div>
               <label htmlFor="lytxKey" className="block text-sm font-medium text-gray-700 mb-2">
@@ -205,6 +336,7 @@ export function HomePage() {
                 id="extraInstructions"
                 value={extraInstructions}
                 onChange={(e) => setExtraInstructions(e.target.value)}
+                maxLength={MAX_EXTRA_INSTRUCTIONS_LENGTH}
                 placeholder="Ignore the menu area of the page, and only crawl the main content area."
                 className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                 disabled={loading}
@@ -259,7 +391,7 @@ export function HomePage() {
                   const res = await fetch('/api/analyze-html', {
                     method: 'POST',
                     headers: { 'Content-Type': 'application/json' },
-                    body: JSON.stringify({ url, html: pastedHtml }),
+                    body: JSON.stringify({ url, html: pastedHtml, extraInstructions, forceFresh }),
                   });
                   if (!res.ok) {
                     let detail = res.statusText;
@@ -0,0 +1,95 @@
+'use client';
+
+import { useState } from 'react';
+import { inferDomainFromUrl } from '@vendors/lytx';
+import {
+  buildInstallGuide,
+  INSTALL_PLATFORM_NAMES,
+  INSTALL_PLATFORMS,
+  type InstallGuideOptions,
+  type InstallPlatform,
+} from '@/lib/install-guides';
+
+interface InstallGuidePanelProps {
+  url: string;
+  accountKey: string;
+  // Platform detected across the session, if any
+  detectedPlatform: InstallPlatform | null;
+  events: InstallGuideOptions['events'];
+  consentPlatform?: string;
+}
+
+export function InstallGuidePanel({ url, accountKey, detectedPlatform, events, consentPlatform }: InstallGuidePanelProps) {
+  const [platform, setPlatform] = useState<InstallPlatform>(detectedPlatform ?? 'shopify');
+  const guide = buildInstallGuide(platform, {
+    accountKey,
+    domain: inferDomainFromUrl(url),
+    events,
+    consentPlatform,
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        {INSTALL_PLATFORMS.map(option => (
+          <button
+            key={option}
+            type="button"
+            onClick={() => setPlatform(option)}
+            className={`px-3 py-1 text-sm rounded-full border ${option === platform
+                ? 'bg-blue-600 border-blue-600 text-white'
+                : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+              }`}
+          >
+            {INSTALL_PLATFORM_NAMES[option]}
+            {option === detectedPlatform && ' (detected)'}
+          </button>
+        ))}
+      </div>
+      {!detectedPlatform && (
+        <p className="text-sm text-gray-500">No supported platform was detected; pick the one the site is built on.</p>
+      )}
+
+      <ol className="list-decimal list-inside space-y-1 text-sm text-gray-700">
+        {guide.steps.map((step, index) => <li key={index}>{step}</li>)}
+      </ol>
+
+      {guide.artifacts.map(artifact => (
+        <div key={artifact.title}>
+          <div className="flex justify-between items-center mb-1">
+            <div className="text-sm">
+              <span className="font-medium text-gray-800">{artifact.title}</span>
+              <code className="ml-2 text-xs text-gray-500">{artifact.location}</code>
+            </div>
+            <CopyCodeButton text={artifact.code} />
+          </div>
+          <pre className="bg-gray-50 p-3 rounded text-sm overflow-x-auto">
+            <code>{artifact.code}</code>
+          </pre>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function CopyCodeButton({ text }: { text: string }) {
+  const [copied, setCopied] = useState(false);
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch {
+      // no-op
+    }
+  };
+  return (
+    <button
+      type="button"
+      onClick={handleCopy}
+      className="px-2 py-1 text-xs text-gray-700 border border-gray-300 rounded hover:bg-gray-50"
+    >
+      {copied ? 'Copied' : 'Copy'}
+    </button>
+  );
+}
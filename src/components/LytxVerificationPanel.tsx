@@ -0,0 +1,124 @@
+'use client';
+
+import { useState } from 'react';
+import type { LytxVerification } from '@/lib/lytx-verifier';
+
+interface LytxVerificationPanelProps {
+  url: string;
+  // Verification captured during the session, if it ran with verifyLytx.
+  // Only read on mount; give the panel a key per URL.
+  verification?: LytxVerification;
+  expectedAccountId?: string;
+}
+
+const CHECK_LABELS: Record<keyof LytxVerification['checks'], string> = {
+  scriptTagPresent: 'lytx.js script tag in the DOM',
+  scriptLoaded: 'lytx.js loaded successfully',
+  apiInitialized: 'window.lytxApi initialized',
+  apiShapeValid: 'window.lytxApi matches the LytxApi interface',
+  beaconSent: 'Request sent to lytx.io',
+  accountMatches: 'Runtime account matches the detected account',
+};
+
+export function LytxVerificationPanel({ url, verification: initial, expectedAccountId }: LytxVerificationPanelProps) {
+  const [verification, setVerification] = useState<LytxVerification | undefined>(initial);
+  const [verifying, setVerifying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const verify = async () => {
+    setVerifying(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/verify-lytx', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ url, expectedAccountId })
+      });
+      if (!response.ok) {
+        const errorData = await response.json() as { error?: string; details?: string };
+        throw new Error(errorData.details || errorData.error || 'Verification failed');
+      }
+      setVerification(await response.json() as LytxVerification);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Verification failed');
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-2xl font-bold text-gray-900">LYTX Installation Check</h2>
+        <div className="flex items-center gap-3">
+          {verification && (
+            <span className={`px-3 py-1 rounded-full text-sm font-medium ${verification.status === 'pass' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}>
+              {verification.status === 'pass' ? 'Pass' : 'Fail'}
+            </span>
+          )}
+          <button
+            type="button"
+            onClick={verify}
+            disabled={verifying}
+            className="px-3 py-1 text-sm border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50"
+          >
+            {verifying ? 'Verifying…' : verification ? 'Re-verify' : 'Verify in browser'}
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600 mb-3">{error}</p>}
+
+      {!verification ? (
+        <p className="text-sm text-gray-600">
+          Load this page in a real browser to confirm the LYTX tag loads, initializes and sends data.
+        </p>
+      ) : (
+        <div className="space-y-3 text-sm">
+          <ul className="space-y-1">
+            {(Object.keys(CHECK_LABELS) as (keyof LytxVerification['checks'])[])
+              .filter(check => verification.checks[check] !== undefined)
+              .map(check => (
+                <li key={check} className="flex items-center gap-2">
+                  <span className={`inline-block w-2 h-2 rounded-full ${verification.checks[check] ? 'bg-green-500' : 'bg-red-500'}`} />
+                  <span className="text-gray-700">{CHECK_LABELS[check]}</span>
+                </li>
+              ))}
+          </ul>
+          <p><strong>Runtime account:</strong> {verification.accountId || 'None observed'}</p>
+          {verification.apiMismatches.length > 0 && verification.checks.apiInitialized && (
+            <div>
+              <strong>API mismatches:</strong>
+              <ul className="list-disc list-inside text-red-700">
+                {verification.apiMismatches.map(mismatch => <li key={mismatch}>{mismatch}</li>)}
+              </ul>
+            </div>
+          )}
+          {verification.requests.length > 0 && (
+            <div>
+              <strong>Requests to lytx.io:</strong>
+              <ul className="mt-1 max-h-32 overflow-auto border border-gray-200 rounded p-2 bg-gray-50 text-xs">
+                {verification.requests.map((request, index) => (
+                  <li key={index} className="flex gap-2">
+                    <span className="text-gray-500">{request.method}</span>
+                    <span className="truncate">{request.url}</span>
+                    <span className={`ml-auto ${request.failure ? 'text-red-600' : 'text-gray-500'}`}>{request.failure || request.status || '…'}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {verification.errors.length > 0 && (
+            <div>
+              <strong>Errors:</strong>
+              <ul className="list-disc list-inside text-red-700">
+                {verification.errors.map((message, index) => <li key={index}>{message}</li>)}
+              </ul>
+            </div>
+          )}
+          <p className="text-xs text-gray-500">Verified {new Date(verification.verifiedAt).toLocaleString()}</p>
+        </div>
+      )}
+    </div>
+  );
+}
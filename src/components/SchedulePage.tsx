@@ -0,0 +1,178 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { ScheduleCadence } from '@/lib/types';
+
+interface Schedule {
+  id: string;
+  url: string;
+  cadence: ScheduleCadence;
+  enabled: boolean;
+  nextRunAt: string;
+  lastRunAt: string | null;
+}
+
+interface TimelineEntry {
+  id: string;
+  status: 'pending' | 'crawling' | 'analyzing' | 'completed' | 'error';
+  createdAt: string;
+  pageCount: number;
+  lytxDetected: boolean;
+  error: string | null;
+}
+
+interface ScheduleAlert {
+  id: number;
+  sessionId: string;
+  kind: 'lytx_removed';
+  message: string;
+  urls: string[];
+  createdAt: string;
+}
+
+interface SchedulePageProps {
+  scheduleId: string;
+}
+
+export function SchedulePage({ scheduleId }: SchedulePageProps) {
+  const [schedule, setSchedule] = useState<Schedule | null>(null);
+  const [timeline, setTimeline] = useState<TimelineEntry[]>([]);
+  const [alerts, setAlerts] = useState<ScheduleAlert[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [running, setRunning] = useState(false);
+
+  const fetchSchedule = async () => {
+    try {
+      const response = await fetch(`/api/schedules/${scheduleId}`);
+      if (!response.ok) {
+        throw new Error(`Schedule not found: ${response.statusText}`);
+      }
+      const data = await response.json() as { schedule: Schedule; timeline: TimelineEntry[]; alerts: ScheduleAlert[] };
+      setSchedule(data.schedule);
+      setTimeline(data.timeline);
+      setAlerts(data.alerts);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch schedule');
+    }
+  };
+
+  useEffect(() => {
+    fetchSchedule();
+  }, [scheduleId]);
+
+  const runNow = async () => {
+    setRunning(true);
+    try {
+      const response = await fetch(`/api/schedules/${scheduleId}/run`, { method: 'POST' });
+      if (!response.ok) {
+        throw new Error('Failed to start run');
+      }
+      const { sessionId } = await response.json() as { sessionId: string };
+      window.location.href = `/session/${sessionId}`;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start run');
+      setRunning(false);
+    }
+  };
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-gray-50 py-8 px-4">
+        <div className="max-w-4xl mx-auto">
+          <div className="bg-red-50 border border-red-200 rounded-lg p-6">
+            <h2 className="text-xl font-semibold text-red-800 mb-2">Schedule Error</h2>
+            <p className="text-red-700">{error}</p>
+            <a href="/schedules" className="inline-block mt-4 px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700">
+              Back to Schedules
+            </a>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!schedule) {
+    return (
+      <div className="min-h-screen bg-gray-50 py-8 px-4">
+        <div className="max-w-4xl mx-auto">
+          <div className="bg-white rounded-lg shadow-md p-6 animate-pulse">
+            <div className="h-4 bg-gray-200 rounded w-3/4 mb-4"></div>
+            <div className="h-4 bg-gray-200 rounded w-1/2"></div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8 px-4">
+      <div className="max-w-4xl mx-auto">
+        <header className="text-center mb-8">
+          <h1 className="text-4xl font-bold text-gray-900 mb-4">
+            Scheduled Audit
+          </h1>
+          <p className="text-xl text-gray-600 max-w-2xl mx-auto">
+            <strong>{schedule.url}</strong>
+          </p>
+          <div className="mt-2 text-sm text-gray-500">
+            Runs {schedule.cadence}{!schedule.enabled && ' (paused)'} · next run {new Date(schedule.nextRunAt).toLocaleString()}
+          </div>
+          <div className="mt-4 flex justify-center gap-3">
+            <a href="/schedules" className="px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50">
+              All schedules
+            </a>
+            <button
+              type="button"
+              onClick={runNow}
+              disabled={running}
+              className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              {running ? 'Starting…' : 'Run now'}
+            </button>
+          </div>
+        </header>
+
+        {alerts.length > 0 && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-6 mb-8">
+            <h2 className="text-lg font-semibold text-red-800 mb-3">Alerts</h2>
+            <ul className="space-y-3">
+              {alerts.map(alert => (
+                <li key={alert.id} className="text-sm">
+                  <p className="font-medium text-red-800">{alert.message}</p>
+                  <p className="text-red-700">
+                    {new Date(alert.createdAt).toLocaleString()} · <a href={`/session/${alert.sessionId}`} className="underline">view run</a>
+                  </p>
+                  <ul className="mt-1 text-xs text-red-700">
+                    {alert.urls.map(url => <li key={url}>{url}</li>)}
+                  </ul>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <h2 className="text-lg font-semibold text-gray-800 mb-4">Timeline</h2>
+          {timeline.length === 0 ? (
+            <p className="text-gray-500">No runs yet. The first run starts on the next scheduler tick.</p>
+          ) : (
+            <ol className="border-l-2 border-gray-200 space-y-4">
+              {timeline.map(entry => (
+                <li key={entry.id} className="relative pl-6">
+                  <span className={`absolute -left-[7px] top-1.5 w-3 h-3 rounded-full ${entry.status === 'error' ? 'bg-red-500' : entry.lytxDetected ? 'bg-green-500' : 'bg-gray-400'}`} />
+                  <a href={`/session/${entry.id}`} className="block hover:underline">
+                    <p className="text-sm font-medium text-gray-900">{new Date(entry.createdAt).toLocaleString()}</p>
+                    <p className="text-xs text-gray-500">
+                      {entry.status} · {entry.pageCount} page{entry.pageCount === 1 ? '' : 's'} · {entry.lytxDetected ? 'LYTX detected' : 'No LYTX'}
+                    </p>
+                  </a>
+                  {entry.error && <p className="text-xs text-red-600">{entry.error}</p>}
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,178 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { DEFAULT_CONCURRENCY } from '@/lib/defaults';
+import type { NewScheduleRequest, ScheduleCadence } from '@/lib/types';
+
+interface Schedule {
+  id: string;
+  url: string;
+  domain: string;
+  cadence: ScheduleCadence;
+  enabled: boolean;
+  nextRunAt: string;
+  lastRunAt: string | null;
+  lastSessionId: string | null;
+  alertCount: number;
+}
+
+export function SchedulesPage() {
+  const [schedules, setSchedules] = useState<Schedule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [url, setUrl] = useState('');
+  const [cadence, setCadence] = useState<ScheduleCadence>('weekly');
+  const [crawl, setCrawl] = useState<boolean>(true);
+  const [maxPages, setMaxPages] = useState<number>(5);
+  const [creating, setCreating] = useState(false);
+
+  const fetchSchedules = async () => {
+    try {
+      const response = await fetch('/api/schedules');
+      if (!response.ok) {
+        throw new Error('Failed to load schedules');
+      }
+      const data = await response.json() as { schedules: Schedule[] };
+      setSchedules(data.schedules);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load schedules');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchSchedules();
+  }, []);
+
+  const createSchedule = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!url) return;
+
+    setCreating(true);
+    try {
+      const body: NewScheduleRequest = {
+        url,
+        cadence,
+        options: { crawl, maxPages, concurrency: DEFAULT_CONCURRENCY }
+      };
+      const response = await fetch('/api/schedules', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      });
+      if (!response.ok) {
+        const errorData = await response.json() as { error?: string };
+        throw new Error(errorData.error || 'Failed to create schedule');
+      }
+      setUrl('');
+      await fetchSchedules();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create schedule');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const toggleSchedule = async (schedule: Schedule) => {
+    await fetch(`/api/schedules/${schedule.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ enabled: !schedule.enabled })
+    });
+    await fetchSchedules();
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8 px-4">
+      <div className="max-w-4xl mx-auto">
+        <header className="text-center mb-8">
+          <h1 className="text-4xl font-bold text-gray-900 mb-4">
+            Scheduled Audits
+          </h1>
+          <p className="text-xl text-gray-600 max-w-2xl mx-auto">
+            Re-run the planner on a cadence and get alerted when LYTX goes missing.
+          </p>
+          <a href="/" className="inline-block mt-4 text-sm text-blue-600 hover:underline">
+            ← New analysis
+          </a>
+        </header>
+
+        <form onSubmit={createSchedule} className="bg-white rounded-lg shadow-md p-6 mb-8 space-y-4">
+          <div>
+            <label htmlFor="url" className="block text-sm font-medium text-gray-700 mb-1">Website URL</label>
+            <input id="url" type="url" value={url} onChange={(e) => setUrl(e.target.value)} placeholder="https://example.com" className={inputClass} required />
+          </div>
+          <div className="grid md:grid-cols-3 gap-4">
+            <div>
+              <label htmlFor="cadence" className="block text-sm font-medium text-gray-700 mb-1">Cadence</label>
+              <select id="cadence" value={cadence} onChange={(e) => setCadence(e.target.value as ScheduleCadence)} className={inputClass}>
+                <option value="daily">Daily</option>
+                <option value="weekly">Weekly</option>
+                <option value="monthly">Monthly</option>
+              </select>
+            </div>
+            <div>
+              <label htmlFor="maxPages" className="block text-sm font-medium text-gray-700 mb-1">Max pages</label>
+              <input id="maxPages" type="number" min={1} value={maxPages} onChange={(e) => setMaxPages(Number(e.target.value))} className={inputClass} />
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-700 mt-6">
+              <input type="checkbox" checked={crawl} onChange={(e) => setCrawl(e.target.checked)} />
+              Crawl internal pages
+            </label>
+          </div>
+          <div className="flex justify-end">
+            <button type="submit" disabled={creating} className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50">
+              {creating ? 'Creating…' : 'Add schedule'}
+            </button>
+          </div>
+        </form>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-8 text-red-700">
+            {error}
+          </div>
+        )}
+
+        <div className="bg-white rounded-lg shadow-md">
+          {loading ? (
+            <div className="p-6 animate-pulse">
+              <div className="h-4 bg-gray-200 rounded w-3/4"></div>
+            </div>
+          ) : schedules.length === 0 ? (
+            <p className="p-6 text-gray-500">No scheduled audits yet.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {schedules.map(schedule => (
+                <li key={schedule.id} className="flex items-center justify-between gap-4 px-6 py-4">
+                  <a href={`/schedules/${schedule.id}`} className="min-w-0 hover:underline">
+                    <p className="font-medium text-gray-900 truncate">{schedule.url}</p>
+                    <p className="text-sm text-gray-500">
+                      {schedule.cadence} · next run {new Date(schedule.nextRunAt).toLocaleString()}
+                      {schedule.lastRunAt && ` · last run ${new Date(schedule.lastRunAt).toLocaleString()}`}
+                    </p>
+                  </a>
+                  <div className="flex items-center gap-3 shrink-0">
+                    {schedule.alertCount > 0 && (
+                      <span className="px-2 py-0.5 rounded bg-red-100 text-red-800 text-xs">{schedule.alertCount} alert{schedule.alertCount === 1 ? '' : 's'}</span>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => toggleSchedule(schedule)}
+                      className={`px-3 py-1 rounded text-xs font-medium ${schedule.enabled ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'}`}
+                    >
+                      {schedule.enabled ? 'Enabled' : 'Paused'}
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
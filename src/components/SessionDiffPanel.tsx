@@ -0,0 +1,131 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { ListChange, SessionDiff } from '@/session/diff';
+
+interface SessionDiffPanelProps {
+  sessionId: string;
+  parentSessionId: string;
+}
+
+function ChangeList({ label, change }: { label: string; change: ListChange<string> }) {
+  if (change.added.length === 0 && change.removed.length === 0) return null;
+  return (
+    <div className="text-sm">
+      <span className="font-medium text-gray-700">{label}: </span>
+      {change.added.map((item, index) => (
+        <span key={`+${index}`} className="inline-block mr-2 text-green-700">+ {item}</span>
+      ))}
+      {change.removed.map((item, index) => (
+        <span key={`-${index}`} className="inline-block mr-2 text-red-700">− {item}</span>
+      ))}
+    </div>
+  );
+}
+
+export function SessionDiffPanel({ sessionId, parentSessionId }: SessionDiffPanelProps) {
+  const [diff, setDiff] = useState<SessionDiff | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchDiff = async () => {
+      try {
+        const response = await fetch(`/api/session/${sessionId}/diff?against=${parentSessionId}`);
+        if (!response.ok) {
+          const errorData = await response.json() as { error?: string };
+          throw new Error(errorData.error || 'Failed to compare sessions');
+        }
+        setDiff(await response.json() as SessionDiff);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to compare sessions');
+      }
+    };
+
+    fetchDiff();
+  }, [sessionId, parentSessionId]);
+
+  if (error) {
+    return (
+      <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-8 text-sm text-red-700">
+        {error}
+      </div>
+    );
+  }
+
+  if (!diff) return null;
+
+  const unchanged = diff.pagesAdded.length === 0 && diff.pagesRemoved.length === 0 && diff.pagesChanged.length === 0;
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-gray-800">Changes Since Previous Run</h2>
+        <a href={`/session/${parentSessionId}`} className="text-sm text-blue-600 hover:underline">
+          View previous session →
+        </a>
+      </div>
+
+      {unchanged ? (
+        <p className="text-gray-600">No differences from the previous run.</p>
+      ) : (
+        <div className="space-y-4">
+          {(diff.lytxNewlyDetected.length > 0 || diff.lytxRemoved.length > 0) && (
+            <div className="space-y-1">
+              {diff.lytxNewlyDetected.map(url => (
+                <p key={url} className="text-sm text-green-800 bg-green-50 rounded px-3 py-1">LYTX newly detected on {url}</p>
+              ))}
+              {diff.lytxRemoved.map(url => (
+                <p key={url} className="text-sm text-red-800 bg-red-50 rounded px-3 py-1">LYTX no longer detected on {url}</p>
+              ))}
+            </div>
+          )}
+
+          {diff.pagesAdded.length > 0 && (
+            <div>
+              <h3 className="text-sm font-medium text-gray-700 mb-1">Pages added ({diff.pagesAdded.length})</h3>
+              <ul className="text-sm text-green-700 space-y-0.5">
+                {diff.pagesAdded.map(url => <li key={url}>+ {url}</li>)}
+              </ul>
+            </div>
+          )}
+
+          {diff.pagesRemoved.length > 0 && (
+            <div>
+              <h3 className="text-sm font-medium text-gray-700 mb-1">Pages removed ({diff.pagesRemoved.length})</h3>
+              <ul className="text-sm text-red-700 space-y-0.5">
+                {diff.pagesRemoved.map(url => <li key={url}>− {url}</li>)}
+              </ul>
+            </div>
+          )}
+
+          {diff.pagesChanged.map(page => (
+            <div key={page.url} className="border border-gray-200 rounded-lg p-4 space-y-1">
+              <h3 className="font-medium text-gray-900 truncate">{page.url}</h3>
+              <ChangeList label="Analytics" change={page.analytics} />
+              {page.framework && (
+                <p className="text-sm"><span className="font-medium text-gray-700">Framework: </span>{page.framework.before || 'none'} → {page.framework.after || 'none'}</p>
+              )}
+              {page.cms && (
+                <p className="text-sm"><span className="font-medium text-gray-700">CMS: </span>{page.cms.before || 'none'} → {page.cms.after || 'none'}</p>
+              )}
+              <ChangeList
+                label="Tag placements"
+                change={{
+                  added: page.tagPlacements.added.map(placement => `${placement.location} (${placement.priority})`),
+                  removed: page.tagPlacements.removed.map(placement => `${placement.location} (${placement.priority})`)
+                }}
+              />
+              <ChangeList
+                label="Tracking events"
+                change={{
+                  added: page.trackingEvents.added.map(event => event.event),
+                  removed: page.trackingEvents.removed.map(event => event.event)
+                }}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
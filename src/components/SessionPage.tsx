@@ -2,12 +2,23 @@
 
 import { useState, useEffect } from 'react';
 import { createLytxTag, inferDomainFromUrl } from '@vendors/lytx';
+import { applySessionEvent, SESSION_EVENT_TYPES, type SessionEvent } from '@/session/events';
+import { SessionDiffPanel } from './SessionDiffPanel';
+import { LytxVerificationPanel } from './LytxVerificationPanel';
+import { AgentTracePanel } from './AgentTracePanel';
+import { GtmInstallPanel } from './GtmInstallPanel';
+import { InstallGuidePanel } from './InstallGuidePanel';
+import { SiteSummaryPanel } from './SiteSummaryPanel';
+import { formatUsd } from '@/lib/llm-usage';
+import { pickInstallPlatform } from '@/lib/install-guides';
+import type { SiteSummary } from '@/lib/site-summary';
 
 interface SessionData {
   id: string;
   url: string;
   crawl: boolean;
   maxPages: number;
+  parentSessionId?: string;
   status: 'pending' | 'crawling' | 'analyzing' | 'completed' | 'error';
   progress: {
     stage: 'idle' | 'crawling' | 'analyzing' | 'completed' | 'error';
@@ -16,8 +27,19 @@ interface SessionData {
     message?: string;
     urls?: string[];
     allUrls?: string[];
+    skipped?: { url: string; reason: string }[];
   };
   results?: any[];
+  siteSummary?: SiteSummary;
+  usage?: {
+    inputTokens: number;
+    outputTokens: number;
+    totalTokens: number;
+    estimatedCostUsd: number;
+    pages: number;
+    cachedPages: number;
+    unpricedPages: number;
+  };
   error?: string;
   createdAt: string;
   updatedAt: string;
@@ -33,32 +55,71 @@ export function SessionPage({ sessionId }: SessionPageProps) {
   const [error, setError] = useState<string | null>(null);
   const [selectedIndex, setSelectedIndex] = useState(0);
   const [lytxKey, setLytxKey] = useState('');
+  const [installTab, setInstallTab] = useState<'snippet' | 'guide'>('snippet');
+
+  const [streaming, setStreaming] = useState(false);
+  const [reanalyzing, setReanalyzing] = useState(false);
+  const [reanalyzeError, setReanalyzeError] = useState<string | null>(null);
+
+  const fetchSession = async () => {
+    try {
+      const response = await fetch(`/api/session/${sessionId}`);
+      if (!response.ok) {
+        throw new Error(`Session not found: ${response.statusText}`);
+      }
+      const data: SessionData = await response.json();
+      setSessionData(data);
+
+      // Stop polling when analysis is complete or failed
+      if (data.status === 'completed' || data.status === 'error') {
+        setLoading(false);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch session');
+      setLoading(false);
+    }
+  };
+
+  // Initial fetch
+  useEffect(() => {
+    fetchSession();
+  }, [sessionId]);
 
-  // Poll for session updates
+  // Live updates over Server-Sent Events; polling below takes over if the stream fails
   useEffect(() => {
-    const fetchSession = async () => {
-      try {
-        const response = await fetch(`/api/session/${sessionId}`);
-        if (!response.ok) {
-          throw new Error(`Session not found: ${response.statusText}`);
-        }
-        const data: SessionData = await response.json();
-        setSessionData(data);
-
-        // Stop polling when analysis is complete or failed
-        if (data.status === 'completed' || data.status === 'error') {
-          setLoading(false);
-        }
-      } catch (err) {
-        setError(err instanceof Error ? err.message : 'Failed to fetch session');
+    if (typeof EventSource === 'undefined') return;
+
+    const source = new EventSource(`/api/session/${sessionId}/events`);
+    source.onopen = () => setStreaming(true);
+    source.onerror = () => {
+      source.close();
+      setStreaming(false);
+    };
+
+    const handleEvent = (message: MessageEvent) => {
+      const event = JSON.parse(message.data) as SessionEvent;
+      setSessionData((current) => current ? applySessionEvent(current, event) : current);
+
+      if (event.type === 'session.completed') {
+        source.close();
+        setStreaming(false);
         setLoading(false);
+        // Pick up the authoritative final snapshot
+        fetchSession();
       }
     };
 
-    // Initial fetch
-    fetchSession();
+    for (const type of SESSION_EVENT_TYPES) {
+      source.addEventListener(type, handleEvent as EventListener);
+    }
+
+    return () => source.close();
+  }, [sessionId]);
+
+  // Poll for session updates while no event stream is connected
+  useEffect(() => {
+    if (streaming) return;
 
-    // Set up polling interval (every 2 seconds while in progress)
     const interval = setInterval(() => {
       if (sessionData?.status !== 'completed' && sessionData?.status !== 'error') {
         fetchSession();
@@ -66,7 +127,7 @@ export function SessionPage({ sessionId }: SessionPageProps) {
     }, 10000);
 
     return () => clearInterval(interval);
-  }, [sessionId, sessionData?.status]);
+  }, [sessionId, streaming, sessionData?.status]);
 
   // Auto-populate LYTX key from detected account
   useEffect(() => {
@@ -80,6 +141,23 @@ export function SessionPage({ sessionId }: SessionPageProps) {
     }
   }, [sessionData?.results, lytxKey]);
 
+  const reanalyze = async () => {
+    setReanalyzing(true);
+    setReanalyzeError(null);
+    try {
+      const response = await fetch(`/api/session/${sessionId}/reanalyze`, { method: 'POST' });
+      if (!response.ok) {
+        const errorData = await response.json() as { error?: string };
+        throw new Error(errorData.error || 'Failed to re-analyze session');
+      }
+      const { sessionId: newSessionId } = await response.json() as { sessionId: string };
+      window.location.href = `/session/${newSessionId}`;
+    } catch (err) {
+      setReanalyzeError(err instanceof Error ? err.message : 'Failed to re-analyze session');
+      setReanalyzing(false);
+    }
+  };
+
   // Handle case where session is not found or there's an error
   if (error) {
     return (
@@ -120,6 +198,12 @@ export function SessionPage({ sessionId }: SessionPageProps) {
     ? sessionData.results[Math.min(selectedIndex, sessionData.results.length - 1)]
     : null;
 
+  const installPlatform = pickInstallPlatform((sessionData.results ?? []).map((result: any) => result.pageAnalysis?.technicalStack ?? {}));
+  const installEvents: { event: string; trigger: string }[] = sessionData.siteSummary?.trackingPlan.length
+    ? sessionData.siteSummary.trackingPlan.map(event => ({ event: event.event, trigger: event.triggers[0] ?? '' }))
+    : selectedResult?.lytxRecommendations.trackingEvents ?? [];
+  const gatingConsent = sessionData.results?.find((result: any) => result.pageAnalysis?.consent?.gateLytx)?.pageAnalysis.consent;
+
   return (
     <div className="min-h-screen bg-gray-50 py-8 px-4">
       <div className="max-w-4xl mx-auto">
@@ -147,9 +231,44 @@ export function SessionPage({ sessionId }: SessionPageProps) {
                 minute: '2-digit'
               })})`
             }
+            {sessionData.parentSessionId && (
+              <>
+                <br />
+                Re-analysis of <a href={`/session/${sessionData.parentSessionId}`} className="text-blue-600 hover:underline">{sessionData.parentSessionId}</a>
+              </>
+            )}
+            {sessionData.usage && sessionData.usage.pages > 0 && (
+              <>
+                <br />
+                LLM usage: {sessionData.usage.totalTokens.toLocaleString()} tokens
+                ({sessionData.usage.inputTokens.toLocaleString()} in / {sessionData.usage.outputTokens.toLocaleString()} out)
+                · ~{formatUsd(sessionData.usage.estimatedCostUsd)}
+                {sessionData.usage.unpricedPages > 0 && ` + ${sessionData.usage.unpricedPages} unpriced`}
+                {sessionData.usage.cachedPages > 0 && ` · ${sessionData.usage.cachedPages} of ${sessionData.usage.pages} pages from cache`}
+              </>
+            )}
           </div>
+          {(sessionData.status === 'completed' || sessionData.status === 'error') && (
+            <button
+              type="button"
+              onClick={reanalyze}
+              disabled={reanalyzing}
+              className="mt-4 px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              {reanalyzing ? 'Starting…' : 'Re-analyze'}
+            </button>
+          )}
+          {reanalyzeError && <p className="mt-2 text-sm text-red-600">{reanalyzeError}</p>}
         </header>
 
+        {sessionData.parentSessionId && sessionData.status === 'completed' && (
+          <SessionDiffPanel sessionId={sessionId} parentSessionId={sessionData.parentSessionId} />
+        )}
+
+        {sessionData.siteSummary && sessionData.siteSummary.pageCount > 1 && (
+          <SiteSummaryPanel summary={sessionData.siteSummary} />
+        )}
+
         {/* Progress Section */}
         {sessionData.status !== 'completed' && (
           <div className="bg-white rounded-lg shadow-md p-6 mb-8">
@@ -216,6 +335,24 @@ export function SessionPage({ sessionId }: SessionPageProps) {
           </div>
         )}
 
+        {/* Skipped URLs - kept after completion so robots.txt exclusions stay visible */}
+        {sessionData.progress.skipped && sessionData.progress.skipped.length > 0 && (
+          <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+            <h3 className="text-sm font-medium text-gray-700 mb-2">
+              Skipped URLs ({sessionData.progress.skipped.length} total):
+            </h3>
+            <div className="max-h-32 overflow-auto border border-gray-200 rounded p-2 bg-gray-50 text-xs">
+              {sessionData.progress.skipped.map((entry, index) => (
+                <div key={index} className="flex items-center gap-2 py-0.5">
+                  <span className="inline-block w-2 h-2 rounded-full bg-yellow-500" />
+                  <span className="text-gray-500">{entry.url}</span>
+                  <span className="ml-auto text-gray-400">{entry.reason}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Error Section */}
         {sessionData.status === 'error' && (
           <div className="bg-red-50 border border-red-200 rounded-lg p-6 mb-8">
@@ -259,6 +396,14 @@ export function SessionPage({ sessionId }: SessionPageProps) {
               />
             </div>
 
+            {sessionData.status === 'completed' && (
+              <GtmInstallPanel
+                sessionId={sessionId}
+                accountKey={lytxKey.trim()}
+                containerIds={Array.from(new Set<string>(sessionData.results.flatMap((result: any) => result.pageAnalysis?.technicalStack?.gtmContainerIds ?? [])))}
+              />
+            )}
+
             {/* Page Selection with Loading States */}
             {(sessionData.results.length > 0 || (sessionData.progress?.urls && sessionData.status === 'analyzing')) && (
               <div className="bg-white rounded-lg shadow-md p-6">
@@ -356,6 +501,25 @@ export function SessionPage({ sessionId }: SessionPageProps) {
                         <p><strong>Description:</strong> {selectedResult.pageAnalysis.description}</p>
                       )}
                       <p><strong>URL:</strong> {selectedResult.pageAnalysis.url}</p>
+                      {selectedResult.pageAnalysis.pageType && (
+                        <p><strong>Page type:</strong> <span className="capitalize">{selectedResult.pageAnalysis.pageType}</span></p>
+                      )}
+                      {selectedResult.promptVersion && (
+                        <p className="text-sm text-gray-500"><strong>Prompt:</strong> {selectedResult.promptVersion}</p>
+                      )}
+                      {selectedResult.usage && (
+                        <p className="text-sm text-gray-500">
+                          <strong>Model:</strong> {selectedResult.usage.provider} {selectedResult.usage.model}
+                          {' '}· {selectedResult.usage.inputTokens.toLocaleString()} in / {selectedResult.usage.outputTokens.toLocaleString()} out tokens
+                          {' '}· {(selectedResult.usage.latencyMs / 1000).toFixed(1)}s
+                          {selectedResult.usage.estimatedCostUsd !== null && ` · ~${formatUsd(selectedResult.usage.estimatedCostUsd)}`}
+                        </p>
+                      )}
+                      {selectedResult.llmCache?.hit && (
+                        <p className="text-sm text-gray-500">
+                          <strong>Cached answer</strong> from {new Date(selectedResult.llmCache.cachedAt).toLocaleString()}
+                        </p>
+                      )}
                     </div>
                     <div>
                       <h3 className="text-lg font-semibold text-gray-800 mb-2">Technical Stack</h3>
@@ -366,10 +530,58 @@ export function SessionPage({ sessionId }: SessionPageProps) {
                         <p><strong>CMS:</strong> {selectedResult.pageAnalysis.technicalStack.cms}</p>
                       )}
                       <p><strong>Analytics:</strong> {selectedResult.pageAnalysis.technicalStack.analytics.join(', ') || 'None detected'}</p>
+                      {selectedResult.pageAnalysis.technicalStack.technologies?.length > 0 && (
+                        <details className="mt-2">
+                          <summary className="cursor-pointer text-sm text-gray-600">
+                            {selectedResult.pageAnalysis.technicalStack.technologies.length} technologies detected
+                          </summary>
+                          <ul className="mt-1 space-y-1 text-sm">
+                            {selectedResult.pageAnalysis.technicalStack.technologies.map((technology: any) => (
+                              <li key={technology.name} title={technology.evidence.join('\n')}>
+                                <span className="font-medium">{technology.name}</span>
+                                {technology.version && <span className="text-gray-600"> {technology.version}</span>}
+                                <span className="text-gray-500"> · {technology.category.replace('_', ' ')} · {Math.round(technology.confidence * 100)}%</span>
+                              </li>
+                            ))}
+                          </ul>
+                        </details>
+                      )}
                     </div>
                   </div>
+                  {selectedResult.pageAnalysis.consent && (
+                    <div className="mt-6">
+                      <h3 className="text-lg font-semibold text-gray-800 mb-2">Consent</h3>
+                      <p>
+                        <strong>Platform:</strong>{' '}
+                        {selectedResult.pageAnalysis.consent.platforms.join(', ') || (selectedResult.pageAnalysis.consent.customBanner ? 'Custom banner' : 'None detected')}
+                        {' '}· <strong>Model:</strong> {selectedResult.pageAnalysis.consent.model}
+                        {selectedResult.pageAnalysis.consent.frameworks.length > 0 && ` · ${selectedResult.pageAnalysis.consent.frameworks.join(', ')}`}
+                      </p>
+                      <p className={selectedResult.pageAnalysis.consent.gateLytx ? 'text-amber-700' : 'text-gray-700'}>
+                        {selectedResult.pageAnalysis.consent.guidance}
+                      </p>
+                      {selectedResult.pageAnalysis.consent.signals.length > 0 && (
+                        <p className="text-sm text-gray-500">{selectedResult.pageAnalysis.consent.signals.join('; ')}</p>
+                      )}
+                      {selectedResult.pageAnalysis.consent.integrationCode && (
+                        <details className="mt-2">
+                          <summary className="cursor-pointer text-sm text-gray-600">CMP wiring</summary>
+                          <pre className="bg-gray-50 p-2 rounded text-xs overflow-x-auto mt-1">{selectedResult.pageAnalysis.consent.integrationCode}</pre>
+                        </details>
+                      )}
+                    </div>
+                  )}
                 </div>
 
+                {!selectedResult.error && (
+                  <LytxVerificationPanel
+                    key={selectedResult.pageAnalysis.url}
+                    url={selectedResult.pageAnalysis.url}
+                    verification={selectedResult.lytxVerification}
+                    expectedAccountId={selectedResult.detectedLytxAccount || undefined}
+                  />
+                )}
+
                 {/* LYTX Recommendations - Same as in HomePage */}
                 <div className="bg-white rounded-lg shadow-md p-6">
                   <h2 className="text-2xl font-bold text-gray-900 mb-4">LYTX Implementation Recommendations</h2>
@@ -427,7 +639,18 @@ export function SessionPage({ sessionId }: SessionPageProps) {
                                   </div>
                                 )}
                               </div>
+                              {event.validation && (
+                                <span
+                                  title={event.validation.reason}
+                                  className={`shrink-0 px-2 py-1 rounded text-xs font-medium ${event.validation.status === 'verified' ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-700'}`}
+                                >
+                                  {event.validation.status === 'verified' ? 'Verified' : 'Unverified'}
+                                </span>
+                              )}
                             </div>
+                            {event.validation?.reason && (
+                              <p className="text-xs text-gray-500 mb-2">{event.validation.reason}</p>
+                            )}
                             <div className="relative">
                               <pre className="bg-gray-50 p-2 rounded text-sm overflow-x-auto">
                                 <code>{event.implementation}</code>
@@ -464,11 +687,38 @@ export function SessionPage({ sessionId }: SessionPageProps) {
                   </div>
                 </div>
 
-                {/* Generated Embed Snippet */}
+                {selectedResult.agentTrace && <AgentTracePanel trace={selectedResult.agentTrace} />}
+
+                {/* Generated Embed Snippet and platform install guide */}
                 {lytxKey && (
                   <div className="bg-white rounded-lg shadow-md p-6">
-                    <h3 className="text-lg font-semibold text-gray-800 mb-3">Generated Embed Snippet</h3>
-                    <EmbedSnippet url={selectedResult.pageAnalysis.url} accountKey={lytxKey} />
+                    <div className="flex gap-4 border-b border-gray-200 mb-4">
+                      {([['snippet', 'Embed Snippet'], ['guide', 'Install Guide']] as const).map(([tab, label]) => (
+                        <button
+                          key={tab}
+                          type="button"
+                          onClick={() => setInstallTab(tab)}
+                          className={`pb-2 -mb-px text-lg font-semibold border-b-2 ${installTab === tab
+                              ? 'border-blue-600 text-gray-800'
+                              : 'border-transparent text-gray-500 hover:text-gray-700'
+                            }`}
+                        >
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+                    {installTab === 'snippet' ? (
+                      <EmbedSnippet url={selectedResult.pageAnalysis.url} accountKey={lytxKey} />
+                    ) : (
+                      <InstallGuidePanel
+                        key={installPlatform ?? 'none'}
+                        url={selectedResult.pageAnalysis.url}
+                        accountKey={lytxKey}
+                        detectedPlatform={installPlatform}
+                        events={installEvents}
+                        consentPlatform={gatingConsent ? gatingConsent.platforms[0] ?? 'a consent banner' : undefined}
+                      />
+                    )}
                   </div>
                 )}
               </section>
@@ -0,0 +1,94 @@
+'use client';
+
+import type { SiteSummary } from '@/lib/site-summary';
+
+const IMPACT_STYLES: Record<string, string> = {
+  high: 'bg-red-100 text-red-800',
+  medium: 'bg-yellow-100 text-yellow-800',
+  low: 'bg-gray-100 text-gray-700',
+};
+
+export function SiteSummaryPanel({ summary }: { summary: SiteSummary }) {
+  const analyzedCount = summary.pageCount - summary.failedPageCount;
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-2xl font-bold text-gray-900">Site Summary</h2>
+        <span className="text-sm text-gray-500">
+          {analyzedCount} pages analyzed{summary.failedPageCount > 0 && ` · ${summary.failedPageCount} failed`}
+        </span>
+      </div>
+
+      <div className="mb-6">
+        <h3 className="text-lg font-semibold text-gray-800 mb-2">Page Templates</h3>
+        <div className="flex flex-wrap gap-2">
+          {summary.pageGroups.map(group => (
+            <details key={group.template} className="border border-gray-200 rounded-lg px-3 py-1 text-sm">
+              <summary className="cursor-pointer capitalize text-gray-800">
+                {group.template} <span className="text-gray-500">({group.urls.length})</span>
+              </summary>
+              <ul className="mt-1 text-xs text-gray-600 space-y-0.5">
+                {group.urls.map(url => <li key={url} className="truncate">{url}</li>)}
+              </ul>
+            </details>
+          ))}
+        </div>
+      </div>
+
+      {summary.tagPlacements.length > 0 && (
+        <div className="mb-6">
+          <h3 className="text-lg font-semibold text-gray-800 mb-2">Tag Placements</h3>
+          <div className="space-y-3">
+            {summary.tagPlacements.map((placement, index) => (
+              <div key={index} className="border border-gray-200 rounded-lg p-3">
+                <div className="flex items-center justify-between mb-1">
+                  <span className="font-medium text-gray-900">{placement.location}</span>
+                  <span className="text-xs text-gray-500">
+                    {placement.pageCount === analyzedCount ? 'All pages' : `${placement.pageCount} of ${analyzedCount} pages`}
+                    {' '}· {placement.priority} priority
+                  </span>
+                </div>
+                <p className="text-sm text-gray-600 mb-2">{placement.reason}</p>
+                <pre className="bg-gray-50 p-2 rounded text-xs overflow-x-auto">{placement.code}</pre>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {summary.trackingPlan.length > 0 && (
+        <div>
+          <h3 className="text-lg font-semibold text-gray-800 mb-2">Tracking Plan</h3>
+          <div className="space-y-2">
+            {summary.trackingPlan.map(event => (
+              <details key={event.event} className="border border-gray-200 rounded-lg p-3">
+                <summary className="cursor-pointer flex items-center gap-2 text-sm">
+                  <code className="font-medium text-gray-900">{event.event}</code>
+                  {event.conversionImpact && (
+                    <span className={`px-2 py-0.5 rounded-full text-xs ${IMPACT_STYLES[event.conversionImpact]}`}>
+                      {event.conversionImpact}
+                    </span>
+                  )}
+                  <span className="ml-auto text-xs text-gray-500">
+                    {event.pageCount} pages · {event.templates.join(', ')}
+                  </span>
+                </summary>
+                <div className="mt-2 space-y-2 text-sm text-gray-700">
+                  {event.aliases.length > 0 && (
+                    <p><strong>Also recommended as:</strong> {event.aliases.join(', ')}</p>
+                  )}
+                  {event.conversionReason && <p>{event.conversionReason}</p>}
+                  <ul className="list-disc list-inside text-gray-600">
+                    {event.triggers.map(trigger => <li key={trigger}>{trigger}</li>)}
+                  </ul>
+                  <pre className="bg-gray-50 p-2 rounded text-xs overflow-x-auto whitespace-pre-wrap">{event.implementation}</pre>
+                </div>
+              </details>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import { describe, expect, mock, test } from 'bun:test';
+
+// robots.ts (imported for its skip reason) reads KV through cloudflare:workers
+mock.module('cloudflare:workers', () => ({ env: {} }));
+const { createCrawlState, extractInternalLinks, normalizeCrawlUrl } = await import('../crawler');
+
+const fixture = async (name: string) => (await fetch(new URL(`./fixtures/${name}`, import.meta.url))).text();
+
+describe('normalizeCrawlUrl', () => {
+  test('drops the hash, lowercases the host and strips trailing slashes', () => {
+    expect(normalizeCrawlUrl('https://WWW.Example.com/Shop/#top')).toBe('https://www.example.com/Shop');
+    expect(normalizeCrawlUrl('https://example.com/a//')).toBe('https://example.com/a');
+    expect(normalizeCrawlUrl('https://example.com/?q=1#x')).toBe('https://example.com/?q=1');
+  });
+
+  test('keeps the root path', () => {
+    expect(normalizeCrawlUrl('https://example.com')).toBe('https://example.com/');
+    expect(normalizeCrawlUrl('https://example.com/')).toBe('https://example.com/');
+  });
+
+  test('resolves relative URLs against a base', () => {
+    expect(normalizeCrawlUrl('../pricing/', 'https://example.com/shop/shoes')).toBe('https://example.com/pricing');
+  });
+
+  test('rejects non-http schemes and unparseable input', () => {
+    expect(normalizeCrawlUrl('mailto:hello@example.com')).toBeNull();
+    expect(normalizeCrawlUrl('ftp://example.com/file')).toBeNull();
+    expect(normalizeCrawlUrl('not a url')).toBeNull();
+  });
+});
+
+describe('extractInternalLinks', () => {
+  test('keeps normalized same-origin page links only', async () => {
+    const links = extractInternalLinks(await fixture('internal-links.html'), 'https://www.example.com/shop/');
+
+    expect(links).toEqual([
+      'https://www.example.com/',
+      'https://www.example.com/shop',
+      'https://www.example.com/about',
+      'https://www.example.com/shop/pricing?plan=pro',
+    ]);
+  });
+});
+
+describe('createCrawlState', () => {
+  test('dedups seeds against the normalized start URL and records disallowed ones', () => {
+    const state = createCrawlState(
+      'https://Example.com/#hero',
+      10,
+      2,
+      ['https://example.com/', 'https://example.com/private', 'https://example.com/blog'],
+      true,
+      url => !url.includes('/private')
+    );
+
+    expect(state.discovered).toEqual(['https://example.com/', 'https://example.com/blog']);
+    expect(state.skipped.map(entry => entry.url)).toEqual(['https://example.com/private']);
+    expect(state.queue).toEqual([{ url: 'https://example.com/', depth: 0 }]);
+  });
+});
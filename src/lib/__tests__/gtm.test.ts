@@ -0,0 +1,14 @@
+import { describe, expect, test } from 'bun:test';
+import { detectGtmContainerIds } from '../gtm';
+
+const fixture = async (name: string) => (await fetch(new URL(`./fixtures/${name}`, import.meta.url))).text();
+
+describe('detectGtmContainerIds', () => {
+  test('reads loader and dataLayer arguments, not IDs in page copy or links', async () => {
+    expect(detectGtmContainerIds(await fixture('gtm-ids.html'))).toEqual(['GTM-ABC1234', 'GTM-XYZ9876']);
+  });
+
+  test('finds nothing on a page that only mentions an ID', () => {
+    expect(detectGtmContainerIds('<p>Use GTM-ABCD123 with <code>gtm.js</code></p>')).toEqual([]);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, expect, test } from 'bun:test';
+import { parsePageStructure } from '../html-structure';
+
+const fixture = async (name: string) => (await fetch(new URL(`./fixtures/${name}`, import.meta.url))).text();
+
+describe('parsePageStructure', () => {
+  test('reads headings that span lines or contain nested tags', async () => {
+    const structure = await parsePageStructure(await fixture('headings.html'));
+
+    expect(structure.headings).toEqual([
+      { level: 1, text: 'Welcome to Acme' },
+      { level: 2, text: 'Fast and free shipping' },
+      { level: 3, text: 'Fish & chips' },
+      { level: 4, text: 'Deeply nested heading' },
+    ]);
+  });
+
+  test('handles > inside attribute values', async () => {
+    const structure = await parsePageStructure(await fixture('attribute-values.html'));
+
+    expect(structure.title).toBe('Attribute values');
+    expect(structure.metaTags.description).toBe('Prices > competitors');
+    expect(structure.headings).toEqual([{ level: 1, text: 'Comparison' }]);
+    expect(structure.paragraphs).toEqual(['First paragraph.']);
+    expect(structure.linkCount).toBe(2);
+    expect(structure.imageCount).toBe(1);
+  });
+
+  test('reads <meta> with content before name or property', async () => {
+    const structure = await parsePageStructure(await fixture('meta-tags.html'));
+
+    expect(structure.metaTags.description).toBe('Reversed attribute order');
+    expect(structure.metaTags['og:site_name']).toBe('Acme Store');
+    expect(structure.metaTags['twitter:site']).toBe('@acme');
+  });
+
+  test('collects og: and twitter: tags', async () => {
+    const structure = await parsePageStructure(await fixture('meta-tags.html'));
+
+    expect(structure.metaTags).toMatchObject({
+      'og:title': 'Acme | Home',
+      'og:type': 'website',
+      'og:image': 'https://example.com/og.png',
+      'twitter:card': 'summary_large_image',
+    });
+    expect(structure.metaTags).not.toHaveProperty('charset');
+  });
+
+  test('does not let inline SVG <title> override the document title', async () => {
+    const structure = await parsePageStructure(await fixture('svg-title.html'));
+    expect(structure.title).toBe('Acme - Home');
+
+    const untitled = await parsePageStructure(await fixture('svg-title-only.html'));
+    expect(untitled.title).toBeNull();
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, expect, mock, test } from 'bun:test';
+import { MAX_CRAWL_DELAY_MS } from '../defaults';
+
+mock.module('cloudflare:workers', () => ({ env: {} }));
+const { createRobotsPolicy, isPathAllowed, parseRobotsTxt, selectRobotsGroup } = await import('../robots');
+
+const fixture = async (name: string) => (await fetch(new URL(`./fixtures/${name}`, import.meta.url))).text();
+
+const ORIGIN = 'https://example.com';
+const fetchedAt = '2024-01-01T00:00:00.000Z';
+
+describe('selectRobotsGroup', () => {
+  test('merges every group naming our product token, case-insensitively', async () => {
+    const group = selectRobotsGroup(parseRobotsTxt(await fixture('robots.txt')));
+
+    expect(group.userAgents).toEqual(['googlebot', 'siteplanner', 'siteplanner']);
+    expect(group.rules.map(rule => rule.path)).not.toContain('/admin');
+    expect(group.crawlDelay).toBe(30);
+  });
+
+  test('falls back to the * group when no group names us', async () => {
+    const group = selectRobotsGroup(parseRobotsTxt(await fixture('robots.txt')), 'OtherBot/1.0');
+
+    expect(group.userAgents).toEqual(['*']);
+    expect(group.crawlDelay).toBe(2);
+  });
+});
+
+describe('isPathAllowed', () => {
+  test('the longest matching rule wins, and Allow wins a tie', async () => {
+    const { rules } = selectRobotsGroup(parseRobotsTxt(await fixture('robots.txt')));
+
+    expect(isPathAllowed(rules, '/private/reports')).toBe(false);
+    expect(isPathAllowed(rules, '/private/press/2024')).toBe(true);
+    expect(isPathAllowed(rules, '/shop/shoes')).toBe(true);
+    expect(isPathAllowed(rules, '/media/logo.png')).toBe(false);
+    expect(isPathAllowed(rules, '/')).toBe(true);
+  });
+
+  test('supports * wildcards and $ anchors', async () => {
+    const { rules } = selectRobotsGroup(parseRobotsTxt(await fixture('robots.txt')));
+
+    expect(isPathAllowed(rules, '/docs/guide.pdf')).toBe(false);
+    expect(isPathAllowed(rules, '/docs/guide.pdf?download=1')).toBe(true);
+  });
+});
+
+describe('createRobotsPolicy', () => {
+  test('applies the selected group to same-origin URLs and caps the crawl delay', async () => {
+    const policy = createRobotsPolicy(ORIGIN, { status: 200, body: await fixture('robots.txt'), fetchedAt });
+
+    expect(policy.isAllowed(`${ORIGIN}/private/reports`)).toBe(false);
+    expect(policy.isAllowed(`${ORIGIN}/admin`)).toBe(true);
+    expect(policy.isAllowed('https://other.example.org/private/reports')).toBe(true);
+    expect(policy.sitemaps).toEqual(['https://example.com/sitemap.xml']);
+    expect(policy.crawlDelayMs).toBe(MAX_CRAWL_DELAY_MS);
+  });
+
+  test('treats a missing robots.txt (4xx) as allow-all', () => {
+    const policy = createRobotsPolicy(ORIGIN, { status: 404, body: null, fetchedAt });
+    expect(policy.isAllowed(`${ORIGIN}/private/reports`)).toBe(true);
+  });
+
+  test('treats an unreachable robots.txt (5xx or network error) as disallow-all', () => {
+    for (const status of [500, 503, null]) {
+      const policy = createRobotsPolicy(ORIGIN, { status, body: null, fetchedAt });
+      expect(policy.isAllowed(`${ORIGIN}/`)).toBe(false);
+    }
+  });
+});
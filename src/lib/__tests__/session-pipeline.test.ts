@@ -0,0 +1,149 @@
+import { afterAll, beforeAll, describe, expect, mock, test } from 'bun:test';
+import type { SessionData } from '@/api/session';
+
+// One page through the whole session pipeline - SessionAnalysisManager,
+// SiteAnalysisDO, fetch, digest, model - on the offline mock provider. Durable
+// Object storage and KV are in-memory; D1 is absent, which the pipeline
+// tolerates by design.
+
+const SITE = 'https://shop.test';
+const PAGE_HTML = `<!DOCTYPE html>
+<html lang="en">
+<head><title>Acme Shoes</title><meta name="description" content="Running shoes"></head>
+<body>
+  <h1>Acme Shoes</h1>
+  <form id="newsletter" action="/subscribe"><input type="email" name="email"><button>Subscribe</button></form>
+  <a href="/cart">Cart</a>
+</body>
+</html>`;
+
+function createKv() {
+  const values = new Map<string, string>();
+  return {
+    async get(key: string, type?: string) {
+      const value = values.get(key);
+      if (value === undefined) return null;
+      return type === 'json' ? JSON.parse(value) : value;
+    },
+    async put(key: string, value: string) {
+      values.set(key, value);
+    },
+    async delete(key: string) {
+      values.delete(key);
+    },
+  };
+}
+
+interface MemoryStorage {
+  get<T>(key: string): Promise<T | undefined>;
+  put(key: string, value: unknown): Promise<void>;
+  list<T>(options: { prefix: string }): Promise<Map<string, T>>;
+  transaction<T>(callback: (txn: MemoryStorage) => Promise<T>): Promise<T>;
+  setAlarm(): Promise<void>;
+}
+
+function createStorage(): MemoryStorage {
+  const values = new Map<string, unknown>();
+  const storage: MemoryStorage = {
+    async get<T>(key: string): Promise<T | undefined> {
+      return structuredClone(values.get(key)) as T | undefined;
+    },
+    async put(key: string, value: unknown) {
+      values.set(key, structuredClone(value));
+    },
+    async list<T>({ prefix }: { prefix: string }): Promise<Map<string, T>> {
+      return new Map(Array.from(values.entries())
+        .filter(([key]) => key.startsWith(prefix))
+        .map(([key, value]) => [key, structuredClone(value) as T]));
+    },
+    async transaction<T>(callback: (txn: MemoryStorage) => Promise<T>): Promise<T> {
+      return callback(storage);
+    },
+    async setAlarm() { },
+  };
+  return storage;
+}
+
+const env: Record<string, unknown> = {
+  SITE_ANALYSIS_CACHE: createKv(),
+};
+
+const originalFetch = globalThis.fetch;
+const savedEnv = { ...process.env };
+
+beforeAll(() => {
+  mock.module('cloudflare:workers', () => ({ env }));
+  globalThis.fetch = (async (input: RequestInfo | URL) => {
+    const url = new URL(input instanceof Request ? input.url : input.toString());
+    if (url.origin === SITE && url.pathname === '/') {
+      return new Response(PAGE_HTML, { headers: { 'Content-Type': 'text/html; charset=utf-8' } });
+    }
+    return new Response('Not found', { status: 404 });
+  }) as typeof fetch;
+
+  // Only the mock provider is available: no real API keys
+  for (const key of ['OPENAI_API_KEY', 'ANTHROPIC_API_KEY', 'LLM_BASE_URL', 'LLM_PROVIDER', 'LLM_MODEL', 'DAILY_LLM_BUDGET_USD']) {
+    delete process.env[key];
+  }
+});
+
+afterAll(() => {
+  globalThis.fetch = originalFetch;
+  process.env = savedEnv;
+});
+
+describe('session pipeline', () => {
+  test('analyzes one page end to end with the mock provider', async () => {
+    const { SessionAnalysisManager } = await import('../session-analysis-manager');
+    const { SiteAnalysisDO } = await import('../site-analysis-do');
+
+    env.SITE_ANALYSIS_DO = {
+      idFromName: (name: string) => name,
+      get: () => new SiteAnalysisDO({ storage: createStorage() } as unknown as DurableObjectState, env as unknown as Env),
+    };
+    const manager = new SessionAnalysisManager({ storage: createStorage() } as unknown as DurableObjectState, env as unknown as Env);
+
+    const now = new Date().toISOString();
+    const sessionData: SessionData = {
+      id: 'pipeline-test',
+      url: `${SITE}/`,
+      urls: [`${SITE}/`],
+      crawl: false,
+      maxPages: 1,
+      usePuppeteer: false,
+      useExternalFetcher: false,
+      llmProvider: 'mock',
+      status: 'pending',
+      progress: { stage: 'idle' },
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    const started = await manager.fetch(new Request('https://internal/start', {
+      method: 'POST',
+      body: JSON.stringify({ sessionId: sessionData.id, sessionData }),
+    }));
+    expect(started.ok).toBe(true);
+
+    let session: SessionData | undefined;
+    for (let attempt = 0; attempt < 100; attempt++) {
+      const response = await manager.fetch(new Request('https://internal/state'));
+      session = (await response.json() as { session: SessionData }).session;
+      if (session.status === 'completed' || session.status === 'error') break;
+      await new Promise(resolve => setTimeout(resolve, 50));
+    }
+
+    expect(session?.error).toBeUndefined();
+    expect(session?.status).toBe('completed');
+    expect(session?.results).toHaveLength(1);
+    // The summary lands in the same write that marks the session completed
+    expect(session?.siteSummary?.pageCount).toBe(1);
+
+    const [result] = session!.results!;
+    expect(result.error).toBeUndefined();
+    expect(result.pageAnalysis.url).toBe(`${SITE}/`);
+    expect(result.pageAnalysis.title).toBe('Acme Shoes');
+    expect(result.lytxRecommendations.trackingEvents.length).toBeGreaterThan(0);
+    expect(result.usage?.provider).toBe('mock');
+  }, 15000);
+});
@@ -0,0 +1,87 @@
+import { afterAll, beforeAll, describe, expect, mock, test } from 'bun:test';
+
+// crawler.ts pulls in robots.ts, which reads KV through cloudflare:workers
+mock.module('cloudflare:workers', () => ({ env: {} }));
+const { discoverSitemapUrls, extractSitemapDirectives, parseSitemapXml } = await import('../sitemap');
+
+const originalFetch = globalThis.fetch;
+const fixture = async (name: string) => (await originalFetch(new URL(`./fixtures/${name}`, import.meta.url))).text();
+
+async function gzip(text: string): Promise<ArrayBuffer> {
+  const stream = new Response(text).body!.pipeThrough(new CompressionStream('gzip'));
+  return new Response(stream).arrayBuffer();
+}
+
+const requested: string[] = [];
+
+beforeAll(async () => {
+  const served = new Map<string, BodyInit>([
+    ['https://example.com/sitemap-index.xml', await fixture('sitemap-index.xml')],
+    ['https://example.com/sitemap-pages.xml', await fixture('sitemap-pages.xml')],
+    // Served compressed with a generic content-type, as many CDNs do
+    ['https://example.com/sitemap-posts.xml.gz', await gzip(await fixture('sitemap-posts.xml'))],
+  ]);
+
+  globalThis.fetch = (async (input: RequestInfo | URL) => {
+    const url = input instanceof Request ? input.url : input.toString();
+    requested.push(url);
+    const body = served.get(url);
+    return body === undefined
+      ? new Response('Not found', { status: 404 })
+      : new Response(body, { headers: { 'Content-Type': 'application/octet-stream' } });
+  }) as typeof fetch;
+});
+
+afterAll(() => {
+  globalThis.fetch = originalFetch;
+});
+
+describe('parseSitemapXml', () => {
+  test('reads child sitemaps from an index, including CDATA locations', async () => {
+    const parsed = parseSitemapXml(await fixture('sitemap-index.xml'));
+
+    expect(parsed.sitemaps).toEqual([
+      'https://example.com/sitemap-pages.xml',
+      'https://example.com/sitemap-posts.xml.gz',
+    ]);
+    expect(parsed.entries).toEqual([]);
+  });
+
+  test('reads url entries with decoded entities, lastmod and priority', async () => {
+    const parsed = parseSitemapXml(await fixture('sitemap-pages.xml'));
+
+    expect(parsed.entries[2]).toEqual({ url: 'https://example.com/search?q=shoes&page=2', lastmod: undefined, priority: 0.1 });
+    expect(parsed.entries[1]).toMatchObject({ lastmod: '2024-04-10', priority: 0.8 });
+  });
+});
+
+describe('extractSitemapDirectives', () => {
+  test('collects Sitemap lines regardless of case or spacing', () => {
+    const robots = 'User-agent: *\nDisallow: /cart\nsitemap:https://example.com/a.xml\n  SITEMAP :  https://example.com/b.xml\n';
+    expect(extractSitemapDirectives(robots)).toEqual(['https://example.com/a.xml', 'https://example.com/b.xml']);
+  });
+});
+
+describe('discoverSitemapUrls', () => {
+  test('follows a sitemap index into plain and gzipped children', async () => {
+    requested.length = 0;
+    const entries = await discoverSitemapUrls('https://example.com/', 'Sitemap: https://example.com/sitemap-index.xml');
+
+    expect(entries.map(entry => entry.url)).toEqual([
+      'https://example.com/',
+      'https://www.example.com/pricing',
+      'https://example.com/blog/newer-post',
+      'https://example.com/blog/older-post',
+      'https://example.com/pricing',
+      'https://example.com/search?q=shoes&page=2',
+    ]);
+    // Off-site entries are dropped; each sitemap is fetched once
+    expect(entries.some(entry => entry.url.includes('partner.example.org'))).toBe(false);
+    expect(requested).toEqual([
+      'https://example.com/sitemap-index.xml',
+      'https://example.com/sitemap.xml',
+      'https://example.com/sitemap-pages.xml',
+      'https://example.com/sitemap-posts.xml.gz',
+    ]);
+  });
+});
@@ -0,0 +1,277 @@
+import { generateText, stepCountIs, tool, type LanguageModel } from 'ai';
+import { z } from 'zod';
+import { analyzePageStructure, generateLYTXRecommendationsTool } from './ai-tools';
+import { extractPageDigest, formatPageDigest, type PageDigest } from './page-digest';
+import { lookupVendor } from './tech-fingerprints';
+import { normalizeCrawlUrl } from './crawler';
+import { getRobotsPolicy, ROBOTS_DISALLOWED_REASON } from './robots';
+import { AGENT_MAX_PAGE_FETCHES, AGENT_MAX_REDIRECTS, AGENT_MAX_STEPS, CRAWL_USER_AGENT } from './defaults';
+import { promptVersionId, renderPrompt, resolvePromptTemplate } from './prompts';
+
+// Agent mode lets the model investigate a page with tools before the final
+// structured analysis. The investigation's findings are fed into the usual
+// generateObject prompt, and every tool call is kept so the UI can show how a
+// recommendation was derived.
+
+const MAX_SELECTOR_MATCHES = 5;
+const MAX_TRACE_OUTPUT_LENGTH = 600;
+// Digests of extra pages are kept small; the model already has the main one
+const FETCHED_PAGE_TOKEN_BUDGET = 600;
+
+export interface AgentToolCall {
+  toolName: string;
+  input: unknown;
+  // JSON of the tool result, shortened for storage
+  output: string;
+  error?: boolean;
+}
+
+export interface AgentTraceStep {
+  step: number;
+  text?: string;
+  toolCalls: AgentToolCall[];
+}
+
+export interface AgentTrace {
+  // name@version of the agent-investigation prompt
+  promptVersion: string;
+  stepBudget: number;
+  steps: AgentTraceStep[];
+  findings: string;
+  finishReason: string;
+  // Summed over every step
+  usage: { inputTokens?: number; outputTokens?: number };
+}
+
+interface AgentContext {
+  url: string;
+  digest: PageDigest;
+  // Raw HTML by normalized URL: the analyzed page plus anything fetched since
+  pages: Map<string, string>;
+  fetches: number;
+}
+
+function shorten(value: unknown): string {
+  const text = typeof value === 'string' ? value : JSON.stringify(value) ?? '';
+  return text.length > MAX_TRACE_OUTPUT_LENGTH ? `${text.slice(0, MAX_TRACE_OUTPUT_LENGTH - 1)}…` : text;
+}
+
+function pageHtml(context: AgentContext, url?: string): { url: string; html: string } | { error: string } {
+  const key = normalizeCrawlUrl(url || context.url, context.url);
+  const html = key ? context.pages.get(key) : undefined;
+  if (!key || html === undefined) {
+    return { error: `${url} has not been fetched; call fetch_internal_page first` };
+  }
+  return { url: key, html };
+}
+
+async function inspectSelector(html: string, selector: string) {
+  const matches: { tag: string; attributes: Record<string, string>; text: string }[] = [];
+  let count = 0;
+  let current: { text: string } | null = null;
+
+  const rewriter = new HTMLRewriter()
+    .on(selector, {
+      element(element) {
+        count++;
+        if (matches.length >= MAX_SELECTOR_MATCHES) return;
+        const attributes: Record<string, string> = {};
+        // The DOM lib's Element shadows the HTMLRewriter one, so spell out its attribute iterator
+        for (const [name, value] of element.attributes as unknown as Iterable<[string, string]>) {
+          if (name !== 'style' && !name.startsWith('on')) attributes[name] = value.slice(0, 200);
+        }
+        const match = { tag: element.tagName, attributes, text: '' };
+        matches.push(match);
+        if (current) return;
+        const target = { text: '' };
+        current = target;
+        element.onEndTag(() => {
+          current = null;
+          match.text = target.text.replace(/\s+/g, ' ').trim().slice(0, 200);
+        });
+      },
+    })
+    .onDocument({
+      text(chunk) {
+        if (current) current.text += chunk.text;
+      },
+    });
+
+  await rewriter.transform(new Response(html, { headers: { 'Content-Type': 'text/html' } })).arrayBuffer();
+  return { selector, count, matches };
+}
+
+function createAgentTools(context: AgentContext) {
+  return {
+    analyze_page_structure: tool({
+      description: 'Parse the title, meta description, heading outline, key content, technical stack and SEO counts of the analyzed page or a fetched internal page',
+      inputSchema: z.object({
+        url: z.string().optional().describe('Page to analyze; defaults to the page under analysis'),
+      }),
+      execute: async ({ url }) => {
+        const page = pageHtml(context, url);
+        if ('error' in page) return page;
+        return analyzePageStructure(page);
+      },
+    }),
+    generate_lytx_recommendations: generateLYTXRecommendationsTool,
+    fetch_internal_page: tool({
+      description: `Fetch another page on the same site (e.g. cart, checkout, signup, pricing) and return its digest. At most ${AGENT_MAX_PAGE_FETCHES} fetches.`,
+      inputSchema: z.object({
+        url: z.string().describe('Absolute URL or path on the same origin'),
+      }),
+      execute: async ({ url }) => {
+        const target = normalizeCrawlUrl(url, context.url);
+        const origin = new URL(context.url).origin;
+        if (!target || new URL(target).origin !== origin) {
+          return { error: 'Only pages on the same origin can be fetched' };
+        }
+        if (context.pages.has(target)) {
+          return { url: target, digest: formatPageDigest(await extractPageDigest(context.pages.get(target)!, target), FETCHED_PAGE_TOKEN_BUDGET) };
+        }
+        if (context.fetches >= AGENT_MAX_PAGE_FETCHES) {
+          return { error: `Fetch limit of ${AGENT_MAX_PAGE_FETCHES} pages reached` };
+        }
+        context.fetches++;
+
+        const robots = await getRobotsPolicy(target);
+        if (!robots.isAllowed(target)) {
+          return { error: `Skipped ${target}: ${ROBOTS_DISALLOWED_REASON}` };
+        }
+
+        // Follow redirects by hand so no request ever leaves the origin or hits
+        // a disallowed path
+        let current = target;
+        let response: Response;
+        for (let hops = 0; ; hops++) {
+          response = await fetch(current, {
+            headers: { 'Accept': 'text/html,application/xhtml+xml', 'User-Agent': CRAWL_USER_AGENT },
+            redirect: 'manual',
+          });
+          const location = response.headers.get('location');
+          if (response.status < 300 || response.status >= 400 || !location) break;
+
+          if (hops >= AGENT_MAX_REDIRECTS) {
+            return { error: `${target} redirected more than ${AGENT_MAX_REDIRECTS} times` };
+          }
+          const next = normalizeCrawlUrl(location, current);
+          if (!next || new URL(next).origin !== origin) {
+            return { error: `${target} redirects off-site to ${next ?? location}` };
+          }
+          if (!robots.isAllowed(next)) {
+            return { error: `Skipped ${next}: ${ROBOTS_DISALLOWED_REASON}` };
+          }
+          current = next;
+        }
+        if (!response.ok) return { error: `HTTP ${response.status}` };
+        const contentType = response.headers.get('content-type') || '';
+        if (contentType && !contentType.includes('html')) {
+          return { error: `Not an HTML page (${contentType})` };
+        }
+
+        const html = await response.text();
+        context.pages.set(target, html);
+        return { url: target, digest: formatPageDigest(await extractPageDigest(html, target), FETCHED_PAGE_TOKEN_BUDGET) };
+      },
+    }),
+    inspect_selector: tool({
+      description: 'Run a CSS selector against the analyzed page (or a fetched page) and return how many elements match, with the attributes and text of the first few. Use it to confirm a selector exists before recommending it.',
+      inputSchema: z.object({
+        selector: z.string(),
+        url: z.string().optional().describe('Page to inspect; defaults to the page under analysis'),
+      }),
+      execute: async ({ selector, url }) => {
+        const page = pageHtml(context, url);
+        if ('error' in page) return page;
+        try {
+          return await inspectSelector(page.html, selector);
+        } catch (error) {
+          return { error: `Unsupported selector: ${error instanceof Error ? error.message : String(error)}` };
+        }
+      },
+    }),
+    lookup_vendor: tool({
+      description: 'Look up a third-party script vendor seen on the page: what it is for, what it already tracks, and whether it was detected here',
+      inputSchema: z.object({
+        name: z.string().describe('Vendor name, e.g. "Google Tag Manager" or "Meta Pixel"'),
+      }),
+      execute: async ({ name }) => {
+        const vendor = lookupVendor(name);
+        if (!vendor) {
+          return { name, known: false, detectedOnPage: context.digest.scriptHosts.some(host => host.includes(name.toLowerCase())) };
+        }
+        return {
+          name: vendor.name,
+          known: true,
+          category: vendor.category,
+          notes: vendor.notes,
+          detectedOnPage: context.digest.scriptVendors.includes(vendor.name),
+        };
+      },
+    }),
+  };
+}
+
+/**
+ * Let the model investigate `url` with tools for up to AGENT_MAX_STEPS steps.
+ * The last step has tools disabled so it always ends with written findings.
+ */
+export async function runAgentInvestigation({ model, url, html, digest, analysisId }: {
+  model: LanguageModel;
+  url: string;
+  html: string;
+  digest: PageDigest;
+  analysisId: string;
+}): Promise<AgentTrace> {
+  const context: AgentContext = {
+    url,
+    digest,
+    pages: new Map([[normalizeCrawlUrl(url) ?? url, html]]),
+    fetches: 0,
+  };
+
+  const template = await resolvePromptTemplate('agent-investigation');
+  console.log(`🕵️ [${analysisId}] Agent investigation started with ${promptVersionId(template)} (budget: ${AGENT_MAX_STEPS} steps)`);
+
+  const result = await generateText({
+    model,
+    tools: createAgentTools(context),
+    stopWhen: stepCountIs(AGENT_MAX_STEPS),
+    prepareStep: ({ stepNumber }) => (stepNumber === AGENT_MAX_STEPS - 1 ? { toolChoice: 'none' } : undefined),
+    prompt: renderPrompt(template, { url, digest: formatPageDigest(digest, FETCHED_PAGE_TOKEN_BUDGET * 2) }),
+  });
+
+  const steps: AgentTraceStep[] = result.steps.map((step, index) => {
+    const calls = new Map<string, AgentToolCall>();
+    for (const part of step.content) {
+      if (part.type === 'tool-call') {
+        calls.set(part.toolCallId, { toolName: part.toolName, input: part.input, output: '' });
+      } else if (part.type === 'tool-result') {
+        const call = calls.get(part.toolCallId);
+        if (call) {
+          call.output = shorten(part.output);
+          call.error = typeof part.output === 'object' && part.output !== null && 'error' in part.output;
+        }
+      } else if (part.type === 'tool-error') {
+        const call = calls.get(part.toolCallId);
+        if (call) {
+          call.output = shorten(part.error instanceof Error ? part.error.message : part.error);
+          call.error = true;
+        }
+      }
+    }
+    return { step: index + 1, text: step.text || undefined, toolCalls: Array.from(calls.values()) };
+  });
+
+  const toolCallCount = steps.reduce((total, step) => total + step.toolCalls.length, 0);
+  console.log(`🕵️ [${analysisId}] Agent investigation finished after ${steps.length} steps and ${toolCallCount} tool calls (${result.finishReason})`);
+
+  return {
+    promptVersion: promptVersionId(template),
+    stepBudget: AGENT_MAX_STEPS,
+    steps,
+    findings: result.text.trim(),
+    finishReason: result.finishReason,
+    usage: { inputTokens: result.totalUsage.inputTokens, outputTokens: result.totalUsage.outputTokens },
+  };
+}
@@ -1,6 +1,164 @@
 import { tool } from 'ai';
 import { z } from 'zod';
 import { PageAnalysisSchema, LYTXRecommendationSchema } from './types';
+import { parsePageStructure } from './html-structure';
+import { extractPageDigest } from './page-digest';
+import { classifyPage } from './page-classifier';
+import { EVENT_TEMPLATES } from './event-templates';
+import { applyTechnologies, detectTechnologies } from './tech-fingerprints';
+import { applyConsent, detectConsent } from './consent';
+import { detectGtmContainerIds } from './gtm';
+
+type PageAnalysis = z.infer<typeof PageAnalysisSchema>;
+type LYTXRecommendation = z.infer<typeof LYTXRecommendationSchema>;
+
+export async function analyzePageStructure({ html, url }: { html: string; url: string }): Promise<PageAnalysis> {
+  // Parse HTML to extract key information
+  const structure = await parsePageStructure(html);
+  const title = structure.title || 'No title found';
+  const description = structure.metaTags['description'] || undefined;
+  const headings = structure.headings;
+
+  // Extract key content (first few paragraphs)
+  const keyContent = structure.paragraphs
+    .join(' ')
+    .substring(0, 500);
+  
+  // Detect technical stack from the fingerprint catalogue
+  const technologies = await detectTechnologies({ html, url });
+  const technicalStack = { ...applyTechnologies({ analytics: [] }, technologies), gtmContainerIds: detectGtmContainerIds(html) };
+  const consent = await detectConsent({ html, url, technologies });
+  
+  // SEO metrics
+  const hasMetaTitle = structure.title !== null;
+  const hasMetaDescription = !!description;
+  const { jsonLdBlocks, microdata, rdfa } = structure.structuredData;
+  const hasStructuredData = jsonLdBlocks > 0 || microdata || rdfa;
+  const imageCount = structure.imageCount;
+  const linkCount = structure.linkCount;
+
+  const { pageType } = classifyPage(await extractPageDigest(html, url));
+  
+  return {
+    url,
+    title,
+    description,
+    headings,
+    keyContent,
+    technicalStack,
+    seoMetrics: {
+      hasMetaTitle,
+      hasMetaDescription,
+      hasStructuredData,
+      imageCount,
+      linkCount,
+    },
+    pageType,
+    consent,
+  };
+}
+
+export async function generateLYTXRecommendations(pageAnalysis: PageAnalysis): Promise<LYTXRecommendation> {
+  const { technicalStack, seoMetrics, headings } = pageAnalysis;
+  const pageType = pageAnalysis.pageType ?? 'other';
+  
+  // Generate tag placements based on technical stack
+  const tagPlacements = [];
+  
+  // Core LYTX tag placement
+  tagPlacements.push({
+    location: 'head' as const,
+    reason: 'Core LYTX analytics tracking script for page views and user sessions',
+    priority: 'high' as const,
+    code: `<script defer data-domain="${new URL(pageAnalysis.url).hostname}" src="https://analytics.lytx.io/js/script.js"></script>`,
+  });
+  
+  // Enhanced tracking for articles
+  if (pageType === 'blog-post') {
+    tagPlacements.push({
+      location: 'body_end' as const,
+      reason: 'Enhanced content engagement tracking for article/blog content',
+      priority: 'medium' as const,
+      code: `<script>
+  window.lytx = window.lytx || [];
+  window.lytx.push(['trackEngagement', {
+  content_type: 'article',
+  sections: ${headings.length}
+  }]);
+</script>`,
+    });
+  }
+  
+  // E-commerce specific tracking
+  if (['product', 'category', 'cart', 'checkout'].includes(pageType)) {
+    tagPlacements.push({
+      location: 'body_end' as const,
+      reason: `E-commerce conversion tracking for ${pageType} page`,
+      priority: 'high' as const,
+      code: `<script>
+  window.lytx = window.lytx || [];
+  window.lytx.push(['enableEcommerce']);
+</script>`,
+    });
+  }
+  
+  // Generate tracking events
+  const trackingEvents: LYTXRecommendation['trackingEvents'] = [
+    {
+      event: 'page_view',
+      trigger: 'Page load',
+      implementation: 'Automatic with core script',
+    },
+    {
+      event: 'scroll_depth',
+      trigger: '25%, 50%, 75%, 100% scroll',
+      implementation: 'window.lytx.push([\'trackScroll\'])',
+    },
+  ];
+  
+  // Standard events for the page type, so pages of one type get the same events
+  for (const template of EVENT_TEMPLATES[pageType]) {
+    trackingEvents.push({
+      event: template.event,
+      trigger: template.trigger,
+      implementation: `window.lytxApi.event('<ACCOUNT>', 'web', '${template.event}')`,
+      conversionImpact: template.conversionImpact,
+    });
+  }
+  
+  // Generate optimizations
+  const optimizations = [];
+  
+  if (!seoMetrics.hasMetaDescription) {
+    optimizations.push({
+      category: 'user_experience' as const,
+      suggestion: 'Add meta description to improve social sharing and search result snippets',
+      impact: 'medium' as const,
+    });
+  }
+  
+  if (technicalStack.analytics.length > 2) {
+    optimizations.push({
+      category: 'performance' as const,
+      suggestion: 'Consider consolidating analytics tools to reduce page load impact',
+      impact: 'medium' as const,
+    });
+  }
+  
+  if (!technicalStack.analytics.includes('LYTX')) {
+    optimizations.push({
+      category: 'conversion' as const,
+      suggestion: 'Implement LYTX analytics for privacy-compliant tracking without cookies',
+      impact: 'high' as const,
+    });
+  }
+  
+  return {
+    tagPlacements: pageAnalysis.consent ? applyConsent(tagPlacements, pageAnalysis.consent, pageAnalysis.url) : tagPlacements,
+    trackingEvents,
+    optimizations,
+  };
+}
 
 export const analyzePageStructureTool = tool({
   description: 'Analyze webpage HTML structure, content, and technical stack',
@@ -9,185 +167,12 @@ export const analyzePageStructureTool = tool({
     url: z.string(),
   }),
   outputSchema: PageAnalysisSchema,
-  execute: async ({ html, url }) => {
-    // Parse HTML to extract key information
-    const titleMatch = html.match(/<title[^>]*>(.*?)<\/title>/i);
-    const title = titleMatch ? titleMatch[1].trim() : 'No title found';
-    
-    const descriptionMatch = html.match(/<meta[^>]*name=['""]description['""][^>]*content=['""]([^'"]*)['""][^>]*>/i);
-    const description = descriptionMatch ? descriptionMatch[1] : undefined;
-    
-    // Extract headings
-    const headingMatches = html.match(/<(h[1-6])[^>]*>(.*?)<\/h[1-6]>/gi) || [];
-    const headings = headingMatches.map(match => {
-      const levelMatch = match.match(/<h([1-6])/i);
-      const textMatch = match.match(/>(.*?)<\/h[1-6]>/i);
-      return {
-        level: levelMatch ? parseInt(levelMatch[1]) : 1,
-        text: textMatch ? textMatch[1].replace(/<[^>]*>/g, '').trim() : '',
-      };
-    });
-    
-    // Extract key content (first few paragraphs)
-    const paragraphs = html.match(/<p[^>]*>(.*?)<\/p>/gi) || [];
-    const keyContent = paragraphs
-      .slice(0, 3)
-      .map(p => p.replace(/<[^>]*>/g, '').trim())
-      .join(' ')
-      .substring(0, 500);
-    
-    // Detect technical stack
-    const hasReact = /react/i.test(html);
-    const hasNext = /next\.js|_next/i.test(html);
-    const hasWordPress = /wp-content|wordpress/i.test(html);
-    const hasShopify = /shopify|cdn\.shopify/i.test(html);
-    
-    let framework: string | undefined;
-    let cms: string | undefined;
-    
-    if (hasNext) framework = 'Next.js';
-    else if (hasReact) framework = 'React';
-    
-    if (hasWordPress) cms = 'WordPress';
-    else if (hasShopify) cms = 'Shopify';
-    
-    // Detect existing analytics
-    const analytics: string[] = [];
-    if (/google-analytics|gtag|ga\(/i.test(html)) analytics.push('Google Analytics');
-    if (/gtm\.js|googletagmanager/i.test(html)) analytics.push('Google Tag Manager');
-    if (/facebook\.net\/tr|fbevents/i.test(html)) analytics.push('Facebook Pixel');
-    if (/lytx\.io|lytx-analytics/i.test(html)) analytics.push('LYTX');
-    
-    // SEO metrics
-    const hasMetaTitle = !!titleMatch;
-    const hasMetaDescription = !!descriptionMatch;
-    const hasStructuredData = /application\/ld\+json|schema\.org/i.test(html);
-    const imageCount = (html.match(/<img[^>]*>/gi) || []).length;
-    const linkCount = (html.match(/<a[^>]*href/gi) || []).length;
-    
-    return {
-      url,
-      title,
-      description,
-      headings,
-      keyContent,
-      technicalStack: {
-        framework,
-        cms,
-        analytics,
-      },
-      seoMetrics: {
-        hasMetaTitle,
-        hasMetaDescription,
-        hasStructuredData,
-        imageCount,
-        linkCount,
-      },
-    };
-  },
+  execute: analyzePageStructure,
 });
 
 export const generateLYTXRecommendationsTool = tool({
   description: 'Generate LYTX analytics tag placement and tracking recommendations based on page analysis',
   inputSchema: PageAnalysisSchema,
   outputSchema: LYTXRecommendationSchema,
-  execute: async (pageAnalysis) => {
-    const { technicalStack, seoMetrics, headings } = pageAnalysis;
-    
-    // Generate tag placements based on technical stack
-    const tagPlacements = [];
-    
-    // Core LYTX tag placement
-    tagPlacements.push({
-      location: 'head' as const,
-      reason: 'Core LYTX analytics tracking script for page views and user sessions',
-      priority: 'high' as const,
-      code: `<script defer data-domain="${new URL(pageAnalysis.url).hostname}" src="https://analytics.lytx.io/js/script.js"></script>`,
-    });
-    
-    // Enhanced tracking for content sites
-    if (headings.length > 3) {
-      tagPlacements.push({
-        location: 'body_end' as const,
-        reason: 'Enhanced content engagement tracking for article/blog content',
-        priority: 'medium' as const,
-        code: `<script>
-  window.lytx = window.lytx || [];
-  window.lytx.push(['trackEngagement', {
-    content_type: 'article',
-    sections: ${headings.length}
-  }]);
-</script>`,
-      });
-    }
-    
-    // E-commerce specific tracking
-    if (technicalStack.cms === 'Shopify') {
-      tagPlacements.push({
-        location: 'body_end' as const,
-        reason: 'E-commerce conversion tracking for Shopify store',
-        priority: 'high' as const,
-        code: `<script>
-  window.lytx = window.lytx || [];
-  window.lytx.push(['enableEcommerce']);
-</script>`,
-      });
-    }
-    
-    // Generate tracking events
-    const trackingEvents = [
-      {
-        event: 'page_view',
-        trigger: 'Page load',
-        implementation: 'Automatic with core script',
-      },
-      {
-        event: 'scroll_depth',
-        trigger: '25%, 50%, 75%, 100% scroll',
-        implementation: 'window.lytx.push([\'trackScroll\'])',
-      },
-    ];
-    
-    // Add form tracking if likely to have forms
-    if (pageAnalysis.keyContent.includes('contact') || pageAnalysis.keyContent.includes('subscribe')) {
-      trackingEvents.push({
-        event: 'form_submit',
-        trigger: 'Form submission',
-        implementation: 'window.lytx.push([\'trackEvent\', \'form_submit\', { form_type: \'contact\' }])',
-      });
-    }
-    
-    // Generate optimizations
-    const optimizations = [];
-    
-    if (!seoMetrics.hasMetaDescription) {
-      optimizations.push({
-        category: 'user_experience' as const,
-        suggestion: 'Add meta description to improve social sharing and search result snippets',
-        impact: 'medium' as const,
-      });
-    }
-    
-    if (technicalStack.analytics.length > 2) {
-      optimizations.push({
-        category: 'performance' as const,
-        suggestion: 'Consider consolidating analytics tools to reduce page load impact',
-        impact: 'medium' as const,
-      });
-    }
-    
-    if (!technicalStack.analytics.includes('LYTX')) {
-      optimizations.push({
-        category: 'conversion' as const,
-        suggestion: 'Implement LYTX analytics for privacy-compliant tracking without cookies',
-        impact: 'high' as const,
-      });
-    }
-    
-    return {
-      tagPlacements,
-      trackingEvents,
-      optimizations,
-    };
-  },
+  execute: generateLYTXRecommendations,
 });
\ No newline at end of file
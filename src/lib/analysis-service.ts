@@ -1,12 +1,20 @@
 import { generateObject } from 'ai';
-import { createOpenAI } from '@ai-sdk/openai';
 import { SimpleCloudflareBrowserService } from './simple-browser-service';
 import { SiteAnalysisResult } from './types';
-import { DEFAULT_MODEL } from './defaults';
-
-const openai = createOpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import { DIGEST_TOKEN_BUDGET } from './defaults';
+import { extractPageDigest, formatPageDigest, type PageDigest } from './page-digest';
+import { runAgentInvestigation, type AgentTrace } from './agent-analysis';
+import { resolveLanguageModel, type LlmSelection } from './llm-providers';
+import { buildAnalysisPromptVariables, promptVersionId, renderPrompt, resolvePromptTemplate } from './prompts';
+import { getRobotsPolicy, ROBOTS_DISALLOWED_REASON } from './robots';
+import { analysisCacheKey, withAnalysisCache, type LlmCacheInfo } from './llm-cache';
+import { buildLlmUsage, type LlmUsage } from './llm-usage';
+import { classifyPage, type PageClassification } from './page-classifier';
+import { applyEventTemplates } from './event-templates';
+import { applyTechnologies, detectTechnologies, type PageTraces } from './tech-fingerprints';
+import { applyConsent, detectConsent } from './consent';
+import { detectGtmContainerIds } from './gtm';
+import type { ConsentAnalysis, DetectedTechnology } from './types';
 
 // Detect presence of LYTX script in raw HTML and extract account ID
 function detectLytxInfo(html: string): { detected: boolean; accountId: string | null } {
@@ -32,11 +40,78 @@ function detectLytxInfo(html: string): { detected: boolean; accountId: string |
   return { detected: false, accountId: null };
 }
 
+interface PageDetections {
+  digest: PageDigest;
+  // Digest rendered for the prompt
+  pageDigest: string;
+  classification: PageClassification;
+  technologies: DetectedTechnology[];
+  consent: ConsentAnalysis;
+  gtmContainerIds: string[];
+  lytxInfo: { detected: boolean; accountId: string | null };
+}
+
+// Everything worked out from the HTML before the model is called; shared by
+// the fetched-page and provided-HTML paths so they can't drift apart
+async function runDetections({ html, url, headers, analysisId }: PageTraces & { analysisId: string }): Promise<PageDetections> {
+  const digest = await extractPageDigest(html, url);
+  const pageDigest = formatPageDigest(digest, DIGEST_TOKEN_BUDGET);
+  const classification = classifyPage(digest);
+  const technologies = await detectTechnologies({ html, url, headers });
+  const consent = await detectConsent({ html, url, technologies });
+  const gtmContainerIds = detectGtmContainerIds(html);
+  const lytxInfo = detectLytxInfo(html);
+
+  console.log(`📝 [${analysisId}] HTML digested from ${html.length} to ${pageDigest.length} chars`);
+  console.log(`🔎 [${analysisId}] LYTX Detection: ${lytxInfo.detected ? 'Found' : 'Not found'}${lytxInfo.accountId ? ` (Account: ${lytxInfo.accountId})` : ''}`);
+  console.log(`🏷️ [${analysisId}] Page type: ${classification.pageType} (${Math.round(classification.confidence * 100)}%${classification.signals.length ? `; ${classification.signals.join(', ')}` : ''})`);
+  console.log(`🧩 [${analysisId}] Technologies: ${technologies.map(technology => `${technology.name}${technology.version ? ` ${technology.version}` : ''}`).join(', ') || 'none detected'}${gtmContainerIds.length ? ` (GTM ${gtmContainerIds.join(', ')})` : ''}`);
+  console.log(`🍪 [${analysisId}] Consent: ${consent.platforms.join(', ') || (consent.customBanner ? 'custom banner' : 'no CMP')}, ${consent.model}${consent.gateLytx ? ' (gate LYTX)' : ''}`);
+
+  return { digest, pageDigest, classification, technologies, consent, gtmContainerIds, lytxInfo };
+}
+
+// Stamp what was detected from the HTML over the model's answer: page type
+// (and its event names), technologies, GTM containers, and the consent
+// decision for the tag
+function applyDetections(object: SiteAnalysisResult, { classification, technologies, gtmContainerIds, consent }: {
+  classification: PageClassification;
+  technologies: DetectedTechnology[];
+  gtmContainerIds: string[];
+  consent: ConsentAnalysis;
+}): SiteAnalysisResult {
+  return {
+    ...object,
+    pageAnalysis: {
+      ...object.pageAnalysis,
+      pageType: classification.pageType,
+      technicalStack: { ...applyTechnologies(object.pageAnalysis.technicalStack, technologies), gtmContainerIds },
+      consent,
+    },
+    lytxRecommendations: {
+      ...object.lytxRecommendations,
+      tagPlacements: applyConsent(object.lytxRecommendations.tagPlacements, consent, object.pageAnalysis.url),
+      trackingEvents: applyEventTemplates(object.lytxRecommendations.trackingEvents, classification.pageType),
+    },
+  };
+}
+
 // Backward compatibility function
 function hasLytxScriptTag(html: string): boolean {
   return detectLytxInfo(html).detected;
 }
 
+export interface AnalyzeSiteOptions {
+  extraInstructions?: string;
+  // Investigate with tools before answering; see agent-analysis.ts
+  agentMode?: boolean;
+  llm?: LlmSelection;
+  // Pin a site-analysis prompt version instead of the active one
+  promptVersion?: string;
+  // Skip the LLM response cache and pay for a new answer
+  forceFresh?: boolean;
+}
+
 //NOTE: This is just a class not a cf resource
 export class SiteAnalysisService {
   private browserService: SimpleCloudflareBrowserService;
@@ -45,24 +120,6 @@ export class SiteAnalysisService {
     this.browserService = new SimpleCloudflareBrowserService();
   }
 
-  // Simple HTML truncation like your script
-  private truncateHtml(html: string, maxLength: number = 3000): string {
-    if (html.length <= maxLength) {
-      return html;
-    }
-
-    // Try to truncate at a reasonable HTML boundary
-    let truncated = html.substring(0, maxLength);
-    const lastClosingTag = truncated.lastIndexOf('</');
-
-    if (lastClosingTag > maxLength * 0.8) {
-      // If we have a reasonable closing tag near the end, truncate there
-      truncated = truncated.substring(0, lastClosingTag);
-    }
-
-    return truncated + '\n... (truncated due to size)';
-  }
-
   // External service fetch - will be called from Durable Object context where env is available
   private async externalServiceFetch(url: string, externalFetcherUrl?: string) {
     console.log(`External 📡 Fetching ${url}...`);
@@ -85,8 +142,8 @@ export class SiteAnalysisService {
     }
   }
 
-  // Simple static fetch like your script
-  private async staticFetch(url: string) {
+  // Simple static fetch like your script; headers feed technology fingerprinting
+  private async staticFetch(url: string): Promise<{ html: string; headers: Headers } | null> {
     console.log(`Static 📡 Fetching ${url}...`);
     const request = await fetch(url, {
       method: 'GET',
@@ -98,7 +155,7 @@ export class SiteAnalysisService {
     if (request.ok) {
       const html = await request.text();
       console.log("Content ok", request.status, html.length);
-      return html;
+      return { html, headers: request.headers };
     } else {
       console.log('Error fetching static content');
       return null;
@@ -106,7 +163,8 @@ export class SiteAnalysisService {
   }
 
   // Simplified single AI call analysis like your script
-  async analyzeSite(url: string, usePuppeteer: boolean, useExternalFetcher?: boolean, externalFetcherUrl?: string): Promise<SiteAnalysisResult> {
+  async analyzeSite(url: string, usePuppeteer: boolean, useExternalFetcher?: boolean, externalFetcherUrl?: string, options: AnalyzeSiteOptions = {}): Promise<SiteAnalysisResult & { agentTrace?: AgentTrace; llmCache?: LlmCacheInfo; usage: LlmUsage }> {
+    const { extraInstructions, agentMode, llm, promptVersion, forceFresh } = options;
     const analysisId = crypto.randomUUID();
     const startTime = Date.now();
 
@@ -116,16 +174,26 @@ export class SiteAnalysisService {
     });
 
     try {
+      // Every fetch path (static, external fetcher, puppeteer) is gated on robots.txt
+      const robots = await getRobotsPolicy(url);
+      if (!robots.isAllowed(url)) {
+        throw new Error(`Skipped ${url}: ${ROBOTS_DISALLOWED_REASON}`);
+      }
+
       // Step 1: Fetch HTML content
       console.log(`🌐 [${analysisId}] Step 1: Fetching HTML content... external : ${useExternalFetcher} pupputeer : ${usePuppeteer} `);
       let html: string;
+      // Only a direct fetch sees the site's own response headers
+      let headers: Headers | undefined;
 
       if (!usePuppeteer) {
         let tryStatic: string | null = null;
         if (useExternalFetcher && externalFetcherUrl) {
           tryStatic = await this.externalServiceFetch(url, externalFetcherUrl);
         } else {
-          tryStatic = await this.staticFetch(url);
+          const fetched = await this.staticFetch(url);
+          tryStatic = fetched?.html ?? null;
+          headers = fetched?.headers;
         }
         if (tryStatic) {
           html = tryStatic;
@@ -149,41 +217,61 @@ export class SiteAnalysisService {
       // Step 2: Single AI call for complete analysis (like your script)
       console.log(`🤖 [${analysisId}] Step 2: Running single AI analysis...`);
 
-      const truncatedHtml = this.truncateHtml(html);
-      const lytxInfo = detectLytxInfo(html);
+      const { digest, pageDigest, classification, technologies, consent, gtmContainerIds, lytxInfo } = await runDetections({ html, url, headers, analysisId });
 
-      console.log(`📝 [${analysisId}] HTML truncated from ${html.length} to ${truncatedHtml.length} chars`);
-      console.log(`🔎 [${analysisId}] LYTX Detection: ${lytxInfo.detected ? 'Found' : 'Not found'}${lytxInfo.accountId ? ` (Account: ${lytxInfo.accountId})` : ''}`);
+      const { provider, modelId, model } = resolveLanguageModel(llm);
+      console.log(`🧠 [${analysisId}] Using ${provider} model ${modelId}`);
+      const llmStartTime = Date.now();
 
-      const analysisResult = await generateObject({
-        model: openai(DEFAULT_MODEL),
-        schema: SiteAnalysisResult,
-        prompt: `Analyze this webpage HTML and generate LYTX analytics recommendations: ${url}
+      // Agent mode: investigate with tools first, then write the analysis from the findings
+      const agentTrace = agentMode
+        ? await runAgentInvestigation({ model, url, html, digest, analysisId })
+        : undefined;
 
-HTML:
-${truncatedHtml}
-
-LYTX Detection: ${lytxInfo.detected ? `Existing LYTX script detected - include "LYTX" in analytics array${lytxInfo.accountId ? ` (Account ID: ${lytxInfo.accountId})` : ''}` : 'No LYTX script detected'}
-
-IMPORTANT - LYTX Implementation Guidelines:
-1. Core Script Tag: <script defer src="https://lytx.io/lytx.js?account=<ACCOUNT>"></script>
-2. Event Tracking: window.lytxApi.event('<ACCOUNT>', 'web', '<EVENT_NAME>')
-3. Replace <ACCOUNT> with actual account identifier  
-4. Event names should be descriptive (e.g., 'form_submit', 'product_view', 'checkout_start')
-5. Do NOT use other vendor patterns - only use the exact LYTX API above
-6. If LYTX is already detected, acknowledge existing installation and suggest additional events only
+      const template = await resolvePromptTemplate('site-analysis', promptVersion);
+      const prompt = renderPrompt(template, buildAnalysisPromptVariables({
+        url,
+        digest: pageDigest,
+        lytxInfo,
+        extraInstructions,
+        findings: agentTrace?.findings,
+        technologies,
+        classification,
+      }));
+      let analysisUsage: { inputTokens?: number; outputTokens?: number } | undefined;
+      const generate = async () => {
+        const { object, usage } = await generateObject({ model, schema: SiteAnalysisResult, prompt });
+        analysisUsage = usage;
+        return object;
+      };
 
-Focus on conversion-oriented events and provide clear implementation guidance.`,
+      // Agent runs skip the cache: their findings differ from run to run and the trace is the point
+      const { object, llmCache } = agentTrace
+        ? { object: await generate(), llmCache: undefined }
+        : await withAnalysisCache(
+          await analysisCacheKey({ prompt, promptVersion: promptVersionId(template), model: `${provider}:${modelId}` }),
+          { forceFresh, analysisId },
+          generate
+        );
+
+      const usage = buildLlmUsage({
+        provider,
+        model: modelId,
+        calls: [agentTrace?.usage, analysisUsage],
+        latencyMs: Date.now() - llmStartTime,
+        cached: llmCache?.hit,
       });
+      console.log(`🧾 [${analysisId}] LLM usage: ${usage.inputTokens} in / ${usage.outputTokens} out tokens in ${usage.latencyMs}ms${usage.estimatedCostUsd !== null ? ` (~$${usage.estimatedCostUsd.toFixed(4)})` : ''}`);
 
       const totalTime = Date.now() - startTime;
 
       // Add metadata
       const result: SiteAnalysisResult = {
-        ...analysisResult.object,
+        ...applyDetections(object, { classification, technologies, gtmContainerIds, consent }),
         analysisId,
         timestamp: new Date().toISOString(),
         detectedLytxAccount: lytxInfo.accountId,
+        promptVersion: promptVersionId(template),
       };
 
       console.log(`🏁 [${analysisId}] Site analysis completed successfully in ${totalTime}ms`, {
@@ -193,7 +281,7 @@ Focus on conversion-oriented events and provide clear implementation guidance.`,
         pageTitle: result.pageAnalysis.title,
       });
 
-      return result;
+      return agentTrace ? { ...result, agentTrace, usage } : { ...result, llmCache, usage };
     } catch (error) {
       const totalTime = Date.now() - startTime;
       console.error(`💥 [${analysisId}] Site analysis failed after ${totalTime}ms:`, {
@@ -349,50 +437,50 @@ Focus on conversion-oriented events and provide clear implementation guidance.`,
   }
 
   // Simplified direct HTML analysis
-  async analyzeProvidedHtml(url: string, html: string): Promise<SiteAnalysisResult> {
+  async analyzeProvidedHtml(url: string, html: string, extraInstructions?: string, llm?: LlmSelection, forceFresh?: boolean): Promise<SiteAnalysisResult & { llmCache: LlmCacheInfo; usage: LlmUsage }> {
     const analysisId = crypto.randomUUID();
     const startTime = Date.now();
     console.log(`🔍 [${analysisId}] Starting direct HTML analysis for: ${url}`);
 
     try {
-      const truncatedHtml = this.truncateHtml(html);
-      const lytxInfo = detectLytxInfo(html);
-
-      console.log(`📝 [${analysisId}] HTML truncated from ${html.length} to ${truncatedHtml.length} chars`);
-      console.log(`🔎 [${analysisId}] LYTX Detection: ${lytxInfo.detected ? 'Found' : 'Not found'}${lytxInfo.accountId ? ` (Account: ${lytxInfo.accountId})` : ''}`);
-
-      const analysisResult = await generateObject({
-        model: openai(DEFAULT_MODEL),
-        schema: SiteAnalysisResult,
-        prompt: `Analyze this webpage HTML and generate LYTX analytics recommendations: ${url}
-
-HTML:
-${truncatedHtml}
-
-LYTX Detection: ${lytxInfo.detected ? `Existing LYTX script detected - include "LYTX" in analytics array${lytxInfo.accountId ? ` (Account ID: ${lytxInfo.accountId})` : ''}` : 'No LYTX script detected'}
-
-IMPORTANT - LYTX Implementation Guidelines:
-1. Core Script Tag: <script defer src="https://lytx.io/lytx.js?account=<ACCOUNT>"></script>
-2. Event Tracking: window.lytxApi.event('<ACCOUNT>', 'web', '<EVENT_NAME>')
-3. Replace <ACCOUNT> with actual account identifier  
-4. Event names should be descriptive (e.g., 'form_submit', 'product_view', 'checkout_start')
-5. Do NOT use other vendor patterns - only use the exact LYTX API above
-6. If LYTX is already detected, acknowledge existing installation and suggest additional events only
-
-Focus on conversion-oriented events and provide clear implementation guidance.`,
+      const { pageDigest, classification, technologies, consent, gtmContainerIds, lytxInfo } = await runDetections({ html, url, analysisId });
+
+      const { provider, modelId, model } = resolveLanguageModel(llm);
+      console.log(`🧠 [${analysisId}] Using ${provider} model ${modelId}`);
+
+      const template = await resolvePromptTemplate('site-analysis');
+      const prompt = renderPrompt(template, buildAnalysisPromptVariables({ url, digest: pageDigest, lytxInfo, extraInstructions, technologies, classification }));
+      const llmStartTime = Date.now();
+      let analysisUsage: { inputTokens?: number; outputTokens?: number } | undefined;
+      const { object, llmCache } = await withAnalysisCache(
+        await analysisCacheKey({ prompt, promptVersion: promptVersionId(template), model: `${provider}:${modelId}` }),
+        { forceFresh, analysisId },
+        async () => {
+          const { object, usage } = await generateObject({ model, schema: SiteAnalysisResult, prompt });
+          analysisUsage = usage;
+          return object;
+        }
+      );
+      const usage = buildLlmUsage({
+        provider,
+        model: modelId,
+        calls: [analysisUsage],
+        latencyMs: Date.now() - llmStartTime,
+        cached: llmCache.hit,
       });
 
       const totalTime = Date.now() - startTime;
 
       const result: SiteAnalysisResult = {
-        ...analysisResult.object,
+        ...applyDetections(object, { classification, technologies, gtmContainerIds, consent }),
         analysisId,
         timestamp: new Date().toISOString(),
         detectedLytxAccount: lytxInfo.accountId,
+        promptVersion: promptVersionId(template),
       };
 
       console.log(`🏁 [${analysisId}] Direct HTML analysis completed in ${totalTime}ms`);
-      return result;
+      return { ...result, llmCache, usage };
     } catch (error) {
       console.error(`💥 [${analysisId}] Direct HTML analysis failed:`, error);
       throw error;
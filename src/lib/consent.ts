@@ -0,0 +1,302 @@
+import { inferDomainFromUrl, lytxScriptSrc } from '@vendors/lytx';
+import type { ConsentAnalysis, ConsentModel, DetectedTechnology, LYTXRecommendation } from './types';
+
+// Consent detection. The CMP itself comes from the fingerprint catalogue
+// (category 'consent'); this module works out the consent state model the
+// site runs - opt-in, opt-out or a plain notice - from Google Consent Mode
+// defaults, IAB frameworks, scripts held back until consent, and the buttons
+// on a home-grown banner. That decides whether the LYTX tag should wait for
+// consent, and if so which CMP callbacks to wire it to.
+
+type TagPlacement = LYTXRecommendation['tagPlacements'][number];
+
+const MAX_INLINE_SCRIPT_SCAN = 50000;
+
+// Containers only: HTMLRewriter can't wait for the end tag of a void element
+const BANNER_SELECTOR = ['div', 'section', 'aside', 'dialog']
+  .flatMap(tag => ['cookie', 'consent', 'gdpr'].flatMap(word => [`${tag}[id*="${word}"]`, `${tag}[class*="${word}"]`]))
+  .join(', ');
+
+const REJECT_TEXT = /reject|decline|deny|refuse|necessary only|only necessary|essential only|manage (preferences|settings|cookies)|cookie settings|customi[sz]e/i;
+const ACCEPT_TEXT = /accept|agree|allow|got it|i understand|\bok(ay)?\b|continue/i;
+const COOKIE_TEXT = /cookie|consent|privacy|tracking/i;
+
+// Attributes CMPs use to hold a script back until its category is accepted
+const BLOCKED_SCRIPT_ATTRIBUTES = ['data-cookieconsent', 'data-cookiecategory', 'data-category', 'data-usercentrics', 'data-consent', 'data-cookieyes', 'data-iub-purposes'];
+
+interface ConsentTraces {
+  gcmDefault?: 'denied' | 'granted';
+  tcf: boolean;
+  gpp: boolean;
+  usp: boolean;
+  blockedScripts: number;
+  autoBlocking: boolean;
+  bannerText: string;
+}
+
+async function collectTraces(html: string): Promise<ConsentTraces> {
+  const traces: ConsentTraces = { tcf: false, gpp: false, usp: false, blockedScripts: 0, autoBlocking: false, bannerText: '' };
+  const inlineScripts: string[] = [];
+  let inlineScript: { text: string } | null = null;
+  let bannerDepth = 0;
+
+  const rewriter = new HTMLRewriter()
+    .on('script', {
+      element(element) {
+        const type = (element.getAttribute('type') || '').toLowerCase();
+        if (type === 'text/plain' && (BLOCKED_SCRIPT_ATTRIBUTES.some(name => element.hasAttribute(name)) || /optanon-category|cmplz/.test(element.getAttribute('class') || ''))) {
+          traces.blockedScripts++;
+        }
+        if ((element.getAttribute('data-blockingmode') || '').toLowerCase() === 'auto') traces.autoBlocking = true;
+        if (element.getAttribute('src') || type === 'application/ld+json') return;
+
+        const script = { text: '' };
+        inlineScript = script;
+        element.onEndTag(() => {
+          inlineScript = null;
+          inlineScripts.push(script.text);
+        });
+      },
+      text(chunk) {
+        if (inlineScript && inlineScript.text.length < MAX_INLINE_SCRIPT_SCAN) inlineScript.text += chunk.text;
+      },
+    })
+    .on(BANNER_SELECTOR, {
+      element(element) {
+        bannerDepth++;
+        element.onEndTag(() => { bannerDepth--; });
+      },
+    })
+    .onDocument({
+      text(chunk) {
+        if (bannerDepth > 0 && !inlineScript && traces.bannerText.length < 2000) traces.bannerText += chunk.text;
+      },
+    });
+
+  // Drain the transformed body; we only care about the handler side effects
+  await rewriter.transform(new Response(html, { headers: { 'Content-Type': 'text/html' } })).arrayBuffer();
+
+  const inlineText = inlineScripts.join('\n');
+  const gcm = /gtag\(\s*['"]consent['"]\s*,\s*['"]default['"]\s*,\s*\{[^}]*analytics_storage['"]?\s*:\s*['"](denied|granted)['"]/.exec(inlineText);
+  if (gcm) traces.gcmDefault = gcm[1] as 'denied' | 'granted';
+  traces.tcf = /__tcfapi\b/.test(inlineText);
+  traces.gpp = /__gpp\b/.test(inlineText);
+  traces.usp = /__uspapi\b/.test(inlineText);
+  traces.bannerText = traces.bannerText.replace(/\s+/g, ' ').trim();
+  return traces;
+}
+
+// CMPs that run the IAB TCF API as their main interface
+const TCF_PLATFORMS = new Set(['Quantcast Choice', 'Didomi']);
+
+function inferModel(platforms: string[], traces: ConsentTraces, customBanner: boolean, signals: string[]): ConsentModel {
+  if (traces.gcmDefault === 'denied') {
+    signals.push('Google Consent Mode defaults analytics_storage to denied');
+    return 'opt-in';
+  }
+  if (traces.blockedScripts > 0) {
+    signals.push(`${traces.blockedScripts} script(s) held back until consent`);
+    return 'opt-in';
+  }
+  if (traces.autoBlocking) {
+    signals.push('CMP auto-blocks scripts until consent');
+    return 'opt-in';
+  }
+  if (traces.tcf || platforms.some(platform => TCF_PLATFORMS.has(platform))) {
+    signals.push('IAB TCF consent API');
+    return 'opt-in';
+  }
+  if (traces.gcmDefault === 'granted') {
+    signals.push('Google Consent Mode defaults analytics_storage to granted');
+    return 'opt-out';
+  }
+  if (traces.gpp || traces.usp) {
+    signals.push(traces.gpp ? 'IAB GPP API' : 'IAB US Privacy API');
+    return 'opt-out';
+  }
+  if (customBanner) {
+    if (REJECT_TEXT.test(traces.bannerText)) {
+      signals.push('cookie banner offers reject or preferences');
+      return 'opt-in';
+    }
+    signals.push('cookie banner only offers accept');
+    return 'notice-only';
+  }
+  return platforms.length > 0 ? 'unknown' : 'none';
+}
+
+/**
+ * JavaScript wiring a CMP's consent callbacks to loadLytx / pauseLytx
+ */
+function cmpWiring(platform: string | undefined, tcf: boolean): string {
+  switch (platform) {
+    case 'OneTrust':
+      return `// OneTrust calls OptanonWrapper on load and whenever consent changes; C0002 is the performance group
+var previousOptanonWrapper = window.OptanonWrapper;
+window.OptanonWrapper = function () {
+  if (typeof previousOptanonWrapper === 'function') previousOptanonWrapper();
+  (window.OnetrustActiveGroups || '').indexOf(',C0002,') !== -1 ? loadLytx() : pauseLytx();
+};`;
+    case 'Cookiebot':
+      return `// Cookiebot fires these on load and on every change; LYTX belongs under statistics
+window.addEventListener('CookiebotOnAccept', function () {
+  window.Cookiebot.consent.statistics ? loadLytx() : pauseLytx();
+});
+window.addEventListener('CookiebotOnDecline', pauseLytx);`;
+    case 'Didomi':
+      return `// Didomi purpose for analytics; match the purpose ID configured in the Didomi console
+window.didomiOnReady = window.didomiOnReady || [];
+window.didomiOnReady.push(function (Didomi) {
+  function apply() {
+    Didomi.getUserConsentStatusForPurpose('measure_content_performance') ? loadLytx() : pauseLytx();
+  }
+  apply();
+  Didomi.on('consent.changed', apply);
+});`;
+    case 'Usercentrics':
+      return `// Add LYTX as a service named "LYTX" in the Usercentrics admin so it gets its own consent flag
+window.addEventListener('ucEvent', function (e) {
+  if (e.detail && e.detail.event === 'consent_status') e.detail['LYTX'] === true ? loadLytx() : pauseLytx();
+});`;
+    case 'Osano':
+      return `// Osano reports each consent category; LYTX belongs under ANALYTICS
+window.Osano && window.Osano.cm.addEventListener('osano-cm-consent-saved', function (consent) {
+  consent.ANALYTICS === 'ACCEPT' ? loadLytx() : pauseLytx();
+});`;
+    case 'CookieYes':
+      return `// CookieYes lists the accepted categories on every update
+document.addEventListener('cookieyes_consent_update', function (e) {
+  e.detail.accepted.indexOf('analytics') !== -1 ? loadLytx() : pauseLytx();
+});`;
+  }
+  if (tcf) {
+    return `// IAB TCF v2: purpose 8 is "measure content performance"
+window.__tcfapi && window.__tcfapi('addEventListener', 2, function (tcData, success) {
+  if (!success || (tcData.eventStatus !== 'tcloaded' && tcData.eventStatus !== 'useractioncomplete')) return;
+  tcData.purpose.consents[8] ? loadLytx() : pauseLytx();
+});`;
+  }
+  return `// Call from the banner's accept and reject handlers
+window.grantLytxConsent = loadLytx;
+window.revokeLytxConsent = pauseLytx;`;
+}
+
+/**
+ * LYTX loader that only injects the tag once consent is given. A paused tag
+ * stops sending page views via lytxApi.track_web_events; lytxApi.emit()
+ * sends the current page view when tracking resumes.
+ */
+export function buildConsentGatedTag(scriptSrc: string, domain: string, wiring: string): string {
+  return `<script>
+function loadLytx() {
+  if (window.lytxApi) {
+    window.lytxApi.track_web_events = true;
+    window.lytxApi.emit();
+    return;
+  }
+  if (document.getElementById('lytx-script')) return;
+  var script = document.createElement('script');
+  script.id = 'lytx-script';
+  script.defer = true;
+  script.src = '${scriptSrc}';
+  script.setAttribute('data-domain', '${domain.replace(/['"]/g, '')}');
+  document.head.appendChild(script);
+}
+function pauseLytx() {
+  if (window.lytxApi) window.lytxApi.track_web_events = false;
+}
+${wiring}
+</script>`;
+}
+
+/**
+ * Detect the CMP and consent model of a page and decide whether LYTX should
+ * wait for consent
+ */
+export async function detectConsent({ html, url, technologies }: { html: string; url: string; technologies: DetectedTechnology[] }): Promise<ConsentAnalysis> {
+  const traces = await collectTraces(html);
+  const platforms = technologies
+    .filter(technology => technology.category === 'consent')
+    .map(technology => technology.name);
+  const customBanner = platforms.length === 0 && COOKIE_TEXT.test(traces.bannerText) && ACCEPT_TEXT.test(traces.bannerText);
+
+  const signals: string[] = [];
+  const model = inferModel(platforms, traces, customBanner, signals);
+  const frameworks = [
+    traces.gcmDefault && 'Google Consent Mode',
+    (traces.tcf || platforms.some(platform => TCF_PLATFORMS.has(platform))) && 'IAB TCF',
+    traces.gpp && 'IAB GPP',
+    traces.usp && 'IAB USP',
+  ].filter((framework): framework is string => !!framework);
+
+  // Under opt-in every analytics tag waits; a CMP with an unknown model gets
+  // the same treatment so LYTX follows whatever policy the CMP enforces
+  const gateLytx = model === 'opt-in' || (model === 'unknown' && platforms.length > 0);
+  const cmp = platforms[0] ?? (customBanner ? 'the site\'s cookie banner' : undefined);
+
+  let guidance: string;
+  if (gateLytx) {
+    guidance = `Load LYTX only after analytics consent through ${cmp ?? 'the consent API'}: ${model === 'opt-in' ? 'the site blocks tracking until visitors opt in' : 'the CMP\'s consent model could not be read, so follow its decision'}. Wire loadLytx/pauseLytx to its callbacks.`;
+  } else if (model === 'opt-out') {
+    guidance = 'Tracking runs until visitors opt out. Load LYTX directly and pause it through lytxApi.track_web_events when the visitor opts out.';
+  } else if (model === 'notice-only') {
+    guidance = 'The banner is a notice without a reject option. LYTX events carry no personal data (GDPR/CCPA compliant), so the tag can load directly.';
+  } else {
+    guidance = 'No consent management detected. LYTX events carry no personal data (GDPR/CCPA compliant), so the tag can load directly.';
+  }
+
+  return {
+    platforms,
+    model,
+    frameworks,
+    customBanner,
+    signals,
+    gateLytx,
+    guidance,
+    integrationCode: gateLytx
+      ? cmpWiring(platforms[0], frameworks.includes('IAB TCF'))
+      : model === 'opt-out'
+        ? `// Opt-out: track from the start and pause once the visitor opts out\nloadLytx();\n${cmpWiring(platforms[0], frameworks.includes('IAB TCF'))}`
+        : undefined,
+  };
+}
+
+const LYTX_SRC = /src=["']([^"']*lytx\.io\/[^"']*)["']/;
+const LYTX_DOMAIN = /data-domain=["']([^"']*)["']/;
+
+/**
+ * Make the LYTX tag placements follow the consent decision. When the CMP has
+ * to be wired up the plain script tag is swapped for the loader.
+ */
+export function applyConsent(placements: TagPlacement[], consent: ConsentAnalysis, url: string): TagPlacement[] {
+  if (!consent.integrationCode) {
+    if (consent.model === 'none') return placements;
+    return placements.map(placement => LYTX_SRC.test(placement.code)
+      ? { ...placement, reason: `${placement.reason} Consent: ${consent.guidance}` }
+      : placement);
+  }
+
+  const wiring = consent.integrationCode;
+  const note = consent.gateLytx ? 'Gated behind consent' : 'Pauses on opt-out';
+  let gated = false;
+  const updated = placements.map(placement => {
+    const src = LYTX_SRC.exec(placement.code)?.[1];
+    if (!src) return placement;
+    gated = true;
+    const domain = LYTX_DOMAIN.exec(placement.code)?.[1] ?? inferDomainFromUrl(url);
+    return {
+      ...placement,
+      location: 'head' as const,
+      reason: `${placement.reason} ${note}: ${consent.guidance}`,
+      code: buildConsentGatedTag(src, domain, wiring),
+    };
+  });
+  if (gated) return updated;
+
+  return [{
+    location: 'head',
+    reason: `LYTX loader wired to consent. ${consent.guidance}`,
+    priority: 'high',
+    code: buildConsentGatedTag(lytxScriptSrc('YOUR_ACCOUNT_ID'), inferDomainFromUrl(url), wiring),
+  }, ...placements];
+}
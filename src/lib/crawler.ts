@@ -0,0 +1,187 @@
+import { CRAWL_USER_AGENT } from './defaults';
+import { ROBOTS_DISALLOWED_REASON } from './robots';
+
+// Decides whether a URL may be fetched; robots.txt policies implement this
+export type UrlFilter = (url: string) => boolean;
+
+const allowAll: UrlFilter = () => true;
+
+export interface CrawlQueueItem {
+  url: string;
+  depth: number;
+}
+
+/**
+ * Persisted breadth-first crawl state. Lives in the SessionAnalysisManager's
+ * Durable Object storage so a crawl can be resumed from an alarm.
+ */
+export interface CrawlState {
+  origin: string;
+  maxPages: number;
+  maxDepth: number;
+  queue: CrawlQueueItem[];
+  // Every URL we have seen, in discovery order (dedup + analysis list)
+  discovered: string[];
+  // URLs whose HTML has already been fetched for link extraction
+  fetched: string[];
+  // URLs found but excluded from the crawl, e.g. by robots.txt
+  skipped: SkippedUrl[];
+  startedAt: string;
+}
+
+export interface SkippedUrl {
+  url: string;
+  reason: string;
+}
+
+export interface CrawlStepResult {
+  url: string;
+  depth: number;
+  newUrls: string[];
+  error?: string;
+}
+
+const SKIPPED_EXTENSIONS = /\.(png|jpg|jpeg|gif|svg|webp|ico|css|js|json|xml|txt|pdf|zip|rar|7z|gz|mp4|mp3|webm|woff2?|ttf)(\?.*)?$/i;
+
+/**
+ * Normalize a URL for dedup: drop the hash, lowercase the host and strip a
+ * trailing slash from non-root paths.
+ */
+export function normalizeCrawlUrl(raw: string, base?: string | URL): string | null {
+  try {
+    const url = new URL(raw, base);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+    url.hash = '';
+    url.hostname = url.hostname.toLowerCase();
+    if (url.pathname.length > 1 && url.pathname.endsWith('/')) {
+      url.pathname = url.pathname.replace(/\/+$/, '');
+    }
+    return url.toString();
+  } catch {
+    return null;
+  }
+}
+
+export function extractInternalLinks(html: string, baseUrl: string, limit: number = Infinity): string[] {
+  const base = new URL(baseUrl);
+  const hrefs = new Set<string>();
+
+  // Find anchor hrefs
+  const anchorRegex = /<a\s+[^>]*href=["']([^"'#]+)["'][^>]*>/gi;
+  let match: RegExpExecArray | null;
+  while ((match = anchorRegex.exec(html)) && hrefs.size < limit) {
+    const raw = match[1].trim();
+    if (!raw || raw.startsWith('mailto:') || raw.startsWith('tel:') || raw.startsWith('javascript:')) continue;
+
+    const normalized = normalizeCrawlUrl(raw, base);
+    if (!normalized) continue;
+
+    const url = new URL(normalized);
+    // Same origin only
+    if (url.origin !== base.origin) continue;
+    // Skip files (images, assets, docs)
+    if (SKIPPED_EXTENSIONS.test(url.pathname)) continue;
+
+    hrefs.add(normalized);
+  }
+
+  return Array.from(hrefs);
+}
+
+/**
+ * Seed URLs (e.g. from a sitemap) are added to the analysis list up front.
+ * With `expandLinks` off the frontier starts empty, so only the start URL and
+ * the seeds are analyzed. URLs rejected by `isAllowed` are recorded as skipped.
+ */
+export function createCrawlState(
+  startUrl: string,
+  maxPages: number,
+  maxDepth: number,
+  seeds: string[] = [],
+  expandLinks: boolean = true,
+  isAllowed: UrlFilter = allowAll
+): CrawlState {
+  const normalized = normalizeCrawlUrl(startUrl) ?? startUrl;
+  const candidates = Array.from(new Set([normalized, ...seeds]));
+  const discovered = candidates.filter(url => isAllowed(url)).slice(0, maxPages);
+  const skipped = candidates
+    .filter(url => !isAllowed(url))
+    .map(url => ({ url, reason: ROBOTS_DISALLOWED_REASON }));
+
+  return {
+    origin: new URL(normalized).origin,
+    maxPages,
+    maxDepth,
+    queue: expandLinks && isAllowed(normalized) ? [{ url: normalized, depth: 0 }] : [],
+    discovered,
+    fetched: [],
+    skipped,
+    startedAt: new Date().toISOString(),
+  };
+}
+
+export function isCrawlComplete(state: CrawlState): boolean {
+  return state.queue.length === 0 || state.discovered.length >= state.maxPages;
+}
+
+/**
+ * Pop the next URL off the frontier, fetch it and enqueue any unseen
+ * same-origin links that pass `isAllowed`. Mutates `state`; the caller is
+ * responsible for persisting it.
+ */
+export async function crawlNext(state: CrawlState, isAllowed: UrlFilter = allowAll): Promise<CrawlStepResult | null> {
+  const next = state.queue.shift();
+  if (!next) return null;
+
+  const result: CrawlStepResult = { url: next.url, depth: next.depth, newUrls: [] };
+  if (state.fetched.includes(next.url)) return result;
+  state.fetched.push(next.url);
+
+  try {
+    const response = await fetch(next.url, {
+      method: 'GET',
+      headers: {
+        'Accept': 'text/html,application/xhtml+xml',
+        'User-Agent': CRAWL_USER_AGENT
+      }
+    });
+
+    if (!response.ok) {
+      result.error = `HTTP ${response.status}`;
+      return result;
+    }
+
+    const contentType = response.headers.get('content-type') || '';
+    if (contentType && !contentType.includes('html')) {
+      result.error = `Skipped non-HTML content (${contentType})`;
+      return result;
+    }
+
+    const html = await response.text();
+    // Resolve relative links against the final URL after redirects
+    const links = extractInternalLinks(html, response.url || next.url);
+    const seen = new Set([...state.discovered, ...state.skipped.map(entry => entry.url)]);
+
+    for (const link of links) {
+      if (state.discovered.length >= state.maxPages) break;
+      if (new URL(link).origin !== state.origin || seen.has(link)) continue;
+
+      seen.add(link);
+      if (!isAllowed(link)) {
+        state.skipped.push({ url: link, reason: ROBOTS_DISALLOWED_REASON });
+        continue;
+      }
+      state.discovered.push(link);
+      result.newUrls.push(link);
+
+      // Pages at maxDepth are analyzed but never expanded
+      if (next.depth + 1 < state.maxDepth) {
+        state.queue.push({ url: link, depth: next.depth + 1 });
+      }
+    }
+  } catch (error) {
+    result.error = error instanceof Error ? error.message : String(error);
+  }
+
+  return result;
+}
@@ -1,21 +1,373 @@
 import { drizzle } from 'drizzle-orm/d1';
-import { desc } from 'drizzle-orm';
+import { and, asc, count, desc, eq, getTableColumns, gte, like, lte, sql, type InferInsertModel, type InferSelectModel, type SQL } from 'drizzle-orm';
+import type { BatchItem } from 'drizzle-orm/batch';
 import { env } from 'cloudflare:workers';
-import { searches } from './schema';
+import { searches, sessions, pages, pageAnalyses, tagPlacements, trackingEvents, optimizations, schedules, scheduleAlerts, promptSettings } from './schema';
+import type { SessionData } from '@/api/session';
+import type { SiteAnalysisResult } from '@/lib/types';
+import type { ValidatedTrackingEvent } from '@/lib/event-validator';
+import type { LlmUsage } from '@/lib/llm-usage';
+import type { SiteSummary } from '@/lib/site-summary';
+import { inferDomainFromUrl } from '@vendors/lytx';
 
 export function getDb() {
   return drizzle(env.SITE_PLANNER_DB);
 }
 
-export { searches };
+export { searches, sessions, pages, pageAnalyses, tagPlacements, trackingEvents, optimizations, schedules, scheduleAlerts, promptSettings };
 export type { InferSelectModel, InferInsertModel } from 'drizzle-orm';
 
 // Type helpers
 export type Search = InferSelectModel<typeof searches>;
 export type NewSearch = InferInsertModel<typeof searches>;
+export type SessionRecord = InferSelectModel<typeof sessions>;
+export type PageRecord = InferSelectModel<typeof pages>;
+export type PageAnalysisRecord = InferSelectModel<typeof pageAnalyses>;
+export type ScheduleRecord = InferSelectModel<typeof schedules>;
+export type NewScheduleRecord = InferInsertModel<typeof schedules>;
+export type ScheduleAlertRecord = InferSelectModel<typeof scheduleAlerts>;
 
 // Query helpers
 export async function getRecentSearches(limit = 10): Promise<Search[]> {
   const db = getDb();
   return await db.select().from(searches).orderBy(desc(searches.createdAt)).limit(limit);
-}
\ No newline at end of file
+}
+
+// Persistence helpers. D1 is the durable record of an analysis; a failed write
+// is logged but never fails the analysis itself, since KV still has the session.
+
+/**
+ * Record a direct HTML analysis and the model usage it cost
+ */
+export async function saveSearch(url: string, result: SiteAnalysisResult & { usage?: LlmUsage }): Promise<void> {
+  try {
+    const db = getDb();
+    await db.insert(searches).values({
+      id: result.analysisId,
+      url,
+      llmModel: result.usage ? `${result.usage.provider}:${result.usage.model}` : null,
+      inputTokens: result.usage?.inputTokens ?? null,
+      outputTokens: result.usage?.outputTokens ?? null,
+      costUsd: result.usage?.estimatedCostUsd ?? null,
+      analyzedAt: result.timestamp,
+    });
+  } catch (dbErr) {
+    console.warn('Failed to persist search:', dbErr);
+  }
+}
+
+/**
+ * Insert (or refresh) the row for a session
+ */
+export async function saveSession(sessionData: SessionData): Promise<void> {
+  try {
+    const { id, url, status, crawl, maxPages, parentSessionId, scheduleId, error, createdAt, updatedAt, results: _results, progress: _progress, usage: _usage, siteSummary: _siteSummary, ...options } = sessionData;
+    const db = getDb();
+    await db.insert(sessions).values({
+      id,
+      url,
+      domain: inferDomainFromUrl(url),
+      status,
+      crawl,
+      maxPages,
+      parentSessionId,
+      scheduleId,
+      options,
+      error,
+      createdAt,
+      updatedAt,
+    }).onConflictDoUpdate({
+      target: sessions.id,
+      set: { status, error, updatedAt },
+    });
+  } catch (dbErr) {
+    console.warn(`Failed to persist session ${sessionData.id}:`, dbErr);
+  }
+}
+
+export async function saveSiteSummary(sessionId: string, siteSummary: SiteSummary): Promise<void> {
+  try {
+    const db = getDb();
+    await db.update(sessions).set({ siteSummary }).where(eq(sessions.id, sessionId));
+  } catch (dbErr) {
+    console.warn(`Failed to persist site summary for session ${sessionId}:`, dbErr);
+  }
+}
+
+export async function updateSessionStatus(sessionId: string, status: SessionData['status'], error?: string): Promise<void> {
+  try {
+    const now = new Date().toISOString();
+    const db = getDb();
+    await db.update(sessions).set({
+      status,
+      error: error ?? null,
+      updatedAt: now,
+      completedAt: status === 'completed' || status === 'error' ? now : null,
+    }).where(eq(sessions.id, sessionId));
+  } catch (dbErr) {
+    console.warn(`Failed to persist status for session ${sessionId}:`, dbErr);
+  }
+}
+
+function pageId(sessionId: string, url: string) {
+  return `${sessionId}:${url}`;
+}
+
+/**
+ * Persist one page's analysis with its tag placements, tracking events and
+ * optimizations. Re-analyzing a URL in the same session replaces its rows.
+ */
+export async function savePageAnalysis(sessionId: string, url: string, result: SiteAnalysisResult & { usage?: LlmUsage }): Promise<void> {
+  try {
+    const db = getDb();
+    const id = pageId(sessionId, url);
+    const { pageAnalysis, lytxRecommendations } = result;
+
+    const statements: BatchItem<'sqlite'>[] = [
+      db.delete(pages).where(and(eq(pages.sessionId, sessionId), eq(pages.url, url))),
+      db.insert(pages).values({ id, sessionId, url, status: 'completed' }),
+      db.insert(pageAnalyses).values({
+        id: result.analysisId,
+        pageId: id,
+        sessionId,
+        title: pageAnalysis.title,
+        description: pageAnalysis.description,
+        keyContent: pageAnalysis.keyContent,
+        headings: pageAnalysis.headings,
+        framework: pageAnalysis.technicalStack.framework,
+        cms: pageAnalysis.technicalStack.cms,
+        analytics: pageAnalysis.technicalStack.analytics,
+        hasMetaTitle: pageAnalysis.seoMetrics.hasMetaTitle,
+        hasMetaDescription: pageAnalysis.seoMetrics.hasMetaDescription,
+        hasStructuredData: pageAnalysis.seoMetrics.hasStructuredData,
+        imageCount: pageAnalysis.seoMetrics.imageCount,
+        linkCount: pageAnalysis.seoMetrics.linkCount,
+        lytxDetected: pageAnalysis.technicalStack.analytics.includes('LYTX') || !!result.detectedLytxAccount,
+        detectedLytxAccount: result.detectedLytxAccount ?? null,
+        pageType: pageAnalysis.pageType ?? null,
+        promptVersion: result.promptVersion ?? null,
+        llmModel: result.usage ? `${result.usage.provider}:${result.usage.model}` : null,
+        inputTokens: result.usage?.inputTokens ?? null,
+        outputTokens: result.usage?.outputTokens ?? null,
+        costUsd: result.usage?.estimatedCostUsd ?? null,
+        rawResult: result,
+        analyzedAt: result.timestamp,
+      }),
+    ];
+
+    if (lytxRecommendations.tagPlacements.length > 0) {
+      statements.push(db.insert(tagPlacements).values(
+        lytxRecommendations.tagPlacements.map(placement => ({ analysisId: result.analysisId, ...placement }))
+      ));
+    }
+    if (lytxRecommendations.trackingEvents.length > 0) {
+      statements.push(db.insert(trackingEvents).values(
+        lytxRecommendations.trackingEvents.map(({ validation, ...event }: ValidatedTrackingEvent) => ({
+          analysisId: result.analysisId,
+          ...event,
+          validationStatus: validation?.status ?? null,
+        }))
+      ));
+    }
+    if (lytxRecommendations.optimizations.length > 0) {
+      statements.push(db.insert(optimizations).values(
+        lytxRecommendations.optimizations.map(optimization => ({ analysisId: result.analysisId, ...optimization }))
+      ));
+    }
+
+    await db.batch(statements as [BatchItem<'sqlite'>, ...BatchItem<'sqlite'>[]]);
+  } catch (dbErr) {
+    console.warn(`Failed to persist analysis for ${url} in session ${sessionId}:`, dbErr);
+  }
+}
+
+/**
+ * Record a page whose analysis failed
+ */
+export async function savePageFailure(sessionId: string, url: string, error: string): Promise<void> {
+  try {
+    const db = getDb();
+    await db.batch([
+      db.delete(pages).where(and(eq(pages.sessionId, sessionId), eq(pages.url, url))),
+      db.insert(pages).values({ id: pageId(sessionId, url), sessionId, url, status: 'failed', error }),
+    ]);
+  } catch (dbErr) {
+    console.warn(`Failed to persist failure for ${url} in session ${sessionId}:`, dbErr);
+  }
+}
+
+export interface SessionListFilters {
+  domain?: string;
+  // ISO dates, inclusive
+  from?: string;
+  to?: string;
+  status?: SessionRecord['status'];
+  cms?: string;
+  framework?: string;
+  lytxDetected?: boolean;
+  scheduleId?: string;
+  page?: number;
+  pageSize?: number;
+}
+
+export type SessionSummary = SessionRecord & {
+  pageCount: number;
+  lytxDetected: boolean;
+  cms: string[];
+  frameworks: string[];
+};
+
+/**
+ * Page through past sessions, newest first, with per-session rollups of what
+ * was detected across their analyzed pages
+ */
+export async function listSessions(filters: SessionListFilters = {}): Promise<{ sessions: SessionSummary[]; total: number }> {
+  const db = getDb();
+  const page = Math.max(filters.page ?? 1, 1);
+  const pageSize = Math.min(Math.max(filters.pageSize ?? 20, 1), 100);
+
+  const conditions: SQL[] = [];
+  if (filters.domain) conditions.push(like(sessions.domain, `%${filters.domain.toLowerCase()}%`));
+  if (filters.from) conditions.push(gte(sessions.createdAt, filters.from));
+  // A bare date for `to` should include the whole day
+  if (filters.to) conditions.push(lte(sessions.createdAt, filters.to.length === 10 ? `${filters.to}T23:59:59.999Z` : filters.to));
+  if (filters.status) conditions.push(eq(sessions.status, filters.status));
+  if (filters.scheduleId) conditions.push(eq(sessions.scheduleId, filters.scheduleId));
+  if (filters.cms) {
+    conditions.push(sql`exists (select 1 from ${pageAnalyses} where ${pageAnalyses.sessionId} = ${sessions.id} and ${pageAnalyses.cms} like ${`%${filters.cms}%`})`);
+  }
+  if (filters.framework) {
+    conditions.push(sql`exists (select 1 from ${pageAnalyses} where ${pageAnalyses.sessionId} = ${sessions.id} and ${pageAnalyses.framework} like ${`%${filters.framework}%`})`);
+  }
+  if (filters.lytxDetected !== undefined) {
+    const detected = sql`exists (select 1 from ${pageAnalyses} where ${pageAnalyses.sessionId} = ${sessions.id} and ${pageAnalyses.lytxDetected} = 1)`;
+    conditions.push(filters.lytxDetected ? detected : sql`not ${detected}`);
+  }
+  const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+  const [rows, [{ total }]] = await Promise.all([
+    db.select({
+      ...getTableColumns(sessions),
+      pageCount: sql<number>`(select count(*) from ${pages} where ${pages.sessionId} = ${sessions.id})`,
+      lytxDetected: sql<number>`exists (select 1 from ${pageAnalyses} where ${pageAnalyses.sessionId} = ${sessions.id} and ${pageAnalyses.lytxDetected} = 1)`,
+      cms: sql<string | null>`(select group_concat(distinct ${pageAnalyses.cms}) from ${pageAnalyses} where ${pageAnalyses.sessionId} = ${sessions.id})`,
+      frameworks: sql<string | null>`(select group_concat(distinct ${pageAnalyses.framework}) from ${pageAnalyses} where ${pageAnalyses.sessionId} = ${sessions.id})`,
+    })
+      .from(sessions)
+      .where(where)
+      .orderBy(desc(sessions.createdAt))
+      .limit(pageSize)
+      .offset((page - 1) * pageSize),
+    db.select({ total: count() }).from(sessions).where(where),
+  ]);
+
+  return {
+    sessions: rows.map(row => ({
+      ...row,
+      lytxDetected: !!row.lytxDetected,
+      cms: row.cms ? row.cms.split(',') : [],
+      frameworks: row.frameworks ? row.frameworks.split(',') : [],
+    })),
+    total,
+  };
+}
+
+// Scheduled audits. Unlike the persistence helpers above these back API
+// endpoints directly, so errors propagate to the caller.
+
+export async function createSchedule(values: NewScheduleRecord): Promise<ScheduleRecord> {
+  const db = getDb();
+  const [schedule] = await db.insert(schedules).values(values).returning();
+  return schedule;
+}
+
+export async function getSchedule(id: string): Promise<ScheduleRecord | null> {
+  const db = getDb();
+  const [schedule] = await db.select().from(schedules).where(eq(schedules.id, id)).limit(1);
+  return schedule ?? null;
+}
+
+export async function listSchedules(): Promise<(ScheduleRecord & { alertCount: number })[]> {
+  const db = getDb();
+  return await db.select({
+    ...getTableColumns(schedules),
+    alertCount: sql<number>`(select count(*) from ${scheduleAlerts} where ${scheduleAlerts.scheduleId} = ${schedules.id})`,
+  }).from(schedules).orderBy(asc(schedules.domain));
+}
+
+export async function updateSchedule(id: string, updates: Partial<Pick<ScheduleRecord, 'cadence' | 'options' | 'enabled' | 'nextRunAt' | 'lastRunAt' | 'lastSessionId'>>): Promise<ScheduleRecord | null> {
+  const db = getDb();
+  const [schedule] = await db.update(schedules)
+    .set({ ...updates, updatedAt: new Date().toISOString() })
+    .where(eq(schedules.id, id))
+    .returning();
+  return schedule ?? null;
+}
+
+export async function deleteSchedule(id: string): Promise<boolean> {
+  const db = getDb();
+  const deleted = await db.delete(schedules).where(eq(schedules.id, id)).returning({ id: schedules.id });
+  return deleted.length > 0;
+}
+
+/**
+ * Enabled schedules whose next run is at or before `now`
+ */
+export async function getDueSchedules(now: Date): Promise<ScheduleRecord[]> {
+  const db = getDb();
+  return await db.select().from(schedules)
+    .where(and(eq(schedules.enabled, true), lte(schedules.nextRunAt, now.toISOString())))
+    .orderBy(asc(schedules.nextRunAt));
+}
+
+export async function saveScheduleAlert(alert: Omit<ScheduleAlertRecord, 'id' | 'createdAt'>): Promise<void> {
+  try {
+    const db = getDb();
+    await db.insert(scheduleAlerts).values(alert);
+  } catch (dbErr) {
+    console.warn(`Failed to persist alert for schedule ${alert.scheduleId}:`, dbErr);
+  }
+}
+
+export async function getScheduleAlerts(scheduleId: string, limit = 50): Promise<ScheduleAlertRecord[]> {
+  const db = getDb();
+  return await db.select().from(scheduleAlerts)
+    .where(eq(scheduleAlerts.scheduleId, scheduleId))
+    .orderBy(desc(scheduleAlerts.createdAt))
+    .limit(limit);
+}
+
+/**
+ * Activated prompt version per template name. Names never activated are
+ * absent and use the default template.
+ */
+export async function getActivePromptVersions(): Promise<Record<string, string>> {
+  const db = getDb();
+  const rows = await db.select().from(promptSettings);
+  return Object.fromEntries(rows.map(row => [row.name, row.activeVersion]));
+}
+
+export async function setActivePromptVersion(name: string, version: string): Promise<void> {
+  const db = getDb();
+  const updatedAt = new Date().toISOString();
+  await db.insert(promptSettings)
+    .values({ name, activeVersion: version, updatedAt })
+    .onConflictDoUpdate({ target: promptSettings.name, set: { activeVersion: version, updatedAt } });
+}
+
+/**
+ * Estimated model spend of every analysis since `since` (ISO timestamp):
+ * session pages plus direct HTML analyses
+ */
+export async function getLlmSpendSince(since: string): Promise<number> {
+  const db = getDb();
+  const [[pageRow], [searchRow]] = await db.batch([
+    db.select({ total: sql<number>`coalesce(sum(${pageAnalyses.costUsd}), 0)` })
+      .from(pageAnalyses)
+      .where(gte(pageAnalyses.analyzedAt, since)),
+    db.select({ total: sql<number>`coalesce(sum(${searches.costUsd}), 0)` })
+      .from(searches)
+      .where(gte(searches.analyzedAt, since)),
+  ]);
+  return (pageRow?.total ?? 0) + (searchRow?.total ?? 0);
+}
@@ -0,0 +1,85 @@
+CREATE TABLE `optimizations` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`analysis_id` text NOT NULL,
+	`category` text NOT NULL,
+	`suggestion` text NOT NULL,
+	`impact` text NOT NULL,
+	FOREIGN KEY (`analysis_id`) REFERENCES `page_analyses`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `optimizations_analysis_idx` ON `optimizations` (`analysis_id`);--> statement-breakpoint
+CREATE TABLE `page_analyses` (
+	`id` text PRIMARY KEY NOT NULL,
+	`page_id` text NOT NULL,
+	`session_id` text NOT NULL,
+	`title` text NOT NULL,
+	`description` text,
+	`key_content` text NOT NULL,
+	`headings` text NOT NULL,
+	`framework` text,
+	`cms` text,
+	`analytics` text NOT NULL,
+	`has_meta_title` integer NOT NULL,
+	`has_meta_description` integer NOT NULL,
+	`has_structured_data` integer NOT NULL,
+	`image_count` integer NOT NULL,
+	`link_count` integer NOT NULL,
+	`lytx_detected` integer NOT NULL,
+	`detected_lytx_account` text,
+	`raw_result` text NOT NULL,
+	`analyzed_at` text NOT NULL,
+	FOREIGN KEY (`page_id`) REFERENCES `pages`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`session_id`) REFERENCES `sessions`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `page_analyses_session_idx` ON `page_analyses` (`session_id`);--> statement-breakpoint
+CREATE TABLE `pages` (
+	`id` text PRIMARY KEY NOT NULL,
+	`session_id` text NOT NULL,
+	`url` text NOT NULL,
+	`status` text NOT NULL,
+	`error` text,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	FOREIGN KEY (`session_id`) REFERENCES `sessions`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `pages_session_url_idx` ON `pages` (`session_id`,`url`);--> statement-breakpoint
+CREATE TABLE `sessions` (
+	`id` text PRIMARY KEY NOT NULL,
+	`url` text NOT NULL,
+	`domain` text NOT NULL,
+	`status` text NOT NULL,
+	`crawl` integer NOT NULL,
+	`max_pages` integer NOT NULL,
+	`options` text,
+	`error` text,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	`updated_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	`completed_at` text
+);
+--> statement-breakpoint
+CREATE INDEX `sessions_domain_idx` ON `sessions` (`domain`);--> statement-breakpoint
+CREATE INDEX `sessions_created_at_idx` ON `sessions` (`created_at`);--> statement-breakpoint
+CREATE TABLE `tag_placements` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`analysis_id` text NOT NULL,
+	`location` text NOT NULL,
+	`reason` text NOT NULL,
+	`priority` text NOT NULL,
+	`code` text NOT NULL,
+	FOREIGN KEY (`analysis_id`) REFERENCES `page_analyses`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `tag_placements_analysis_idx` ON `tag_placements` (`analysis_id`);--> statement-breakpoint
+CREATE TABLE `tracking_events` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`analysis_id` text NOT NULL,
+	`event` text NOT NULL,
+	`trigger` text NOT NULL,
+	`implementation` text NOT NULL,
+	`conversion_impact` text,
+	`conversion_reason` text,
+	FOREIGN KEY (`analysis_id`) REFERENCES `page_analyses`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `tracking_events_analysis_idx` ON `tracking_events` (`analysis_id`);
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `sessions` ADD `parent_session_id` text;--> statement-breakpoint
+CREATE INDEX `sessions_parent_idx` ON `sessions` (`parent_session_id`);
\ No newline at end of file
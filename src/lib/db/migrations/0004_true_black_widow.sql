@@ -0,0 +1,29 @@
+CREATE TABLE `schedule_alerts` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`schedule_id` text NOT NULL,
+	`session_id` text NOT NULL,
+	`kind` text NOT NULL,
+	`message` text NOT NULL,
+	`urls` text NOT NULL,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	FOREIGN KEY (`schedule_id`) REFERENCES `schedules`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `schedule_alerts_schedule_idx` ON `schedule_alerts` (`schedule_id`);--> statement-breakpoint
+CREATE TABLE `schedules` (
+	`id` text PRIMARY KEY NOT NULL,
+	`url` text NOT NULL,
+	`domain` text NOT NULL,
+	`cadence` text NOT NULL,
+	`options` text NOT NULL,
+	`enabled` integer DEFAULT true NOT NULL,
+	`next_run_at` text NOT NULL,
+	`last_run_at` text,
+	`last_session_id` text,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	`updated_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `schedules_next_run_idx` ON `schedules` (`enabled`,`next_run_at`);--> statement-breakpoint
+ALTER TABLE `sessions` ADD `schedule_id` text;--> statement-breakpoint
+CREATE INDEX `sessions_schedule_idx` ON `sessions` (`schedule_id`);
\ No newline at end of file
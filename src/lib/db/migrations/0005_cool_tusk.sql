@@ -0,0 +1 @@
+ALTER TABLE `tracking_events` ADD `validation_status` text;
\ No newline at end of file
@@ -0,0 +1,7 @@
+CREATE TABLE `prompt_settings` (
+	`name` text PRIMARY KEY NOT NULL,
+	`active_version` text NOT NULL,
+	`updated_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE `page_analyses` ADD `prompt_version` text;
\ No newline at end of file
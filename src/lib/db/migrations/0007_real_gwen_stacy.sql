@@ -0,0 +1,5 @@
+ALTER TABLE `page_analyses` ADD `llm_model` text;--> statement-breakpoint
+ALTER TABLE `page_analyses` ADD `input_tokens` integer;--> statement-breakpoint
+ALTER TABLE `page_analyses` ADD `output_tokens` integer;--> statement-breakpoint
+ALTER TABLE `page_analyses` ADD `cost_usd` real;--> statement-breakpoint
+CREATE INDEX `page_analyses_analyzed_at_idx` ON `page_analyses` (`analyzed_at`);
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `sessions` ADD `site_summary` text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `page_analyses` ADD `page_type` text;
\ No newline at end of file
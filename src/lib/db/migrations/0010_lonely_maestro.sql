@@ -0,0 +1,6 @@
+ALTER TABLE `searches` ADD `llm_model` text;--> statement-breakpoint
+ALTER TABLE `searches` ADD `input_tokens` integer;--> statement-breakpoint
+ALTER TABLE `searches` ADD `output_tokens` integer;--> statement-breakpoint
+ALTER TABLE `searches` ADD `cost_usd` real;--> statement-breakpoint
+ALTER TABLE `searches` ADD `analyzed_at` text;--> statement-breakpoint
+CREATE INDEX `searches_analyzed_at_idx` ON `searches` (`analyzed_at`);
\ No newline at end of file
@@ -1,8 +1,166 @@
-import { sqliteTable, text } from 'drizzle-orm/sqlite-core';
+import { sqliteTable, text, integer, real, index, uniqueIndex } from 'drizzle-orm/sqlite-core';
 import { sql } from 'drizzle-orm';
+import type { SiteSummary } from '../site-summary';
 
+// One row per /api/analyze-html call
 export const searches = sqliteTable('searches', {
   id: text('id').primaryKey(),
   url: text('url').notNull(),
   createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`),
+  // Model usage, counted towards the daily budget like page analyses
+  llmModel: text('llm_model'),
+  inputTokens: integer('input_tokens'),
+  outputTokens: integer('output_tokens'),
+  costUsd: real('cost_usd'),
+  analyzedAt: text('analyzed_at'),
+}, (table) => [
+  index('searches_analyzed_at_idx').on(table.analyzedAt),
+]);
+
+// One row per analysis session; mirrors SessionData minus the results
+export const sessions = sqliteTable('sessions', {
+  id: text('id').primaryKey(),
+  url: text('url').notNull(),
+  domain: text('domain').notNull(),
+  status: text('status', { enum: ['pending', 'crawling', 'analyzing', 'completed', 'error'] }).notNull(),
+  crawl: integer('crawl', { mode: 'boolean' }).notNull(),
+  maxPages: integer('max_pages').notNull(),
+  // The session this one re-analyzes, if any
+  parentSessionId: text('parent_session_id'),
+  // The scheduled audit that started this session, if any
+  scheduleId: text('schedule_id'),
+  // Remaining NewSessionRequest options (puppeteer, discovery mode, instructions...)
+  options: text('options', { mode: 'json' }).$type<Record<string, unknown>>(),
+  // SiteSummary from the end of the session
+  siteSummary: text('site_summary', { mode: 'json' }).$type<SiteSummary>(),
+  error: text('error'),
+  createdAt: text('created_at').notNull().default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: text('updated_at').notNull().default(sql`CURRENT_TIMESTAMP`),
+  completedAt: text('completed_at'),
+}, (table) => [
+  index('sessions_domain_idx').on(table.domain),
+  index('sessions_created_at_idx').on(table.createdAt),
+  index('sessions_parent_idx').on(table.parentSessionId),
+  index('sessions_schedule_idx').on(table.scheduleId),
+]);
+
+// Every URL analyzed within a session, whether it succeeded or not
+export const pages = sqliteTable('pages', {
+  id: text('id').primaryKey(),
+  sessionId: text('session_id').notNull().references(() => sessions.id, { onDelete: 'cascade' }),
+  url: text('url').notNull(),
+  status: text('status', { enum: ['completed', 'failed'] }).notNull(),
+  error: text('error'),
+  createdAt: text('created_at').notNull().default(sql`CURRENT_TIMESTAMP`),
+}, (table) => [
+  uniqueIndex('pages_session_url_idx').on(table.sessionId, table.url),
+]);
+
+export const pageAnalyses = sqliteTable('page_analyses', {
+  // The analysisId from SiteAnalysisResult
+  id: text('id').primaryKey(),
+  pageId: text('page_id').notNull().references(() => pages.id, { onDelete: 'cascade' }),
+  sessionId: text('session_id').notNull().references(() => sessions.id, { onDelete: 'cascade' }),
+  title: text('title').notNull(),
+  description: text('description'),
+  keyContent: text('key_content').notNull(),
+  headings: text('headings', { mode: 'json' }).$type<{ level: number; text: string }[]>().notNull(),
+  framework: text('framework'),
+  cms: text('cms'),
+  analytics: text('analytics', { mode: 'json' }).$type<string[]>().notNull(),
+  hasMetaTitle: integer('has_meta_title', { mode: 'boolean' }).notNull(),
+  hasMetaDescription: integer('has_meta_description', { mode: 'boolean' }).notNull(),
+  hasStructuredData: integer('has_structured_data', { mode: 'boolean' }).notNull(),
+  imageCount: integer('image_count').notNull(),
+  linkCount: integer('link_count').notNull(),
+  lytxDetected: integer('lytx_detected', { mode: 'boolean' }).notNull(),
+  detectedLytxAccount: text('detected_lytx_account'),
+  // home, product, checkout, ... from the page classifier
+  pageType: text('page_type'),
+  // name@version of the prompt template that produced this analysis
+  promptVersion: text('prompt_version'),
+  // Model usage for this analysis; cost is null when the model has no known price
+  llmModel: text('llm_model'),
+  inputTokens: integer('input_tokens'),
+  outputTokens: integer('output_tokens'),
+  costUsd: real('cost_usd'),
+  // Full SiteAnalysisResult as returned, for fields not broken out into columns
+  rawResult: text('raw_result', { mode: 'json' }).notNull(),
+  analyzedAt: text('analyzed_at').notNull(),
+}, (table) => [
+  index('page_analyses_session_idx').on(table.sessionId),
+  index('page_analyses_analyzed_at_idx').on(table.analyzedAt),
+]);
+
+export const tagPlacements = sqliteTable('tag_placements', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  analysisId: text('analysis_id').notNull().references(() => pageAnalyses.id, { onDelete: 'cascade' }),
+  location: text('location', { enum: ['head', 'body_start', 'body_end', 'after_content'] }).notNull(),
+  reason: text('reason').notNull(),
+  priority: text('priority', { enum: ['high', 'medium', 'low'] }).notNull(),
+  code: text('code').notNull(),
+}, (table) => [
+  index('tag_placements_analysis_idx').on(table.analysisId),
+]);
+
+export const trackingEvents = sqliteTable('tracking_events', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  analysisId: text('analysis_id').notNull().references(() => pageAnalyses.id, { onDelete: 'cascade' }),
+  event: text('event').notNull(),
+  trigger: text('trigger').notNull(),
+  implementation: text('implementation').notNull(),
+  conversionImpact: text('conversion_impact', { enum: ['high', 'medium', 'low'] }),
+  conversionReason: text('conversion_reason'),
+  // Set when the event was simulated in a browser (validateEvents)
+  validationStatus: text('validation_status', { enum: ['verified', 'unverified'] }),
+}, (table) => [
+  index('tracking_events_analysis_idx').on(table.analysisId),
+]);
+
+export const optimizations = sqliteTable('optimizations', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  analysisId: text('analysis_id').notNull().references(() => pageAnalyses.id, { onDelete: 'cascade' }),
+  category: text('category', { enum: ['performance', 'user_experience', 'conversion'] }).notNull(),
+  suggestion: text('suggestion').notNull(),
+  impact: text('impact', { enum: ['high', 'medium', 'low'] }).notNull(),
+}, (table) => [
+  index('optimizations_analysis_idx').on(table.analysisId),
+]);
+
+// Recurring audits, started by the cron trigger in worker.tsx
+export const schedules = sqliteTable('schedules', {
+  id: text('id').primaryKey(),
+  url: text('url').notNull(),
+  domain: text('domain').notNull(),
+  cadence: text('cadence', { enum: ['daily', 'weekly', 'monthly'] }).notNull(),
+  // NewSessionRequest minus the url
+  options: text('options', { mode: 'json' }).$type<Record<string, unknown>>().notNull(),
+  enabled: integer('enabled', { mode: 'boolean' }).notNull().default(true),
+  nextRunAt: text('next_run_at').notNull(),
+  lastRunAt: text('last_run_at'),
+  lastSessionId: text('last_session_id'),
+  createdAt: text('created_at').notNull().default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: text('updated_at').notNull().default(sql`CURRENT_TIMESTAMP`),
+}, (table) => [
+  index('schedules_next_run_idx').on(table.enabled, table.nextRunAt),
+]);
+
+export const scheduleAlerts = sqliteTable('schedule_alerts', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  scheduleId: text('schedule_id').notNull().references(() => schedules.id, { onDelete: 'cascade' }),
+  sessionId: text('session_id').notNull(),
+  kind: text('kind', { enum: ['lytx_removed'] }).notNull(),
+  message: text('message').notNull(),
+  // Pages the alert applies to
+  urls: text('urls', { mode: 'json' }).$type<string[]>().notNull(),
+  createdAt: text('created_at').notNull().default(sql`CURRENT_TIMESTAMP`),
+}, (table) => [
+  index('schedule_alerts_schedule_idx').on(table.scheduleId),
+]);
+
+// Active version per prompt template name; see src/lib/prompts.ts
+export const promptSettings = sqliteTable('prompt_settings', {
+  name: text('name').primaryKey(),
+  activeVersion: text('active_version').notNull(),
+  updatedAt: text('updated_at').notNull().default(sql`CURRENT_TIMESTAMP`),
 });
@@ -1,3 +1,31 @@
 export const DEFAULT_MAX_PAGES = 200 as const;
+export const DEFAULT_MAX_CRAWL_DEPTH = 3 as const;
+export const MAX_CRAWL_DEPTH = 10 as const;
 export const DEFAULT_MODEL = 'gpt-5-mini' as const;
 export const SESSION_TTL = 60 * 60 * 24 * 7; // 7 days
+// KV allows about one write per second to a key; session snapshots are coalesced to this
+export const SNAPSHOT_MIN_INTERVAL_MS = 1000;
+// Crawl or analysis work done per DO invocation before handing off to an alarm
+export const CRAWL_TIME_SLICE_MS = 2 * 60 * 1000; // 2 minutes
+export const CRAWL_USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/114.0.0.0 Safari/537.36';
+// Upper bounds for sitemap discovery so huge sitemap indexes can't stall a session
+export const SITEMAP_MAX_FILES = 25 as const;
+export const SITEMAP_MAX_URLS = 5000 as const;
+// robots.txt is matched against this product token, falling back to `*` groups
+export const ROBOTS_PRODUCT_TOKEN = 'SitePlanner' as const;
+export const ROBOTS_CACHE_TTL = 60 * 60 * 24; // 24 hours
+// Crawl-delay values above this are clamped so one robots.txt can't stall a session
+export const MAX_CRAWL_DELAY_MS = 10 * 1000; // 10 seconds
+// Parallel SiteAnalysisDO calls per session
+export const DEFAULT_CONCURRENCY = 3 as const;
+export const MAX_CONCURRENCY = 10 as const;
+// User-supplied instructions are cut to this length before reaching the model
+export const MAX_EXTRA_INSTRUCTIONS_LENGTH = 1000 as const;
+// Approximate size of the page digest sent to the model in place of raw HTML
+export const DIGEST_TOKEN_BUDGET = 2000 as const;
+// Agent mode: model steps (each step may call several tools) and extra pages it may fetch
+export const AGENT_MAX_STEPS = 8 as const;
+export const AGENT_MAX_PAGE_FETCHES = 3 as const;
+// Redirect hops followed per fetch_internal_page call; each hop is origin- and robots-checked
+export const AGENT_MAX_REDIRECTS = 3 as const;
+export const LLM_CACHE_TTL = 60 * 60 * 24 * 7; // 7 days
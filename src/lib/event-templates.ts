@@ -0,0 +1,143 @@
+import type { LYTXRecommendation, PageType } from './types';
+
+// Standard LYTX events per page type. The analysis prompt asks the model to
+// use these names, and applyEventTemplates renames close variants afterwards,
+// so every product page reports add_to_cart rather than a different name per page.
+
+type Impact = 'high' | 'medium' | 'low';
+type TrackingEvent = LYTXRecommendation['trackingEvents'][number];
+
+export interface EventTemplate {
+  event: string;
+  trigger: string;
+  conversionImpact: Impact;
+}
+
+export const EVENT_TEMPLATES: Record<PageType, EventTemplate[]> = {
+  home: [
+    { event: 'cta_click', trigger: 'Click on a primary call-to-action', conversionImpact: 'medium' },
+    { event: 'newsletter_signup', trigger: 'Submit of a newsletter or email capture form', conversionImpact: 'medium' },
+    { event: 'search', trigger: 'Submit of the site search', conversionImpact: 'low' },
+  ],
+  product: [
+    { event: 'product_view', trigger: 'Product page load', conversionImpact: 'medium' },
+    { event: 'variant_select', trigger: 'Change of size, color or other variant', conversionImpact: 'low' },
+    { event: 'add_to_cart', trigger: 'Click on the add-to-cart button', conversionImpact: 'high' },
+  ],
+  category: [
+    { event: 'product_click', trigger: 'Click on a product in the listing', conversionImpact: 'medium' },
+    { event: 'filter_apply', trigger: 'Apply a filter or sort option', conversionImpact: 'low' },
+    { event: 'add_to_cart', trigger: 'Click on an add-to-cart button in the listing', conversionImpact: 'high' },
+  ],
+  cart: [
+    { event: 'cart_view', trigger: 'Cart page load', conversionImpact: 'medium' },
+    { event: 'remove_from_cart', trigger: 'Remove an item from the cart', conversionImpact: 'low' },
+    { event: 'checkout_start', trigger: 'Click on the checkout button', conversionImpact: 'high' },
+  ],
+  checkout: [
+    { event: 'checkout_step', trigger: 'Completion of each checkout step', conversionImpact: 'medium' },
+    { event: 'payment_info_submit', trigger: 'Submit of payment details', conversionImpact: 'high' },
+    { event: 'purchase', trigger: 'Order confirmation', conversionImpact: 'high' },
+  ],
+  'blog-post': [
+    { event: 'article_read', trigger: 'Scroll past 75% of the article', conversionImpact: 'low' },
+    { event: 'newsletter_signup', trigger: 'Submit of a newsletter or email capture form', conversionImpact: 'medium' },
+    { event: 'share_click', trigger: 'Click on a share link', conversionImpact: 'low' },
+  ],
+  landing: [
+    { event: 'cta_click', trigger: 'Click on the primary call-to-action', conversionImpact: 'medium' },
+    { event: 'lead_form_submit', trigger: 'Submit of the lead or signup form', conversionImpact: 'high' },
+  ],
+  contact: [
+    { event: 'contact_form_submit', trigger: 'Submit of the contact form', conversionImpact: 'high' },
+    { event: 'phone_click', trigger: 'Click on a tel: link', conversionImpact: 'medium' },
+    { event: 'email_click', trigger: 'Click on a mailto: link', conversionImpact: 'medium' },
+  ],
+  pricing: [
+    { event: 'plan_select', trigger: 'Click on a plan\'s call-to-action', conversionImpact: 'high' },
+    { event: 'billing_toggle', trigger: 'Switch between monthly and annual pricing', conversionImpact: 'low' },
+    { event: 'trial_start', trigger: 'Start of a free trial or signup', conversionImpact: 'high' },
+  ],
+  docs: [
+    { event: 'docs_search', trigger: 'Submit of the documentation search', conversionImpact: 'low' },
+    { event: 'code_copy', trigger: 'Click on a copy-code button', conversionImpact: 'low' },
+    { event: 'signup_click', trigger: 'Click on a signup or get-started link', conversionImpact: 'medium' },
+  ],
+  other: [],
+};
+
+// Inflections folded onto one word so submit_form and form_submitted match
+const WORD_FORMS: Record<string, string> = {
+  submission: 'submit', submitted: 'submit', submits: 'submit',
+  clicked: 'click', clicks: 'click',
+  viewed: 'view', views: 'view',
+  started: 'start', starts: 'start',
+  completed: 'complete', completion: 'complete',
+  added: 'add', adds: 'add',
+  subscribed: 'subscribe', subscription: 'subscribe',
+  purchased: 'purchase', downloaded: 'download',
+  opened: 'open', played: 'play', searched: 'search',
+  signup: 'sign_up', signin: 'sign_in', login: 'log_in',
+};
+// Words that don't change what is being tracked
+const FILLER_WORDS = new Set(['event', 'events', 'track', 'tracking', 'lytx', 'on']);
+
+export function normalizeEventName(name: string): string {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+/**
+ * Key shared by names with the same words in any order and inflection
+ */
+export function eventKey(name: string): string {
+  const words = normalizeEventName(name)
+    .split('_')
+    .filter(Boolean)
+    .flatMap(word => (WORD_FORMS[word] ?? word).split('_'))
+    .filter(word => !FILLER_WORDS.has(word));
+  return Array.from(new Set(words)).sort().join('_') || normalizeEventName(name);
+}
+
+/**
+ * Replace a quoted event name inside implementation code
+ */
+export function renameEventInCode(implementation: string, from: string, to: string): string {
+  if (from === to) return implementation;
+  return implementation.replace(new RegExp(`(['"\`])${from.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\1`, 'g'), `$1${to}$1`);
+}
+
+/**
+ * Prompt section listing the standard events for a page type
+ */
+export function formatEventTemplates(pageType: PageType, signals: string[] = []): string {
+  if (pageType === 'other') return '';
+  const reasons = signals.length ? ` (${signals.slice(0, 3).join(', ')})` : '';
+  return `Page type: ${pageType}${reasons}
+Standard events for ${pageType} pages - use these exact names for any of them the page supports:
+${EVENT_TEMPLATES[pageType].map(template => `- ${template.event} (${template.conversionImpact}): ${template.trigger}`).join('\n')}
+`;
+}
+
+/**
+ * Rename events that match a template for the page type to the template's
+ * name and fill in its conversion impact when the model left it out
+ */
+export function applyEventTemplates(events: TrackingEvent[], pageType: PageType): TrackingEvent[] {
+  const templates = new Map(EVENT_TEMPLATES[pageType].map(template => [eventKey(template.event), template]));
+  return events.map(event => {
+    const template = templates.get(eventKey(event.event));
+    if (!template || template.event === event.event) {
+      return template && !event.conversionImpact ? { ...event, conversionImpact: template.conversionImpact } : event;
+    }
+    return {
+      ...event,
+      event: template.event,
+      implementation: renameEventInCode(event.implementation, event.event, template.event),
+      conversionImpact: event.conversionImpact ?? template.conversionImpact,
+    };
+  });
+}
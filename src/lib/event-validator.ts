@@ -0,0 +1,348 @@
+import type { Browser, Page } from '@cloudflare/puppeteer';
+import { inferDomainFromUrl, lytxScriptSrc } from '@vendors/lytx';
+import type { LYTXRecommendation } from './types';
+import { isLytxBeacon, isLytxScript, isLytxUrl } from './lytx-verifier';
+import { getRandomUserAgent, SimpleCloudflareBrowserService } from './simple-browser-service';
+
+// Checks that each recommended tracking event actually fires: the page is
+// loaded fresh per event, the `implementation` snippet is injected, the
+// trigger is simulated, and we watch for a call to window.lytxApi and a
+// beacon to the lytx event endpoint.
+//
+// Everything is sandboxed. Requests to lytx.io (other than lytx.js itself)
+// are answered locally, forms are never actually submitted, and navigations
+// and non-GET requests made after the page loads get an empty 204.
+
+type TrackingEvent = LYTXRecommendation['trackingEvents'][number];
+
+export type EventTriggerKind = 'click' | 'submit' | 'scroll' | 'load' | 'unknown';
+
+export interface EventValidation {
+  status: 'verified' | 'unverified';
+  trigger: EventTriggerKind;
+  selector?: string;
+  // window.lytxApi.event / trackCustomEvents was called with this event's name
+  eventCalled: boolean;
+  beaconSent: boolean;
+  // A beacon mentioned the event name
+  beaconMatchesEvent: boolean;
+  reason?: string;
+  validatedAt: string;
+}
+
+export type ValidatedTrackingEvent = TrackingEvent & { validation?: EventValidation };
+
+// Each event costs a full page load
+const MAX_EVENTS_TO_VALIDATE = 10;
+const PAGE_TIMEOUT_MS = 20000;
+const LYTX_READY_TIMEOUT_MS = 5000;
+const EVENT_SETTLE_MS = 1500;
+const DEFAULT_SCROLL_DEPTH = 75;
+// Used only when the page has no LYTX tag of its own; its beacons never leave the browser
+const VALIDATION_ACCOUNT = 'site-planner-validation';
+
+interface Beacon {
+  url: string;
+  method: string;
+  postData?: string;
+}
+
+interface TriggerPlan {
+  kind: EventTriggerKind;
+  selector?: string;
+  scrollDepth?: number;
+}
+
+/**
+ * Strip <script> wrappers the model sometimes includes around a snippet
+ */
+function snippetSource(implementation: string): string {
+  return implementation
+    .replace(/<script[^>]*>/gi, '')
+    .replace(/<\/script>/gi, '')
+    .trim();
+}
+
+function extractSelector(code: string): string | undefined {
+  const query = code.match(/querySelector(?:All)?\(\s*(['"`])(.+?)\1\s*\)/);
+  if (query) return query[2];
+  // Attribute selectors avoid having to escape ids and class names
+  const byId = code.match(/getElementById\(\s*['"`]([^'"`]+)['"`]\s*\)/);
+  if (byId) return `[id="${byId[1]}"]`;
+  const byClass = code.match(/getElementsByClassName\(\s*['"`]([^'"`]+)['"`]\s*\)/);
+  if (byClass) return byClass[1].trim().split(/\s+/).map(name => `[class~="${name}"]`).join('');
+  return undefined;
+}
+
+/**
+ * Work out how to fire an event from its snippet, falling back to the
+ * free-text trigger description
+ */
+export function planTrigger(event: TrackingEvent): TriggerPlan {
+  const code = snippetSource(event.implementation);
+  const selector = extractSelector(code);
+  const listener = code.match(/addEventListener\(\s*['"`](\w+)['"`]/)?.[1]?.toLowerCase();
+  const description = event.trigger.toLowerCase();
+
+  const depthMatch = event.trigger.match(/(\d{1,3})\s*%/);
+  const scrollDepth = depthMatch ? Math.min(Number(depthMatch[1]), 100) : DEFAULT_SCROLL_DEPTH;
+
+  if (listener === 'scroll' || (!listener && /scroll/.test(description))) {
+    return { kind: 'scroll', scrollDepth };
+  }
+  if (listener === 'submit' || (!listener && /submit|form/.test(description))) {
+    return { kind: 'submit', selector: selector ?? 'form' };
+  }
+  if (listener === 'click' || (!listener && /click|tap|press|button|cta|link/.test(description))) {
+    return { kind: 'click', selector };
+  }
+  if (!listener && /load|page ?view|visit|land/.test(description)) {
+    return { kind: 'load' };
+  }
+  return { kind: 'unknown', selector };
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+function unverified(plan: TriggerPlan, reason: string): EventValidation {
+  return {
+    status: 'unverified',
+    trigger: plan.kind,
+    selector: plan.selector,
+    eventCalled: false,
+    beaconSent: false,
+    beaconMatchesEvent: false,
+    reason,
+    validatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Validate the recommended tracking events for `url`, returning one result
+ * per event in the same order
+ */
+export async function validateTrackingEvents(url: string, events: TrackingEvent[]): Promise<EventValidation[]> {
+  if (events.length === 0) return [];
+
+  const requestId = Math.random().toString(36).substring(7);
+  const browserService = new SimpleCloudflareBrowserService();
+  const beacons: Beacon[] = [];
+  let armed = false;
+
+  console.log(`[${requestId}] 🧪 Validating ${events.length} tracking event(s) on ${url}`);
+  const browser: Browser = (await browserService.connectBrowser(requestId)).browser;
+
+  try {
+    const page: Page = await browser.newPage();
+    try {
+      await page.setViewport({ width: 1280, height: 720 });
+      await page.setUserAgent(getRandomUserAgent());
+      await page.setRequestInterception(true);
+
+      page.on('request', req => {
+        const requestUrl = req.url();
+        if (isLytxUrl(requestUrl) && !isLytxScript(requestUrl)) {
+          // Every lytx.io call is answered locally, but only event posts count as beacons
+          if (isLytxBeacon(requestUrl)) {
+            beacons.push({ url: requestUrl, method: req.method(), postData: req.postData() });
+          }
+          req.respond({ status: 204, body: '' });
+          return;
+        }
+        if (armed && ((req.isNavigationRequest() && req.frame() === page.mainFrame()) || req.method() !== 'GET')) {
+          req.respond({ status: 204, body: '' });
+          return;
+        }
+        if (['image', 'media', 'font'].includes(req.resourceType())) {
+          req.abort();
+          return;
+        }
+        req.continue();
+      });
+
+      const results: EventValidation[] = [];
+      for (const [index, event] of events.entries()) {
+        const plan = planTrigger(event);
+        if (index >= MAX_EVENTS_TO_VALIDATE) {
+          results.push(unverified(plan, `Not validated: limit of ${MAX_EVENTS_TO_VALIDATE} events per page`));
+          continue;
+        }
+
+        try {
+          armed = false;
+          await page.goto(url, { waitUntil: 'networkidle2', timeout: PAGE_TIMEOUT_MS });
+
+          // Pages without LYTX get the tag injected so the snippet has something to call
+          const hasLytx = await page.evaluate(() => !!(window as any).lytxApi);
+          if (!hasLytx) {
+            await page.evaluate((src: string, domain: string) => {
+              const script = document.createElement('script');
+              script.src = src;
+              script.setAttribute('data-domain', domain);
+              document.head.appendChild(script);
+            }, lytxScriptSrc(VALIDATION_ACCOUNT), inferDomainFromUrl(url));
+          }
+          try {
+            await page.waitForFunction(() => !!(window as any).lytxApi, { timeout: LYTX_READY_TIMEOUT_MS });
+          } catch {
+            results.push(unverified(plan, 'window.lytxApi never initialized on this page'));
+            continue;
+          }
+
+          // Record calls without changing what the API does
+          await page.evaluate(() => {
+            const api = (window as any).lytxApi;
+            const calls: { method: string; args: string[] }[] = [];
+            (window as any).__sitePlannerEventCalls = calls;
+            for (const method of ['event', 'trackCustomEvents']) {
+              const original = api[method];
+              if (typeof original !== 'function') continue;
+              api[method] = function (this: unknown, ...args: unknown[]) {
+                calls.push({ method, args: args.map(arg => String(arg)) });
+                return original.apply(this, args);
+              };
+            }
+          });
+
+          armed = true;
+          const beaconsBefore = beacons.length;
+          const code = snippetSource(event.implementation);
+          await page.addScriptTag({ content: `${code}\n;window.__sitePlannerInjected = true;` });
+          const injected = await page.evaluate(() => (window as any).__sitePlannerInjected === true);
+          if (!injected) {
+            results.push(unverified(plan, 'Snippet threw or failed to parse'));
+            continue;
+          }
+
+          // Snippets written for page load wait on events that already fired
+          if (/DOMContentLoaded|['"`]load['"`]/.test(code)) {
+            await page.evaluate(() => {
+              document.dispatchEvent(new Event('DOMContentLoaded'));
+              window.dispatchEvent(new Event('load'));
+            });
+          }
+
+          const simulated: { ok: boolean; reason?: string } = await page.evaluate((trigger: TriggerPlan) => {
+            if (trigger.kind === 'scroll') {
+              const max = document.documentElement.scrollHeight - window.innerHeight;
+              window.scrollTo(0, Math.max(max, 0) * (trigger.scrollDepth ?? 100) / 100);
+              window.dispatchEvent(new Event('scroll'));
+              document.dispatchEvent(new Event('scroll'));
+              return { ok: true };
+            }
+            if (trigger.kind === 'load') {
+              return { ok: true };
+            }
+            if (!trigger.selector) {
+              return { ok: false, reason: 'No target element in the snippet' };
+            }
+
+            let target: Element | null;
+            try {
+              target = document.querySelector(trigger.selector);
+            } catch {
+              return { ok: false, reason: `Invalid selector ${trigger.selector}` };
+            }
+            if (!target) {
+              return { ok: false, reason: `No element matches ${trigger.selector}` };
+            }
+
+            if (trigger.kind === 'submit') {
+              const form = target instanceof HTMLFormElement ? target : target.closest('form') ?? target.querySelector('form');
+              if (!form) {
+                return { ok: false, reason: `No form found for ${trigger.selector}` };
+              }
+              const dummy: Record<string, string> = {
+                email: 'test@example.com',
+                tel: '5555550100',
+                number: '1',
+                url: 'https://example.com',
+                date: '2024-01-01',
+              };
+              for (const field of Array.from(form.querySelectorAll('input, textarea, select'))) {
+                if (field instanceof HTMLInputElement) {
+                  if (['hidden', 'submit', 'button', 'reset', 'file', 'image'].includes(field.type)) continue;
+                  if (field.type === 'checkbox' || field.type === 'radio') {
+                    field.checked = true;
+                  } else if (!field.value) {
+                    field.value = dummy[field.type] ?? 'Test';
+                  }
+                } else if (field instanceof HTMLTextAreaElement) {
+                  if (!field.value) field.value = 'Test';
+                } else if (field instanceof HTMLSelectElement) {
+                  const option = Array.from(field.options).find(candidate => candidate.value);
+                  if (option) field.value = option.value;
+                }
+                field.dispatchEvent(new Event('input', { bubbles: true }));
+                field.dispatchEvent(new Event('change', { bubbles: true }));
+              }
+              // Dispatching the event runs submit listeners without submitting the form
+              form.dispatchEvent(new SubmitEvent('submit', { bubbles: true, cancelable: true }));
+              return { ok: true };
+            }
+
+            target.scrollIntoView();
+            (target as HTMLElement).click();
+            return { ok: true };
+          }, plan);
+
+          if (!simulated.ok) {
+            results.push(unverified(plan, simulated.reason ?? 'Trigger could not be simulated'));
+            continue;
+          }
+
+          await new Promise(resolve => setTimeout(resolve, EVENT_SETTLE_MS));
+
+          const calls: { method: string; args: string[] }[] = await page.evaluate(() => (window as any).__sitePlannerEventCalls ?? []);
+          const newBeacons = beacons.slice(beaconsBefore);
+          const eventName = event.event.toLowerCase();
+          // Both methods take (account, platform, event, ...); a bare page view doesn't count
+          const eventCalled = calls.some(call => call.args[2] === event.event);
+          const beaconSent = newBeacons.length > 0;
+          const beaconMatchesEvent = newBeacons.some(beacon => safeDecode(`${beacon.url} ${beacon.postData ?? ''}`).toLowerCase().includes(eventName));
+
+          results.push({
+            status: eventCalled && beaconMatchesEvent ? 'verified' : 'unverified',
+            trigger: plan.kind,
+            selector: plan.selector,
+            eventCalled,
+            beaconSent,
+            beaconMatchesEvent,
+            reason: !eventCalled
+              ? calls.length > 0
+                ? `Trigger fired but window.lytxApi was never called with "${event.event}"`
+                : 'Trigger fired but window.lytxApi was never called'
+              : !beaconSent
+                ? 'window.lytxApi was called but no beacon was sent'
+                : !beaconMatchesEvent ? `Beacons were sent but none carried "${event.event}"` : undefined,
+            validatedAt: new Date().toISOString(),
+          });
+        } catch (error) {
+          results.push(unverified(plan, `Validation error: ${error instanceof Error ? error.message : String(error)}`));
+        }
+      }
+
+      const verified = results.filter(result => result.status === 'verified').length;
+      console.log(`[${requestId}] 🧪 ${verified}/${events.length} tracking event(s) verified on ${url}`);
+      return results;
+    } finally {
+      await page.close();
+    }
+  } finally {
+    // Disconnect instead of close so the session can be reused
+    browser.disconnect();
+  }
+}
+
+/**
+ * Attach validations to their tracking events
+ */
+export function withEventValidations(events: TrackingEvent[], validations: EventValidation[]): ValidatedTrackingEvent[] {
+  return events.map((event, index) => validations[index] ? { ...event, validation: validations[index] } : event);
+}
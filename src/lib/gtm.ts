@@ -0,0 +1,376 @@
+import { z } from 'zod';
+import { createLytxTag } from '@vendors/lytx';
+import type { LYTXRecommendation } from './types';
+
+// Google Tag Manager install path. Sites that load everything through GTM
+// can't take "paste this into <head>"; instead we hand them a container
+// export (GTM > Admin > Import Container) holding the LYTX core tag and one
+// Custom HTML tag per tracking event, each bound to a trigger that matches
+// how the event was described. An exported container can be uploaded so the
+// LYTX items are merged into the site's own container rather than a blank one.
+
+type TrackingEvent = LYTXRecommendation['trackingEvents'][number];
+
+// Built-in "All Pages" trigger every container has
+const ALL_PAGES_TRIGGER_ID = '2147479553';
+const LYTX_PREFIX = 'LYTX - ';
+const ACCOUNT_VARIABLE = 'LYTX Account';
+const DEFAULT_SCROLL_PERCENT = '75';
+
+const GTM_LOADER = /googletagmanager\.com\/(?:gtm\.js|ns\.html)\?id=(GTM-[A-Z0-9]+)/g;
+// Bodies of scripts without a src, where the loader snippet lives
+const INLINE_SCRIPT = /<script\b(?![^>]*\bsrc\s*=)[^>]*>([\s\S]*?)<\/script>/gi;
+// An ID passed as a string argument, e.g. the snippet's (w,d,'script','dataLayer','GTM-XXXX')
+const QUOTED_GTM_ID = /['"`](GTM-[A-Z0-9]{4,9})['"`]/g;
+
+/**
+ * Container IDs from the GTM loader snippet, its <noscript> iframe, or a
+ * quoted ID passed to a custom loader or dataLayer in an inline script. IDs
+ * elsewhere (copy, links, comments) are not containers on this page.
+ */
+export function detectGtmContainerIds(html: string): string[] {
+  const ids = new Set<string>();
+  for (const match of html.matchAll(GTM_LOADER)) ids.add(match[1]);
+  for (const [, script] of html.matchAll(INLINE_SCRIPT)) {
+    if (!/gtm\.js|dataLayer/.test(script)) continue;
+    for (const match of script.matchAll(QUOTED_GTM_ID)) ids.add(match[1]);
+  }
+  return Array.from(ids);
+}
+
+// Only the fields we read are checked; everything else in the export is kept as is
+const GtmEntitySchema = z.looseObject({ name: z.string(), type: z.string() });
+
+export const GtmContainerExportSchema = z.looseObject({
+  exportFormatVersion: z.number(),
+  containerVersion: z.looseObject({
+    accountId: z.string().optional(),
+    containerId: z.string().optional(),
+    container: z.looseObject({
+      publicId: z.string().optional(),
+      usageContext: z.array(z.string()).optional(),
+    }).optional(),
+    tag: z.array(GtmEntitySchema.extend({ tagId: z.string() })).optional(),
+    trigger: z.array(GtmEntitySchema.extend({ triggerId: z.string() })).optional(),
+    variable: z.array(GtmEntitySchema.extend({ variableId: z.string() })).optional(),
+    builtInVariable: z.array(GtmEntitySchema).optional(),
+  }),
+});
+
+export type GtmContainerExport = z.infer<typeof GtmContainerExportSchema>;
+
+export class GtmContainerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GtmContainerError';
+  }
+}
+
+/**
+ * Validate an uploaded container export. Throws GtmContainerError when it
+ * isn't a web container export.
+ */
+export function parseGtmContainerExport(input: unknown): GtmContainerExport {
+  const parsed = GtmContainerExportSchema.safeParse(input);
+  if (!parsed.success) {
+    throw new GtmContainerError(`Not a GTM container export: ${z.prettifyError(parsed.error)}`);
+  }
+  const usageContext = parsed.data.containerVersion.container?.usageContext;
+  if (usageContext && !usageContext.includes('WEB')) {
+    throw new GtmContainerError(`Container is for ${usageContext.join(', ')}; LYTX needs a web container`);
+  }
+  return parsed.data;
+}
+
+interface GtmParameter {
+  type: 'TEMPLATE' | 'BOOLEAN' | 'INTEGER';
+  key?: string;
+  value: string;
+}
+
+interface GtmCondition {
+  type: 'EQUALS' | 'CSS_SELECTOR' | 'MATCH_REGEX' | 'STARTS_WITH';
+  parameter: GtmParameter[];
+}
+
+interface TriggerSpec {
+  name: string;
+  type: 'PAGEVIEW' | 'CLICK' | 'LINK_CLICK' | 'FORM_SUBMISSION' | 'SCROLL_DEPTH' | 'CUSTOM_EVENT';
+  filter?: GtmCondition[];
+  customEventFilter?: GtmCondition[];
+  parameter?: GtmParameter[];
+  // Built-in variables the conditions read
+  builtIns: { type: string; name: string }[];
+  // How the site has to cooperate, shown in the tag notes
+  note: string;
+}
+
+export interface GtmEventInput {
+  event: string;
+  trigger: string;
+  implementation: string;
+  // Pages the event was recommended for; page-view events fire only there
+  urls?: string[];
+}
+
+const condition = (type: GtmCondition['type'], variable: string, value: string): GtmCondition => ({
+  type,
+  parameter: [
+    { type: 'TEMPLATE', key: 'arg0', value: variable },
+    { type: 'TEMPLATE', key: 'arg1', value },
+  ],
+});
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// A CSS selector named in the recommended implementation, if any
+function selectorFrom(implementation: string): string | undefined {
+  const query = /querySelector(?:All)?\(\s*(['"`])(.+?)\1\s*\)/.exec(implementation);
+  if (query) return query[2];
+  const byId = /getElementById\(\s*(['"`])(.+?)\1\s*\)/.exec(implementation);
+  return byId ? `#${byId[2]}` : undefined;
+}
+
+function pagePathPattern(urls: string[] = []): string | undefined {
+  const paths = Array.from(new Set(urls.flatMap(url => {
+    try {
+      return [new URL(url).pathname];
+    } catch {
+      return [];
+    }
+  })));
+  return paths.length ? `^(${paths.map(escapeRegExp).join('|')})$` : undefined;
+}
+
+/**
+ * Pick a GTM trigger from how the event was described. Events that can't be
+ * matched to a DOM interaction fall back to a dataLayer custom event.
+ */
+export function triggerFor(event: GtmEventInput): TriggerSpec {
+  const description = `${event.event} ${event.trigger}`.toLowerCase();
+  const selector = selectorFrom(event.implementation);
+  const customEvent = (): TriggerSpec => ({
+    name: `${LYTX_PREFIX}${event.event}`,
+    type: 'CUSTOM_EVENT',
+    customEventFilter: [condition('EQUALS', '{{_event}}', event.event)],
+    builtIns: [],
+    note: `Fires on dataLayer.push({ event: '${event.event}' }); add that push where this happens: ${event.trigger}`,
+  });
+
+  if (/scroll/.test(description)) {
+    const percent = /(\d{1,3})\s*%/.exec(description)?.[1] ?? DEFAULT_SCROLL_PERCENT;
+    const path = pagePathPattern(event.urls);
+    return {
+      name: `${LYTX_PREFIX}Scroll ${percent}%${path ? ` - ${event.event}` : ''}`,
+      type: 'SCROLL_DEPTH',
+      parameter: [
+        { type: 'BOOLEAN', key: 'verticalThresholdOn', value: 'true' },
+        { type: 'TEMPLATE', key: 'verticalThresholdUnits', value: 'PERCENT' },
+        { type: 'TEMPLATE', key: 'verticalThresholdsPercent', value: percent },
+        { type: 'BOOLEAN', key: 'horizontalThresholdOn', value: 'false' },
+        { type: 'TEMPLATE', key: 'triggerStartOption', value: 'WINDOW_LOAD' },
+      ],
+      filter: path ? [condition('MATCH_REGEX', '{{Page Path}}', path)] : undefined,
+      builtIns: [{ type: 'SCROLL_DEPTH_THRESHOLD', name: 'Scroll Depth Threshold' }, ...(path ? [{ type: 'PAGE_PATH', name: 'Page Path' }] : [])],
+      note: `Vertical scroll past ${percent}%`,
+    };
+  }
+
+  if (/submit|form|signup|sign_up|subscribe/.test(description)) {
+    if (!selector && !/form/.test(description)) return customEvent();
+    return {
+      name: `${LYTX_PREFIX}Form ${selector ?? 'submit'}`,
+      type: 'FORM_SUBMISSION',
+      parameter: [
+        { type: 'BOOLEAN', key: 'waitForTags', value: 'false' },
+        { type: 'BOOLEAN', key: 'checkValidation', value: 'true' },
+      ],
+      filter: selector ? [condition('CSS_SELECTOR', '{{Form Element}}', selector)] : undefined,
+      builtIns: selector ? [{ type: 'FORM_ELEMENT', name: 'Form Element' }] : [],
+      note: selector ? `Submit of ${selector}` : 'Any form submit; narrow the trigger to the right form if the page has several',
+    };
+  }
+
+  const linkScheme = /\btel\b|phone/.test(description) ? 'tel:' : /mailto|\bemail_click\b/.test(description) ? 'mailto:' : undefined;
+  if (linkScheme) {
+    return {
+      name: `${LYTX_PREFIX}${linkScheme} links`,
+      type: 'LINK_CLICK',
+      parameter: [
+        { type: 'BOOLEAN', key: 'waitForTags', value: 'false' },
+        { type: 'BOOLEAN', key: 'checkValidation', value: 'false' },
+      ],
+      filter: [condition('STARTS_WITH', '{{Click URL}}', linkScheme)],
+      builtIns: [{ type: 'CLICK_URL', name: 'Click URL' }],
+      note: `Click on a ${linkScheme} link`,
+    };
+  }
+
+  if (/click|tap|press|button|cta|select|toggle|copy|add_to_cart|add to cart/.test(description)) {
+    if (!selector) return customEvent();
+    return {
+      name: `${LYTX_PREFIX}Click ${selector}`,
+      type: 'CLICK',
+      filter: [condition('CSS_SELECTOR', '{{Click Element}}', `${selector}, ${selector} *`)],
+      builtIns: [{ type: 'CLICK_ELEMENT', name: 'Click Element' }],
+      note: `Click on ${selector}`,
+    };
+  }
+
+  if (/view|load|visit|landing|open/.test(description)) {
+    const path = pagePathPattern(event.urls);
+    return {
+      name: `${LYTX_PREFIX}Page view${path ? ` - ${event.event}` : ''}`,
+      type: 'PAGEVIEW',
+      filter: path ? [condition('MATCH_REGEX', '{{Page Path}}', path)] : undefined,
+      builtIns: path ? [{ type: 'PAGE_PATH', name: 'Page Path' }] : [],
+      note: path ? `Page view on ${path}` : 'Every page view',
+    };
+  }
+
+  return customEvent();
+}
+
+export interface BuildGtmContainerOptions {
+  accountKey: string;
+  domain: string;
+  events: GtmEventInput[];
+  // Gate every LYTX tag on analytics_storage consent (GTM Consent Mode)
+  consentRequired?: boolean;
+  // Uploaded export to merge into; a blank container otherwise
+  base?: GtmContainerExport;
+}
+
+/**
+ * Build an importable container export with the LYTX core tag and one
+ * Custom HTML tag per event. LYTX items already in `base` (by name prefix)
+ * are replaced so re-importing doesn't duplicate them.
+ */
+export function buildGtmContainer({ accountKey, domain, events, consentRequired, base }: BuildGtmContainerOptions): GtmContainerExport {
+  const version = base?.containerVersion;
+  const accountId = version?.accountId ?? '0';
+  const containerId = version?.containerId ?? '0';
+  const ids = { accountId, containerId };
+  const isLytx = (entity: { name: string }) => entity.name.startsWith(LYTX_PREFIX) || entity.name === ACCOUNT_VARIABLE;
+
+  const keptTags = (version?.tag ?? []).filter(tag => !isLytx(tag));
+  const keptTriggers = (version?.trigger ?? []).filter(trigger => !isLytx(trigger));
+  const keptVariables = (version?.variable ?? []).filter(variable => !isLytx(variable));
+
+  // New IDs continue after the highest one in the uploaded container
+  let nextId = Math.max(0, ...[
+    ...keptTags.map(tag => tag.tagId),
+    ...keptTriggers.map(trigger => trigger.triggerId),
+    ...keptVariables.map(variable => variable.variableId),
+  ].map(Number).filter(Number.isFinite)) + 1;
+  const newId = () => String(nextId++);
+
+  const consentSettings = consentRequired
+    ? { consentStatus: 'NEEDED', consentType: { type: 'LIST', list: [{ type: 'TEMPLATE', value: 'analytics_storage' }] } }
+    : undefined;
+  const customHtmlTag = (name: string, html: string, triggerId: string, notes: string) => ({
+    ...ids,
+    tagId: newId(),
+    name,
+    type: 'html',
+    parameter: [
+      { type: 'TEMPLATE', key: 'html', value: html },
+      { type: 'BOOLEAN', key: 'supportDocumentWrite', value: 'false' },
+    ],
+    firingTriggerId: [triggerId],
+    tagFiringOption: 'ONCE_PER_EVENT',
+    notes,
+    ...(consentSettings ? { consentSettings } : {}),
+  });
+
+  const variables = [{
+    ...ids,
+    variableId: newId(),
+    name: ACCOUNT_VARIABLE,
+    type: 'c',
+    parameter: [{ type: 'TEMPLATE', key: 'value', value: accountKey }],
+  }];
+
+  const tags = [customHtmlTag(
+    `${LYTX_PREFIX}Core`,
+    // createLytxTag URL-encodes the key, so the core tag can't use the variable
+    createLytxTag(accountKey, domain),
+    ALL_PAGES_TRIGGER_ID,
+    'LYTX page views on every page',
+  )];
+
+  // Events with the same trigger share it
+  const triggers = new Map<string, { triggerId: string; name: string; type: string; [key: string]: unknown }>();
+  const builtIns = new Map((version?.builtInVariable ?? []).map(variable => [variable.type, variable]));
+
+  for (const event of events) {
+    const spec = triggerFor(event);
+    const key = JSON.stringify([spec.type, spec.filter, spec.customEventFilter, spec.parameter]);
+    let trigger = triggers.get(key);
+    if (!trigger) {
+      trigger = {
+        ...ids,
+        triggerId: newId(),
+        name: spec.name,
+        type: spec.type,
+        ...(spec.filter ? { filter: spec.filter } : {}),
+        ...(spec.customEventFilter ? { customEventFilter: spec.customEventFilter } : {}),
+        ...(spec.parameter ? { parameter: spec.parameter } : {}),
+      };
+      triggers.set(key, trigger);
+    }
+    for (const builtIn of spec.builtIns) {
+      if (!builtIns.has(builtIn.type)) builtIns.set(builtIn.type, { ...ids, ...builtIn });
+    }
+    tags.push(customHtmlTag(
+      `${LYTX_PREFIX}${event.event}`,
+      `<script>\n  window.lytxApi && window.lytxApi.event({{${ACCOUNT_VARIABLE}}}, 'web', '${event.event.replace(/['\\]/g, '')}');\n</script>`,
+      trigger.triggerId,
+      spec.note,
+    ));
+  }
+
+  return {
+    ...base,
+    exportFormatVersion: base?.exportFormatVersion ?? 2,
+    exportTime: new Date().toISOString().replace('T', ' ').slice(0, 19),
+    containerVersion: {
+      ...version,
+      ...ids,
+      container: version?.container ?? { ...ids, name: domain, usageContext: ['WEB'] },
+      tag: [...keptTags, ...tags],
+      trigger: [...keptTriggers, ...triggers.values()],
+      variable: [...keptVariables, ...variables],
+      builtInVariable: Array.from(builtIns.values()),
+    },
+  };
+}
+
+/**
+ * One entry per event: the site summary's unified plan when there is one,
+ * otherwise each page's events merged by name
+ */
+export function gtmEventsFromSession(session: {
+  siteSummary?: { trackingPlan: { event: string; triggers: string[]; implementation: string; urls: string[] }[] };
+  results?: { error?: string; pageAnalysis: { url: string }; lytxRecommendations: { trackingEvents: TrackingEvent[] } }[];
+}): GtmEventInput[] {
+  if (session.siteSummary?.trackingPlan.length) {
+    return session.siteSummary.trackingPlan.map(event => ({
+      event: event.event,
+      trigger: event.triggers[0] ?? event.event,
+      implementation: event.implementation,
+      urls: event.urls,
+    }));
+  }
+
+  const events = new Map<string, GtmEventInput>();
+  for (const result of session.results ?? []) {
+    if (result.error) continue;
+    for (const event of result.lytxRecommendations.trackingEvents) {
+      const existing = events.get(event.event);
+      if (existing) existing.urls!.push(result.pageAnalysis.url);
+      else events.set(event.event, { event: event.event, trigger: event.trigger, implementation: event.implementation, urls: [result.pageAnalysis.url] });
+    }
+  }
+  return Array.from(events.values());
+}
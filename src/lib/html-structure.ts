@@ -0,0 +1,172 @@
+import { collectJsonLdTypes } from './page-digest';
+
+// Structural facts about a page, read with HTMLRewriter rather than regexes so
+// multi-line elements, nested markup, any attribute order and `>` inside
+// attribute values are all handled the way a browser would parse them.
+
+const KEY_PARAGRAPHS = 3;
+
+export interface PageStructure {
+  title: string | null;
+  // Keyed by lowercased name / property (description, og:title, twitter:card, ...)
+  metaTags: Record<string, string>;
+  headings: { level: number; text: string }[];
+  paragraphs: string[];
+  imageCount: number;
+  linkCount: number;
+  structuredData: {
+    jsonLdTypes: string[];
+    jsonLdBlocks: number;
+    microdata: boolean;
+    rdfa: boolean;
+  };
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+  ndash: '–', mdash: '—', hellip: '…', rsquo: '’', lsquo: '‘', rdquo: '”', ldquo: '“', copy: '©', reg: '®', trade: '™',
+};
+
+// Text chunks from HTMLRewriter are raw source, so entities are still encoded
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(point) && point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+function normalizeText(text: string): string {
+  return decodeEntities(text).replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Parse `html` and collect the title, meta tags, heading outline, opening
+ * paragraphs and element counts used by analyzePageStructureTool
+ */
+export async function parsePageStructure(html: string): Promise<PageStructure> {
+  const structure: PageStructure = {
+    title: null,
+    metaTags: {},
+    headings: [],
+    paragraphs: [],
+    imageCount: 0,
+    linkCount: 0,
+    structuredData: { jsonLdTypes: [], jsonLdBlocks: 0, microdata: false, rdfa: false },
+  };
+
+  const jsonLdTypes = new Set<string>();
+  // <title> inside inline SVG is an accessibility label, not the page title
+  let svgDepth = 0;
+  let capture: { text: string } | null = null;
+  // Script and style bodies never count as visible text
+  let rawTextDepth = 0;
+  let jsonLd: { text: string } | null = null;
+
+  const captureText = (element: Element, onDone: (text: string) => void) => {
+    const target = { text: '' };
+    const previous = capture;
+    capture = target;
+    element.onEndTag(() => {
+      capture = previous;
+      if (previous) previous.text += target.text;
+      onDone(normalizeText(target.text));
+    });
+  };
+
+  const rewriter = new HTMLRewriter()
+    .on('svg', {
+      element(element) {
+        svgDepth++;
+        element.onEndTag(() => { svgDepth--; });
+      },
+    })
+    .on('title', {
+      element(element) {
+        if (svgDepth > 0 || structure.title !== null) return;
+        captureText(element, text => {
+          if (structure.title === null) structure.title = text;
+        });
+      },
+    })
+    .on('meta', {
+      element(element) {
+        const key = element.getAttribute('name') || element.getAttribute('property');
+        const content = element.getAttribute('content');
+        if (!key || content === null) return;
+        const name = key.trim().toLowerCase();
+        // First occurrence wins, matching how crawlers read duplicates
+        if (!(name in structure.metaTags)) structure.metaTags[name] = normalizeText(content);
+      },
+    })
+    .on('h1, h2, h3, h4, h5, h6', {
+      element(element) {
+        const level = Number(element.tagName.slice(1));
+        captureText(element, text => {
+          if (text) structure.headings.push({ level, text });
+        });
+      },
+    })
+    .on('p', {
+      element(element) {
+        if (structure.paragraphs.length >= KEY_PARAGRAPHS) return;
+        captureText(element, text => {
+          if (text && structure.paragraphs.length < KEY_PARAGRAPHS) structure.paragraphs.push(text);
+        });
+      },
+    })
+    .on('img', {
+      element() {
+        structure.imageCount++;
+      },
+    })
+    .on('a[href]', {
+      element() {
+        structure.linkCount++;
+      },
+    })
+    .on('[itemtype]', {
+      element(element) {
+        if (/schema\.org/i.test(element.getAttribute('itemtype') || '')) structure.structuredData.microdata = true;
+      },
+    })
+    .on('[vocab], [typeof]', {
+      element() {
+        structure.structuredData.rdfa = true;
+      },
+    })
+    .on('script, style, template, noscript', {
+      element(element) {
+        rawTextDepth++;
+        const isJsonLd = element.tagName === 'script'
+          && (element.getAttribute('type') || '').trim().toLowerCase() === 'application/ld+json';
+        const block = isJsonLd ? { text: '' } : null;
+        if (block) jsonLd = block;
+        element.onEndTag(() => {
+          rawTextDepth--;
+          if (!block) return;
+          jsonLd = null;
+          try {
+            collectJsonLdTypes(JSON.parse(block.text), jsonLdTypes);
+            structure.structuredData.jsonLdBlocks++;
+          } catch {
+            // Invalid JSON-LD isn't usable structured data
+          }
+        });
+      },
+    })
+    .onDocument({
+      text(chunk) {
+        if (jsonLd) jsonLd.text += chunk.text;
+        else if (capture && rawTextDepth === 0) capture.text += chunk.text;
+      },
+    });
+
+  // Drain the transformed body; we only care about the handler side effects
+  await rewriter.transform(new Response(html, { headers: { 'Content-Type': 'text/html' } })).arrayBuffer();
+
+  structure.structuredData.jsonLdTypes = Array.from(jsonLdTypes);
+  return structure;
+}
@@ -0,0 +1,337 @@
+import { createLytxTag, lytxScriptSrc } from '@vendors/lytx';
+
+// Platform-specific install guides. The generic embed snippet is right for a
+// hand-written site, but on Shopify, WordPress, Webflow and Next.js there is a
+// proper place for it - a theme file, a hook, a settings panel, a component -
+// and each platform has its own way to hook events. Pure module so the
+// session page can render guides without a round trip.
+
+export const INSTALL_PLATFORMS = ['shopify', 'wordpress', 'webflow', 'nextjs'] as const;
+export type InstallPlatform = typeof INSTALL_PLATFORMS[number];
+
+export const INSTALL_PLATFORM_NAMES: Record<InstallPlatform, string> = {
+  shopify: 'Shopify',
+  wordpress: 'WordPress',
+  webflow: 'Webflow',
+  nextjs: 'Next.js',
+};
+
+export interface InstallArtifact {
+  title: string;
+  // Where the code goes, e.g. layout/theme.liquid
+  location: string;
+  language: 'diff' | 'liquid' | 'php' | 'html' | 'javascript' | 'tsx' | 'typescript';
+  code: string;
+}
+
+export interface InstallGuide {
+  platform: InstallPlatform;
+  name: string;
+  steps: string[];
+  artifacts: InstallArtifact[];
+}
+
+export interface InstallGuideOptions {
+  accountKey: string;
+  domain: string;
+  // Recommended events, named as in the tracking plan
+  events: { event: string; trigger: string }[];
+  // CMP the LYTX tag has to wait for, when the site gates analytics
+  consentPlatform?: string;
+}
+
+/**
+ * The platform a technical stack installs on, or null for anything else
+ */
+export function detectInstallPlatform(stack: { framework?: string; cms?: string }): InstallPlatform | null {
+  if (stack.cms === 'Shopify') return 'shopify';
+  if (stack.cms === 'WordPress' || stack.cms === 'WooCommerce') return 'wordpress';
+  if (stack.cms === 'Webflow') return 'webflow';
+  if (stack.framework === 'Next.js') return 'nextjs';
+  return null;
+}
+
+/**
+ * Platform detected on the most pages of a session
+ */
+export function pickInstallPlatform(stacks: { framework?: string; cms?: string }[]): InstallPlatform | null {
+  const counts = new Map<InstallPlatform, number>();
+  for (const stack of stacks) {
+    const platform = detectInstallPlatform(stack);
+    if (platform) counts.set(platform, (counts.get(platform) ?? 0) + 1);
+  }
+  return Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0]?.[0] ?? null;
+}
+
+const quote = (text: string) => `'${text.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+
+function indent(code: string, prefix: string): string {
+  return code.split('\n').map(line => line ? `${prefix}${line}` : line).join('\n');
+}
+
+// Shared browser helper: lytxTrack(name) plus click tracking for any element
+// carrying data-lytx-event, which works from every platform's editor
+function eventHelperScript(accountKey: string, events: InstallGuideOptions['events']): string {
+  const catalogue = events.length
+    ? `\n// Recommended events:\n${events.map(event => `//   ${event.event} - ${event.trigger}`).join('\n')}`
+    : '';
+  return `<script>
+window.lytxTrack = function (name) {
+  if (window.lytxApi) window.lytxApi.event(${quote(accountKey)}, 'web', name);
+};
+document.addEventListener('click', function (e) {
+  var target = e.target.closest && e.target.closest('[data-lytx-event]');
+  if (target) window.lytxTrack(target.getAttribute('data-lytx-event'));
+});${catalogue}
+</script>`;
+}
+
+function consentStep(options: InstallGuideOptions): string[] {
+  return options.consentPlatform
+    ? [`This site gates analytics behind ${options.consentPlatform}. Use the consent-gated loader from the tag recommendations in place of the plain <script> tag below.`]
+    : [];
+}
+
+function hasEvent(options: InstallGuideOptions, name: string): boolean {
+  return options.events.some(event => event.event === name);
+}
+
+function shopifyGuide(options: InstallGuideOptions): InstallGuide {
+  const { accountKey, domain } = options;
+  const track = (name: string) => `window.lytxApi && window.lytxApi.event(${quote(accountKey)}, 'web', ${quote(name)})`;
+  const themePatch = `--- a/layout/theme.liquid
++++ b/layout/theme.liquid
+@@
+     {{ content_for_header }}
++    {%- comment -%} LYTX analytics {%- endcomment -%}
+${indent(`${createLytxTag(accountKey, domain)}\n${eventHelperScript(accountKey, options.events)}`, '+    ')}
++    {%- if template.name == 'product' -%}
++    <script>
++      document.addEventListener('submit', function (e) {
++        if (e.target.matches('form[action*="/cart/add"]')) ${track('add_to_cart')};
++      });
++      window.addEventListener('load', function () { ${track('product_view')}; });
++    </script>
++    {%- endif -%}
+   </head>`;
+
+  const checkoutEvents: [string, string][] = [
+    ['checkout_started', 'checkout_start'],
+    ['checkout_shipping_info_submitted', 'checkout_step'],
+    ['payment_info_submitted', 'payment_info_submit'],
+    ['checkout_completed', 'purchase'],
+  ];
+  const customPixel = `// Settings › Customer events › Add custom pixel
+const script = document.createElement('script');
+script.src = ${quote(lytxScriptSrc(accountKey))};
+script.setAttribute('data-domain', ${quote(domain)});
+document.head.appendChild(script);
+
+function lytxTrack(name) {
+  if (window.lytxApi) window.lytxApi.event(${quote(accountKey)}, 'web', name);
+}
+
+${checkoutEvents.map(([shopifyEvent, lytxEvent]) => `analytics.subscribe(${quote(shopifyEvent)}, () => lytxTrack(${quote(lytxEvent)}));`).join('\n')}`;
+
+  return {
+    platform: 'shopify',
+    name: 'Shopify',
+    steps: [
+      ...consentStep(options),
+      'Online Store › Themes › ⋯ › Edit code, open layout/theme.liquid and add the lines below just before </head>.',
+      'Checkout pages don\'t load theme code. Add the custom pixel under Settings › Customer events so checkout steps and purchases are tracked.',
+      'For other buttons, add a data-lytx-event="event_name" attribute in the theme section, or call window.lytxTrack(\'event_name\').',
+    ],
+    artifacts: [
+      { title: 'Theme patch', location: 'layout/theme.liquid', language: 'diff', code: themePatch },
+      { title: 'Checkout custom pixel', location: 'Settings › Customer events', language: 'javascript', code: customPixel },
+    ],
+  };
+}
+
+function wordpressGuide(options: InstallGuideOptions): InstallGuide {
+  const { accountKey, domain } = options;
+  const wooCommerce = ['add_to_cart', 'purchase', 'checkout_start'].some(name => hasEvent(options, name));
+  const functionsPhp = `<?php
+// LYTX analytics: add to the child theme's functions.php (no plugin needed)
+add_action('wp_head', function () {
+  ?>
+${indent(createLytxTag(accountKey, domain), '  ')}
+  <?php
+}, 1);
+
+add_action('wp_footer', function () {
+  ?>
+${indent(eventHelperScript(accountKey, options.events), '  ')}
+  <script>
+    // Contact Form 7 fires this after a successful send
+    document.addEventListener('wpcf7mailsent', function () { window.lytxTrack('contact_form_submit'); });
+  </script>
+  <?php
+});${wooCommerce ? `
+
+// WooCommerce
+add_action('woocommerce_after_add_to_cart_button', function () {
+  ?>
+  <script>
+    document.querySelector('form.cart').addEventListener('submit', function () { window.lytxTrack('add_to_cart'); });
+  </script>
+  <?php
+});
+
+add_action('woocommerce_thankyou', function ($order_id) {
+  if (!$order_id || get_post_meta($order_id, '_lytx_tracked', true)) return;
+  update_post_meta($order_id, '_lytx_tracked', 1);
+  ?>
+  <script>window.addEventListener('load', function () { window.lytxTrack('purchase'); });</script>
+  <?php
+});` : ''}`;
+
+  return {
+    platform: 'wordpress',
+    name: 'WordPress',
+    steps: [
+      ...consentStep(options),
+      'Use a child theme so theme updates don\'t remove the code (Appearance › Themes).',
+      'Paste the snippet at the end of the child theme\'s functions.php, via Appearance › Theme File Editor or SFTP.',
+      'To track a button, give it a data-lytx-event="event_name" attribute from a Custom HTML block or your page builder\'s custom attributes.',
+    ],
+    artifacts: [
+      { title: 'functions.php hook', location: 'wp-content/themes/<child-theme>/functions.php', language: 'php', code: functionsPhp },
+    ],
+  };
+}
+
+function webflowGuide(options: InstallGuideOptions): InstallGuide {
+  const { accountKey, domain } = options;
+  const footerCode = `${eventHelperScript(accountKey, options.events)}
+<script>
+  // Webflow forms: count successful submissions, not attempts
+  document.querySelectorAll('.w-form').forEach(function (wrapper) {
+    var done = wrapper.querySelector('.w-form-done');
+    if (!done) return;
+    new MutationObserver(function (changes, observer) {
+      if (done.style.display !== 'none') {
+        window.lytxTrack(wrapper.querySelector('form').getAttribute('data-name') === 'Newsletter' ? 'newsletter_signup' : 'lead_form_submit');
+        observer.disconnect();
+      }
+    }).observe(done, { attributes: true, attributeFilter: ['style'] });
+  });
+</script>`;
+
+  return {
+    platform: 'webflow',
+    name: 'Webflow',
+    steps: [
+      ...consentStep(options),
+      'Site settings › Custom code: paste the head code into "Head code" and the footer code into "Footer code".',
+      'For buttons and links, select the element in the Designer and add a custom attribute data-lytx-event with the event name (Element settings › Custom attributes).',
+      'Publish the site; custom code only runs on the published domain, not in the Designer.',
+    ],
+    artifacts: [
+      { title: 'Head code', location: 'Site settings › Custom code › Head code', language: 'html', code: createLytxTag(accountKey, domain) },
+      { title: 'Footer code', location: 'Site settings › Custom code › Footer code', language: 'html', code: footerCode },
+    ],
+  };
+}
+
+function nextjsGuide(options: InstallGuideOptions): InstallGuide {
+  const { accountKey, domain } = options;
+  const eventNames = options.events.map(event => quote(event.event));
+  const component = `'use client';
+
+import Script from 'next/script';
+import { usePathname, useSearchParams } from 'next/navigation';
+import { useEffect, useRef } from 'react';
+
+export function LytxAnalytics() {
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const firstRender = useRef(true);
+
+  // lytx.js records the first page view; client-side navigations need an explicit emit
+  useEffect(() => {
+    if (firstRender.current) {
+      firstRender.current = false;
+      return;
+    }
+    window.lytxApi?.emit(new URL(window.location.href));
+  }, [pathname, searchParams]);
+
+  return (
+    <Script
+      id="lytx"
+      strategy="afterInteractive"
+      src={${quote(lytxScriptSrc(accountKey))}}
+      data-domain={${quote(domain)}}
+    />
+  );
+}`;
+
+  const helpers = `// Typed LYTX event helpers
+export const LYTX_ACCOUNT = ${quote(accountKey)};
+
+${eventNames.length ? `export type LytxEventName =\n${eventNames.map(name => `  | ${name}`).join('\n')};` : 'export type LytxEventName = string;'}
+
+declare global {
+  interface Window {
+    lytxApi?: {
+      emit: (url?: URL) => void;
+      event: (account: string, platformName: 'web', event: string | null) => void;
+    };
+  }
+}
+
+export function trackEvent(name: LytxEventName) {
+  window.lytxApi?.event(LYTX_ACCOUNT, 'web', name);
+}`;
+
+  const layout = `// app/layout.tsx
+import { Suspense } from 'react';
+import { LytxAnalytics } from '@/components/LytxAnalytics';
+
+export default function RootLayout({ children }: { children: React.ReactNode }) {
+  return (
+    <html lang="en">
+      <body>
+        {children}
+        {/* useSearchParams needs a Suspense boundary */}
+        <Suspense fallback={null}>
+          <LytxAnalytics />
+        </Suspense>
+      </body>
+    </html>
+  );
+}
+
+// Anywhere in a client component:
+// import { trackEvent } from '@/lib/lytx';
+// <button onClick={() => trackEvent(${eventNames[0] ?? "'cta_click'"})}>…</button>`;
+
+  return {
+    platform: 'nextjs',
+    name: 'Next.js',
+    steps: [
+      ...consentStep(options),
+      'Add the LytxAnalytics component and the typed helpers below (App Router; for the Pages Router render <LytxAnalytics /> in pages/_app.tsx).',
+      'Render <LytxAnalytics /> once in the root layout.',
+      'Call trackEvent(...) from the handlers where each recommended event happens.',
+    ],
+    artifacts: [
+      { title: 'Script component', location: 'components/LytxAnalytics.tsx', language: 'tsx', code: component },
+      { title: 'Event helpers', location: 'lib/lytx.ts', language: 'typescript', code: helpers },
+      { title: 'Root layout', location: 'app/layout.tsx', language: 'tsx', code: layout },
+    ],
+  };
+}
+
+const GUIDE_BUILDERS: Record<InstallPlatform, (options: InstallGuideOptions) => InstallGuide> = {
+  shopify: shopifyGuide,
+  wordpress: wordpressGuide,
+  webflow: webflowGuide,
+  nextjs: nextjsGuide,
+};
+
+export function buildInstallGuide(platform: InstallPlatform, options: InstallGuideOptions): InstallGuide {
+  return GUIDE_BUILDERS[platform](options);
+}
@@ -0,0 +1,42 @@
+import { getLlmSpendSince } from './db';
+import { formatUsd } from './llm-usage';
+
+// Daily spend ceiling for model calls, set with DAILY_LLM_BUDGET_USD. Spend is
+// the estimated cost recorded on each page analysis and direct HTML analysis
+// since midnight UTC. Only new sessions and HTML analyses are refused; sessions
+// already running finish their pages.
+
+export class LlmBudgetExceededError extends Error {
+  constructor(public spentUsd: number, public limitUsd: number) {
+    super(`Daily LLM budget of ${formatUsd(limitUsd)} reached (${formatUsd(spentUsd)} spent today). New sessions resume at midnight UTC.`);
+    this.name = 'LlmBudgetExceededError';
+  }
+}
+
+export function getDailyLlmBudget(): number | null {
+  const limit = Number.parseFloat(process.env.DAILY_LLM_BUDGET_USD ?? '');
+  return Number.isFinite(limit) && limit > 0 ? limit : null;
+}
+
+/**
+ * Throw LlmBudgetExceededError once today's spend reaches the ceiling. If the
+ * spend can't be read the session is allowed, so a D1 hiccup doesn't block analysis.
+ */
+export async function assertWithinDailyLlmBudget(now: Date = new Date()): Promise<void> {
+  const limit = getDailyLlmBudget();
+  if (limit === null) return;
+
+  const startOfDay = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  let spent: number;
+  try {
+    spent = await getLlmSpendSince(startOfDay.toISOString());
+  } catch (error) {
+    console.warn('⚠️ Could not read today\'s LLM spend; skipping the budget check:', error);
+    return;
+  }
+
+  if (spent >= limit) {
+    console.warn(`💸 Daily LLM budget reached: ${formatUsd(spent)} of ${formatUsd(limit)}`);
+    throw new LlmBudgetExceededError(spent, limit);
+  }
+}
@@ -0,0 +1,73 @@
+import { env } from 'cloudflare:workers';
+import { LLM_CACHE_TTL } from './defaults';
+import type { SiteAnalysisResult } from './types';
+
+// KV cache in front of the analysis generateObject call. The key hashes the
+// rendered prompt (which carries the normalized page digest, LYTX detection
+// and extra instructions) together with the prompt version and model, so an
+// unchanged page re-analyzed with the same settings reuses the earlier answer.
+
+export interface LlmCacheInfo {
+  hit: boolean;
+  key: string;
+  // For hits: when the answer was generated and by which analysis
+  cachedAt?: string;
+  sourceAnalysisId?: string;
+}
+
+interface CachedAnalysis {
+  object: SiteAnalysisResult;
+  cachedAt: string;
+  analysisId: string;
+}
+
+async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export async function analysisCacheKey({ prompt, promptVersion, model }: {
+  prompt: string;
+  promptVersion: string;
+  // provider:modelId
+  model: string;
+}): Promise<string> {
+  return `llm:${await sha256Hex(JSON.stringify({ promptVersion, model, prompt }))}`;
+}
+
+/**
+ * Return the cached answer for `key`, or run `generate` and cache its output.
+ * `forceFresh` skips the lookup but still refreshes the cache. Cache errors
+ * are logged and never fail the analysis.
+ */
+export async function withAnalysisCache(
+  key: string,
+  { forceFresh = false, analysisId }: { forceFresh?: boolean; analysisId: string },
+  generate: () => Promise<SiteAnalysisResult>
+): Promise<{ object: SiteAnalysisResult; llmCache: LlmCacheInfo }> {
+  if (!forceFresh && env.SITE_ANALYSIS_CACHE) {
+    try {
+      const cached = await env.SITE_ANALYSIS_CACHE.get(key);
+      if (cached) {
+        const { object, cachedAt, analysisId: sourceAnalysisId } = JSON.parse(cached) as CachedAnalysis;
+        console.log(`♻️ [${analysisId}] LLM cache hit (generated ${cachedAt} by ${sourceAnalysisId})`);
+        return { object, llmCache: { hit: true, key, cachedAt, sourceAnalysisId } };
+      }
+    } catch (error) {
+      console.warn(`⚠️ [${analysisId}] LLM cache read error:`, error);
+    }
+  }
+
+  const object = await generate();
+
+  if (env.SITE_ANALYSIS_CACHE) {
+    try {
+      const entry: CachedAnalysis = { object, cachedAt: new Date().toISOString(), analysisId };
+      await env.SITE_ANALYSIS_CACHE.put(key, JSON.stringify(entry), { expirationTtl: LLM_CACHE_TTL });
+    } catch (error) {
+      console.warn(`⚠️ [${analysisId}] LLM cache write error:`, error);
+    }
+  }
+
+  return { object, llmCache: { hit: false, key } };
+}
@@ -0,0 +1,108 @@
+import type { LanguageModel } from 'ai';
+import { createOpenAI } from '@ai-sdk/openai';
+import { createAnthropic } from '@ai-sdk/anthropic';
+import { DEFAULT_MODEL } from './defaults';
+import { createMockLanguageModel } from './mock-llm';
+
+// Every model call goes through resolveLanguageModel. A session can pick a
+// provider and model; otherwise LLM_PROVIDER / LLM_MODEL apply, then OpenAI
+// with DEFAULT_MODEL.
+//
+// Env per provider:
+//   openai             OPENAI_API_KEY
+//   anthropic          ANTHROPIC_API_KEY
+//   openai-compatible  LLM_BASE_URL (+ LLM_API_KEY) - Ollama, LM Studio, vLLM,
+//                      or Workers AI's /ai/v1 endpoint
+//   mock               nothing; deterministic offline output for CI
+
+export const LLM_PROVIDER_IDS = ['openai', 'anthropic', 'openai-compatible', 'mock'] as const;
+export type LlmProviderId = typeof LLM_PROVIDER_IDS[number];
+
+export interface LlmSelection {
+  provider?: LlmProviderId;
+  model?: string;
+}
+
+export interface ResolvedLanguageModel {
+  provider: LlmProviderId;
+  modelId: string;
+  model: LanguageModel;
+}
+
+interface LlmProvider {
+  defaultModel?: string;
+  // Env var that must be set before the provider can be used
+  requiredEnv?: string;
+  create(modelId: string): LanguageModel;
+}
+
+const PROVIDERS: Record<LlmProviderId, LlmProvider> = {
+  openai: {
+    defaultModel: DEFAULT_MODEL,
+    requiredEnv: 'OPENAI_API_KEY',
+    create: modelId => createOpenAI({ apiKey: process.env.OPENAI_API_KEY })(modelId),
+  },
+  anthropic: {
+    defaultModel: 'claude-sonnet-4-5',
+    requiredEnv: 'ANTHROPIC_API_KEY',
+    create: modelId => createAnthropic({ apiKey: process.env.ANTHROPIC_API_KEY })(modelId),
+  },
+  'openai-compatible': {
+    requiredEnv: 'LLM_BASE_URL',
+    // Compatible servers implement chat completions, not the Responses API
+    create: modelId => createOpenAI({
+      baseURL: process.env.LLM_BASE_URL,
+      apiKey: process.env.LLM_API_KEY || 'not-needed',
+    }).chat(modelId),
+  },
+  mock: {
+    defaultModel: 'mock-site-analysis',
+    create: modelId => createMockLanguageModel(modelId),
+  },
+};
+
+export function isLlmProviderId(value: unknown): value is LlmProviderId {
+  return typeof value === 'string' && (LLM_PROVIDER_IDS as readonly string[]).includes(value);
+}
+
+/**
+ * Check a per-session selection up front, so a bad provider fails the request
+ * instead of every page in the session
+ */
+export function validateLlmSelection(selection: LlmSelection): string | null {
+  if (selection.provider === undefined && !selection.model) return null;
+  if (selection.provider !== undefined && !isLlmProviderId(selection.provider)) {
+    return `Unknown LLM provider "${selection.provider}". Expected one of: ${LLM_PROVIDER_IDS.join(', ')}`;
+  }
+  try {
+    resolveLanguageModel(selection);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+export function resolveLanguageModel(selection: LlmSelection = {}): ResolvedLanguageModel {
+  const envValue = process.env.LLM_PROVIDER;
+  if (envValue && !isLlmProviderId(envValue)) {
+    throw new Error(`LLM_PROVIDER is set to unknown provider "${envValue}"`);
+  }
+  const envProvider = envValue ? envValue as LlmProviderId : undefined;
+
+  const provider: LlmProviderId = selection.provider ?? envProvider ?? 'openai';
+  const definition = PROVIDERS[provider];
+  // LLM_MODEL only applies to the env-selected provider; a session that
+  // switches provider without naming a model gets that provider's default
+  const modelId = selection.model?.trim()
+    || (selection.provider === undefined || selection.provider === envProvider ? process.env.LLM_MODEL : undefined)
+    || definition.defaultModel;
+
+  if (!modelId) {
+    throw new Error(`No model configured for LLM provider "${provider}"; set LLM_MODEL or pass a model`);
+  }
+  if (definition.requiredEnv && !process.env[definition.requiredEnv]) {
+    throw new Error(`LLM provider "${provider}" requires ${definition.requiredEnv} to be set`);
+  }
+
+  return { provider, modelId, model: definition.create(modelId) };
+}
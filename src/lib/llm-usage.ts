@@ -0,0 +1,106 @@
+// Token usage and estimated cost of the model calls behind an analysis.
+// Prices are list prices in USD per million tokens, matched on the model id
+// prefix; models without a known price (local or self-hosted) are tracked
+// with a null cost. Kept free of server imports so SessionPage can use it.
+
+export interface LlmUsage {
+  provider: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  // Time spent waiting on the model, including agent steps
+  latencyMs: number;
+  estimatedCostUsd: number | null;
+  // Answered from the LLM response cache, so nothing was spent
+  cached?: boolean;
+}
+
+export interface SessionUsage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  estimatedCostUsd: number;
+  pages: number;
+  cachedPages: number;
+  // Pages whose model has no known price and are left out of the cost
+  unpricedPages: number;
+}
+
+const MODEL_PRICES: { prefix: string; input: number; output: number }[] = [
+  { prefix: 'gpt-5-nano', input: 0.05, output: 0.4 },
+  { prefix: 'gpt-5-mini', input: 0.25, output: 2 },
+  { prefix: 'gpt-5', input: 1.25, output: 10 },
+  { prefix: 'gpt-4.1-nano', input: 0.1, output: 0.4 },
+  { prefix: 'gpt-4.1-mini', input: 0.4, output: 1.6 },
+  { prefix: 'gpt-4.1', input: 2, output: 8 },
+  { prefix: 'gpt-4o-mini', input: 0.15, output: 0.6 },
+  { prefix: 'gpt-4o', input: 2.5, output: 10 },
+  { prefix: 'o4-mini', input: 1.1, output: 4.4 },
+  { prefix: 'claude-opus-4', input: 15, output: 75 },
+  { prefix: 'claude-sonnet-4', input: 3, output: 15 },
+  { prefix: 'claude-3-7-sonnet', input: 3, output: 15 },
+  { prefix: 'claude-haiku-4', input: 1, output: 5 },
+  { prefix: 'claude-3-5-haiku', input: 0.8, output: 4 },
+  { prefix: 'mock', input: 0, output: 0 },
+];
+
+export function estimateCostUsd(model: string, inputTokens: number, outputTokens: number): number | null {
+  // Longest prefix wins, so gpt-5-mini isn't priced as gpt-5
+  const price = MODEL_PRICES
+    .filter(entry => model.startsWith(entry.prefix))
+    .sort((a, b) => b.prefix.length - a.prefix.length)[0];
+  if (!price) return null;
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+}
+
+/**
+ * Usage for one analysis from the usage reported by each model call it made
+ */
+export function buildLlmUsage({ provider, model, calls, latencyMs, cached = false }: {
+  provider: string;
+  model: string;
+  calls: ({ inputTokens?: number; outputTokens?: number } | undefined)[];
+  latencyMs: number;
+  cached?: boolean;
+}): LlmUsage {
+  const inputTokens = calls.reduce((total, call) => total + (call?.inputTokens ?? 0), 0);
+  const outputTokens = calls.reduce((total, call) => total + (call?.outputTokens ?? 0), 0);
+  return {
+    provider,
+    model,
+    inputTokens,
+    outputTokens,
+    totalTokens: inputTokens + outputTokens,
+    latencyMs,
+    estimatedCostUsd: cached ? 0 : estimateCostUsd(model, inputTokens, outputTokens),
+    ...(cached ? { cached } : {}),
+  };
+}
+
+export function summarizeLlmUsage(results: { usage?: LlmUsage }[]): SessionUsage {
+  const summary: SessionUsage = {
+    inputTokens: 0,
+    outputTokens: 0,
+    totalTokens: 0,
+    estimatedCostUsd: 0,
+    pages: 0,
+    cachedPages: 0,
+    unpricedPages: 0,
+  };
+  for (const { usage } of results) {
+    if (!usage) continue;
+    summary.pages++;
+    summary.inputTokens += usage.inputTokens;
+    summary.outputTokens += usage.outputTokens;
+    summary.totalTokens += usage.totalTokens;
+    if (usage.cached) summary.cachedPages++;
+    if (usage.estimatedCostUsd === null) summary.unpricedPages++;
+    else summary.estimatedCostUsd += usage.estimatedCostUsd;
+  }
+  return summary;
+}
+
+export function formatUsd(amount: number): string {
+  return amount < 0.01 && amount > 0 ? `$${amount.toFixed(4)}` : `$${amount.toFixed(2)}`;
+}
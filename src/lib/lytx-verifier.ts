@@ -0,0 +1,197 @@
+import type { Browser, HTTPRequest, Page } from '@cloudflare/puppeteer';
+import { LYTX_API_SHAPE, LYTX_EVENT_PATH } from '@vendors/lytx';
+import { getRandomUserAgent, SimpleCloudflareBrowserService } from './simple-browser-service';
+
+// Unlike detectLytxInfo, which only looks for the script tag in the HTML,
+// this loads the page in a real browser and checks what actually happened:
+// did lytx.js load, did window.lytxApi initialize with the expected shape, and
+// did lytx.js send a page view to its event endpoint.
+
+const VERIFY_TIMEOUT_MS = 20000;
+// lytx.js is deferred; give it time to run and send its first beacon
+const VERIFY_SETTLE_MS = 3000;
+
+export interface LytxRequest {
+  url: string;
+  method: string;
+  resourceType: string;
+  status?: number;
+  failure?: string;
+}
+
+export interface LytxVerification {
+  url: string;
+  status: 'pass' | 'fail';
+  checks: {
+    scriptTagPresent: boolean;
+    scriptLoaded: boolean;
+    apiInitialized: boolean;
+    apiShapeValid: boolean;
+    beaconSent: boolean;
+    accountMatches?: boolean;
+  };
+  // LytxApi members missing or of the wrong type on window.lytxApi
+  apiMismatches: string[];
+  // Account observed at runtime (currentSiteConfig.tag, else the script's ?account=)
+  accountId: string | null;
+  expectedAccountId?: string;
+  requests: LytxRequest[];
+  errors: string[];
+  verifiedAt: string;
+}
+
+interface RuntimeInspection {
+  scriptTagPresent: boolean;
+  apiInitialized: boolean;
+  apiMismatches: string[];
+  siteConfigTag: string | null;
+}
+
+export function isLytxUrl(url: string): boolean {
+  try {
+    const hostname = new URL(url).hostname;
+    return hostname === 'lytx.io' || hostname.endsWith('.lytx.io');
+  } catch {
+    return false;
+  }
+}
+
+export function isLytxScript(url: string): boolean {
+  return isLytxUrl(url) && new URL(url).pathname.endsWith('/lytx.js');
+}
+
+/**
+ * A page view or event sent by lytx.js, as opposed to any other lytx.io request
+ */
+export function isLytxBeacon(url: string): boolean {
+  return isLytxUrl(url) && new URL(url).pathname.startsWith(LYTX_EVENT_PATH);
+}
+
+function accountFromScriptUrl(url: string): string | null {
+  try {
+    return new URL(url).searchParams.get('account');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Load `url` in Browser Rendering and verify the LYTX installation on it
+ */
+export async function verifyLytxInstallation(url: string, options: { expectedAccountId?: string } = {}): Promise<LytxVerification> {
+  const requestId = Math.random().toString(36).substring(7);
+  const browserService = new SimpleCloudflareBrowserService();
+  const requests = new Map<HTTPRequest, LytxRequest>();
+  const errors: string[] = [];
+
+  console.log(`[${requestId}] 🔬 Verifying LYTX installation on ${url}`);
+  const browser: Browser = (await browserService.connectBrowser(requestId)).browser;
+
+  try {
+    const page: Page = await browser.newPage();
+    try {
+      await page.setViewport({ width: 1280, height: 720 });
+      await page.setUserAgent(getRandomUserAgent());
+
+      // No request interception here: blocking anything could break the tag
+      page.on('request', req => {
+        if (isLytxUrl(req.url())) {
+          requests.set(req, { url: req.url(), method: req.method(), resourceType: req.resourceType() });
+        }
+      });
+      page.on('response', res => {
+        const entry = requests.get(res.request());
+        if (entry) entry.status = res.status();
+      });
+      page.on('requestfailed', req => {
+        const entry = requests.get(req);
+        if (entry) entry.failure = req.failure()?.errorText ?? 'failed';
+      });
+      page.on('pageerror', error => {
+        if (errors.length < 10) errors.push(error.message);
+      });
+
+      await page.goto(url, { waitUntil: 'networkidle2', timeout: VERIFY_TIMEOUT_MS });
+      await new Promise(resolve => setTimeout(resolve, VERIFY_SETTLE_MS));
+
+      const inspection: RuntimeInspection = await page.evaluate((shape: Record<string, string>) => {
+        const api = (window as any).lytxApi;
+        const scriptTagPresent = Array.from(document.querySelectorAll('script[src]'))
+          .some(script => /(^|\.)lytx\.io$/.test(new URL((script as HTMLScriptElement).src, location.href).hostname));
+
+        if (!api || typeof api !== 'object') {
+          return { scriptTagPresent, apiInitialized: false, apiMismatches: Object.keys(shape), siteConfigTag: null };
+        }
+
+        const apiMismatches = Object.entries(shape)
+          .filter(([member, expected]) => api[member] === null || typeof api[member] !== expected)
+          .map(([member, expected]) => `${member}: expected ${expected}, got ${api[member] === null ? 'null' : typeof api[member]}`);
+        const tag = api.currentSiteConfig?.tag;
+        return { scriptTagPresent, apiInitialized: true, apiMismatches, siteConfigTag: typeof tag === 'string' && tag ? tag : null };
+      }, LYTX_API_SHAPE);
+
+      const recorded = Array.from(requests.values());
+      const scriptRequests = recorded.filter(request => isLytxScript(request.url));
+      const scriptLoaded = scriptRequests.some(request => !request.failure && request.status !== undefined && request.status < 400);
+      const beaconSent = recorded.some(request => isLytxBeacon(request.url) && !request.failure);
+
+      const accountId = inspection.siteConfigTag
+        ?? scriptRequests.map(request => accountFromScriptUrl(request.url)).find(Boolean)
+        ?? null;
+      const accountMatches = options.expectedAccountId ? accountId === options.expectedAccountId : undefined;
+
+      const checks = {
+        scriptTagPresent: inspection.scriptTagPresent,
+        scriptLoaded,
+        apiInitialized: inspection.apiInitialized,
+        apiShapeValid: inspection.apiInitialized && inspection.apiMismatches.length === 0,
+        beaconSent,
+        accountMatches,
+      };
+      // The script tag itself isn't required: tag managers inject lytx.js at runtime
+      const passed = checks.scriptLoaded && checks.apiShapeValid && checks.beaconSent && accountMatches !== false;
+
+      console.log(`[${requestId}] ${passed ? '✅' : '❌'} LYTX verification ${passed ? 'passed' : 'failed'} for ${url}`, checks);
+      return {
+        url,
+        status: passed ? 'pass' : 'fail',
+        checks,
+        apiMismatches: inspection.apiMismatches,
+        accountId,
+        expectedAccountId: options.expectedAccountId,
+        requests: recorded,
+        errors,
+        verifiedAt: new Date().toISOString(),
+      };
+    } finally {
+      await page.close();
+    }
+  } finally {
+    // Disconnect instead of close so the session can be reused
+    browser.disconnect();
+  }
+}
+
+/**
+ * Verification result for a page that couldn't be loaded at all
+ */
+export function createFailedVerification(url: string, error: unknown, expectedAccountId?: string): LytxVerification {
+  return {
+    url,
+    status: 'fail',
+    checks: {
+      scriptTagPresent: false,
+      scriptLoaded: false,
+      apiInitialized: false,
+      apiShapeValid: false,
+      beaconSent: false,
+      accountMatches: expectedAccountId ? false : undefined,
+    },
+    apiMismatches: [],
+    accountId: null,
+    expectedAccountId,
+    requests: [],
+    errors: [error instanceof Error ? error.message : String(error)],
+    verifiedAt: new Date().toISOString(),
+  };
+}
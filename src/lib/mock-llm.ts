@@ -0,0 +1,186 @@
+import type { LanguageModel } from 'ai';
+import type { SiteAnalysisResult } from './types';
+
+// Offline stand-in for a real model. Output depends only on the prompt, so the
+// whole session pipeline can run in CI without network or API keys:
+// - SiteAnalysisResult requests get a fixture built from the page digest
+// - any other JSON request gets the simplest value matching its schema
+// - plain text requests (agent investigations) get fixed findings
+
+type LanguageModelV2 = Exclude<LanguageModel, string>;
+type CallOptions = Parameters<LanguageModelV2['doGenerate']>[0];
+type GenerateResult = Awaited<ReturnType<LanguageModelV2['doGenerate']>>;
+type JsonSchema = {
+  type?: string | string[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: unknown[];
+  const?: unknown;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+};
+
+const CHARS_PER_TOKEN = 4;
+
+function promptText(options: CallOptions): string {
+  return options.prompt
+    .filter(message => message.role === 'user' || message.role === 'system')
+    .map(message => typeof message.content === 'string'
+      ? message.content
+      : message.content.map(part => (part.type === 'text' ? part.text : '')).join('\n'))
+    .join('\n');
+}
+
+function isSiteAnalysisSchema(schema: JsonSchema | undefined): boolean {
+  return !!schema?.properties?.pageAnalysis && !!schema.properties.lytxRecommendations;
+}
+
+/**
+ * Fixture analysis for the page described in an analysis prompt. Reads the
+ * URL, digest title, forms and CTAs so different pages get different output.
+ */
+export function createMockSiteAnalysis(prompt: string): SiteAnalysisResult {
+  const url = prompt.match(/https?:\/\/[^\s'"`]+/)?.[0] ?? 'https://example.com/';
+  const title = prompt.match(/^Title: (.+)$/m)?.[1] ?? 'Mock page';
+  const lytxDetected = /Existing LYTX script detected/.test(prompt);
+  const forms = Array.from(prompt.matchAll(/^- form (\S+)/gm), match => match[1]);
+  const ctas = Array.from(prompt.matchAll(/^- (?:a|button|input) "([^"]+)"/gm), match => match[1]);
+
+  const trackingEvents: SiteAnalysisResult['lytxRecommendations']['trackingEvents'] = [
+    {
+      event: 'page_view',
+      trigger: 'Page load',
+      implementation: 'Automatic with the core LYTX script',
+      conversionImpact: 'low',
+    },
+    ...forms.slice(0, 2).map(form => ({
+      event: 'form_submit',
+      trigger: `Submit of form ${form}`,
+      implementation: `document.querySelector('${form.startsWith('#') ? form : 'form'}')?.addEventListener('submit', () => window.lytxApi.event('<ACCOUNT>', 'web', 'form_submit'));`,
+      conversionImpact: 'high' as const,
+      conversionReason: 'Form submissions are the primary lead conversion on this page',
+    })),
+    ...ctas.slice(0, 2).map(text => ({
+      event: 'cta_click',
+      trigger: `Click on "${text}"`,
+      implementation: `window.lytxApi.event('<ACCOUNT>', 'web', 'cta_click')`,
+      conversionImpact: 'medium' as const,
+    })),
+  ];
+
+  return {
+    pageAnalysis: {
+      url,
+      title,
+      description: `Mock analysis of ${url}`,
+      headings: [{ level: 1, text: title }],
+      keyContent: `Deterministic mock content for ${title}.`,
+      technicalStack: { analytics: lytxDetected ? ['LYTX'] : [] },
+      seoMetrics: {
+        hasMetaTitle: title !== 'Mock page',
+        hasMetaDescription: false,
+        hasStructuredData: false,
+        imageCount: 0,
+        linkCount: 0,
+      },
+    },
+    lytxRecommendations: {
+      tagPlacements: lytxDetected ? [] : [{
+        location: 'head',
+        reason: 'Core LYTX script for page views',
+        priority: 'high',
+        code: '<script defer src="https://lytx.io/lytx.js?account=<ACCOUNT>"></script>',
+      }],
+      trackingEvents,
+      optimizations: [{
+        category: 'conversion',
+        suggestion: 'Mock optimization: track the primary conversion on this page',
+        impact: 'medium',
+      }],
+    },
+    analysisId: 'mock-analysis',
+    timestamp: '1970-01-01T00:00:00.000Z',
+    detectedLytxAccount: null,
+  };
+}
+
+/**
+ * Smallest value that satisfies a JSON schema: first enum/anyOf option, empty
+ * strings become "mock", arrays get one item, objects get their required keys.
+ */
+export function sampleFromSchema(schema: JsonSchema | undefined, key = 'value'): unknown {
+  if (!schema) return null;
+  if (schema.const !== undefined) return schema.const;
+  if (schema.enum?.length) return schema.enum[0];
+  const option = schema.anyOf?.[0] ?? schema.oneOf?.[0];
+  if (option) return sampleFromSchema(option, key);
+
+  const type = Array.isArray(schema.type) ? schema.type.find(t => t !== 'null') ?? 'null' : schema.type;
+  switch (type) {
+    case 'object': {
+      const required = new Set(schema.required ?? []);
+      return Object.fromEntries(Object.entries(schema.properties ?? {})
+        .filter(([name]) => required.has(name))
+        .map(([name, property]) => [name, sampleFromSchema(property, name)]));
+    }
+    case 'array':
+      return [sampleFromSchema(schema.items, key)];
+    case 'string':
+      return `mock ${key}`;
+    case 'number':
+    case 'integer':
+      return 0;
+    case 'boolean':
+      return false;
+    default:
+      return null;
+  }
+}
+
+function respond(options: CallOptions): string {
+  const prompt = promptText(options);
+  if (options.responseFormat?.type === 'json') {
+    const schema = options.responseFormat.schema as JsonSchema | undefined;
+    return JSON.stringify(isSiteAnalysisSchema(schema) ? createMockSiteAnalysis(prompt) : sampleFromSchema(schema));
+  }
+  return 'Mock investigation: no tools were called. The page digest was used as-is.';
+}
+
+export function createMockLanguageModel(modelId: string): LanguageModelV2 {
+  const generate = async (options: CallOptions): Promise<GenerateResult> => {
+    const text = respond(options);
+    const inputTokens = Math.ceil(promptText(options).length / CHARS_PER_TOKEN);
+    const outputTokens = Math.ceil(text.length / CHARS_PER_TOKEN);
+    return {
+      content: [{ type: 'text', text }],
+      finishReason: 'stop',
+      usage: { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens },
+      warnings: [],
+    };
+  };
+
+  return {
+    specificationVersion: 'v2',
+    provider: 'mock',
+    modelId,
+    supportedUrls: {},
+    doGenerate: generate,
+    async doStream(options) {
+      const { content, finishReason, usage } = await generate(options);
+      const text = content.map(part => (part.type === 'text' ? part.text : '')).join('');
+      return {
+        stream: new ReadableStream({
+          start(controller) {
+            controller.enqueue({ type: 'stream-start', warnings: [] });
+            controller.enqueue({ type: 'text-start', id: '0' });
+            controller.enqueue({ type: 'text-delta', id: '0', delta: text });
+            controller.enqueue({ type: 'text-end', id: '0' });
+            controller.enqueue({ type: 'finish', finishReason, usage });
+            controller.close();
+          },
+        }),
+      };
+    },
+  };
+}
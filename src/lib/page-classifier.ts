@@ -0,0 +1,180 @@
+import type { PageDigest } from './page-digest';
+import type { PageType } from './types';
+
+// Labels a page with a PageType from its URL, structured data and DOM
+// signals. Each signal adds weight to one type and the heaviest type wins;
+// the label then picks the event template the recommendations follow (see
+// event-templates.ts), so pages of the same type get the same events.
+
+export interface PageClassification {
+  pageType: PageType;
+  // Winning score as a share of all scores, 0-1
+  confidence: number;
+  // Why, strongest first
+  signals: string[];
+}
+
+interface Signal {
+  pageType: PageType;
+  weight: number;
+  reason: string;
+}
+
+// Scores below this are too weak to call
+const MIN_SCORE = 2;
+
+// Order breaks ties: the more specific funnel step wins
+const TIE_ORDER: PageType[] = ['checkout', 'cart', 'product', 'category', 'pricing', 'contact', 'docs', 'blog-post', 'landing', 'home', 'other'];
+
+const URL_PATTERNS: [PageType, RegExp, number][] = [
+  ['cart', /\/(cart|basket|bag)(\/|$)/i, 3],
+  ['checkout', /\/(checkout|payment)(\/|$)/i, 3],
+  ['product', /\/(products?|p|item|items|dp|sku)\/[^/]+/i, 3],
+  ['category', /\/(categor(y|ies)|collections?|c|shop|catalog|department)(\/|$)/i, 3],
+  ['blog-post', /\/(blog|news|articles?|posts?|stories|insights)\/[^/]+|\/\d{4}\/\d{2}\//i, 3],
+  ['blog-post', /\/(blog|news)\/?$/i, 1],
+  ['contact', /\/(contact(-us)?|get-in-touch|support|help)(\/|$)/i, 3],
+  ['pricing', /\/(pricing|plans|prices)(\/|$)/i, 3],
+  ['docs', /\/(docs?|documentation|guides?|reference|developers?|api|kb|knowledge-base)(\/|$)/i, 3],
+  ['landing', /\/(lp|landing|campaigns?|promo|offer|get-started|demo|free-trial|sign-?up|register)(\/|$)/i, 2],
+];
+
+const JSON_LD_TYPES: Record<string, [PageType, number]> = {
+  Product: ['product', 4],
+  ProductGroup: ['product', 4],
+  ItemList: ['category', 2],
+  CollectionPage: ['category', 3],
+  OfferCatalog: ['category', 3],
+  BlogPosting: ['blog-post', 4],
+  Article: ['blog-post', 3],
+  NewsArticle: ['blog-post', 4],
+  TechArticle: ['docs', 3],
+  CheckoutPage: ['checkout', 4],
+  ContactPage: ['contact', 4],
+};
+
+const ADD_TO_CART = /add to (cart|bag|basket)|buy now|add to order/i;
+const CHECKOUT_CTA = /(proceed to|go to|continue to)? ?checkout|view (cart|bag|basket)/i;
+const PLACE_ORDER = /place (your )?order|pay now|complete (order|purchase)|confirm (and|&) pay/i;
+const PAYMENT_FIELD = /card|cc-|cvc|cvv|expir|billing|shipping|postal|zip/i;
+const PRICING_TEXT = /pricing|plans?\b|per (month|year|user|seat)|\/mo\b|billed (monthly|annually|yearly)/i;
+const CONTACT_TEXT = /contact|get in touch|talk to (us|sales)|send (us )?a message/i;
+const DOCS_TEXT = /documentation|api reference|getting started|quick ?start|installation|sdk/i;
+const SIGNUP_CTA = /get started|start (your )?free trial|try (it )?(for )?free|sign up|book a demo|request (a )?demo|claim|download (the|our|free)/i;
+
+function urlSignals(url: string): Signal[] {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return [];
+  }
+  const path = parsed.pathname;
+  if (/^\/([a-z]{2}(-[a-z]{2})?\/?)?(index\.html?)?$/i.test(path)) {
+    return [{ pageType: 'home', weight: 4, reason: 'site root URL' }];
+  }
+
+  const signals = URL_PATTERNS
+    .filter(([, pattern]) => pattern.test(path))
+    .map(([pageType, , weight]) => ({ pageType, weight, reason: `URL ${path}` }));
+  if (/^(docs|developers?|help|support)\./i.test(parsed.hostname)) {
+    signals.push({ pageType: 'docs', weight: 2, reason: `${parsed.hostname} subdomain` });
+  }
+  if (parsed.searchParams.has('utm_campaign')) {
+    signals.push({ pageType: 'landing', weight: 1, reason: 'campaign URL parameters' });
+  }
+  return signals;
+}
+
+function digestSignals(digest: PageDigest): Signal[] {
+  const signals: Signal[] = [];
+  const add = (pageType: PageType, weight: number, reason: string) => signals.push({ pageType, weight, reason });
+
+  for (const type of digest.jsonLdTypes) {
+    const match = JSON_LD_TYPES[type];
+    if (match) add(match[0], match[1], `JSON-LD ${type}`);
+  }
+  const ogType = digest.meta['og:type'];
+  if (ogType === 'product') add('product', 3, 'og:type product');
+  if (ogType === 'article') add('blog-post', 3, 'og:type article');
+
+  const ctaTexts = [
+    ...digest.ctas.map(cta => cta.text),
+    ...digest.forms.flatMap(form => form.submitLabels),
+  ];
+  const headingText = digest.headings.map(heading => heading.text).join('\n');
+  const fields = digest.forms.flatMap(form => form.fields);
+
+  const addToCartCount = ctaTexts.filter(text => ADD_TO_CART.test(text)).length;
+  if (addToCartCount >= 3) add('category', 3, `${addToCartCount} add-to-cart buttons`);
+  else if (addToCartCount > 0) add('product', 3, 'add-to-cart button');
+
+  if (ctaTexts.some(text => PLACE_ORDER.test(text))) add('checkout', 3, 'place-order button');
+  const paymentFields = fields.filter(field => PAYMENT_FIELD.test(`${field.name ?? ''} ${field.label ?? ''}`)).length;
+  if (paymentFields >= 2) add('checkout', 3, `${paymentFields} payment/address fields`);
+
+  if (ctaTexts.some(text => CHECKOUT_CTA.test(text)) && !addToCartCount) add('cart', 2, 'checkout button');
+  if (/^(your )?(shopping )?(cart|bag|basket)\b/im.test(headingText)) add('cart', 2, 'cart heading');
+
+  const { prices, articles, codeBlocks } = digest.counts;
+  if (prices >= 2 && PRICING_TEXT.test(`${headingText}\n${ctaTexts.join('\n')}`)) add('pricing', 3, `${prices} prices with plan wording`);
+  else if (PRICING_TEXT.test(headingText)) add('pricing', 2, 'pricing heading');
+  if (prices > 0 && prices <= 3 && addToCartCount > 0) add('product', 1, 'price element');
+  if (prices >= 6 && addToCartCount !== 1) add('category', 1, `${prices} price elements`);
+
+  if (articles === 1) add('blog-post', 2, 'single <article>');
+  if (articles >= 4) add('category', 1, `${articles} <article> cards`);
+
+  const contactForm = digest.forms.some(form =>
+    form.fields.some(field => field.tag === 'textarea') && form.fields.some(field => field.type === 'email' || /email/i.test(field.name ?? '')));
+  if (contactForm) add('contact', 3, 'message form with email field');
+  if (CONTACT_TEXT.test(headingText)) add('contact', 2, 'contact heading');
+
+  if (codeBlocks >= 2) add('docs', 2, `${codeBlocks} code blocks`);
+  if (DOCS_TEXT.test(headingText)) add('docs', 2, 'documentation heading');
+
+  const signupCtas = ctaTexts.filter(text => SIGNUP_CTA.test(text)).length;
+  if (signupCtas > 0 && digest.nav.length <= 3) add('landing', 3, 'signup CTA with little navigation');
+  else if (signupCtas >= 2) add('landing', 1, `${signupCtas} signup CTAs`);
+
+  return signals;
+}
+
+/**
+ * Classify the page a digest describes. Falls back to 'other' when no type
+ * gathers enough evidence.
+ */
+export function classifyPage(digest: PageDigest): PageClassification {
+  return scoreSignals([...urlSignals(digest.url), ...digestSignals(digest)]);
+}
+
+/**
+ * URL-only classification, for results analyzed before pages were classified
+ */
+export function classifyPageUrl(url: string): PageType {
+  return scoreSignals(urlSignals(url)).pageType;
+}
+
+function scoreSignals(signals: Signal[]): PageClassification {
+  const scores = new Map<PageType, number>();
+  for (const signal of signals) {
+    scores.set(signal.pageType, (scores.get(signal.pageType) ?? 0) + signal.weight);
+  }
+
+  const ranked = Array.from(scores.entries())
+    .sort((a, b) => b[1] - a[1] || TIE_ORDER.indexOf(a[0]) - TIE_ORDER.indexOf(b[0]));
+  const [best] = ranked;
+  if (!best || best[1] < MIN_SCORE) {
+    return { pageType: 'other', confidence: 0, signals: signals.map(signal => signal.reason) };
+  }
+
+  const total = ranked.reduce((sum, [, score]) => sum + score, 0);
+  return {
+    pageType: best[0],
+    confidence: Math.round((best[1] / total) * 100) / 100,
+    signals: signals
+      .filter(signal => signal.pageType === best[0])
+      .sort((a, b) => b.weight - a.weight)
+      .map(signal => signal.reason),
+  };
+}
@@ -0,0 +1,429 @@
+import { matchScriptFingerprints } from './tech-fingerprints';
+import type { TechnologyCategory } from './types';
+
+// Turns raw page HTML into a compact, structured digest for the model.
+// Sending the first few KB of HTML mostly showed the model <head> boilerplate;
+// the digest keeps what the analysis is about (forms, CTAs, navigation, vendors)
+// and drops the markup around it.
+
+// Rough heuristic used to keep the digest inside DIGEST_TOKEN_BUDGET
+const CHARS_PER_TOKEN = 4;
+const MAX_TEXT_LENGTH = 120;
+const MAX_INLINE_SCRIPT_SCAN = 20000;
+
+export interface DigestField {
+  tag: string;
+  type?: string;
+  name?: string;
+  label?: string;
+  required: boolean;
+}
+
+export interface DigestForm {
+  id?: string;
+  name?: string;
+  action?: string;
+  method: string;
+  fields: DigestField[];
+  submitLabels: string[];
+}
+
+export interface DigestCta {
+  tag: string;
+  text: string;
+  href?: string;
+  selector?: string;
+}
+
+export interface DigestLink {
+  text: string;
+  href: string;
+}
+
+export interface PageDigest {
+  url: string;
+  title: string;
+  lang?: string;
+  meta: Record<string, string>;
+  headings: { level: number; text: string }[];
+  forms: DigestForm[];
+  ctas: DigestCta[];
+  nav: DigestLink[];
+  outboundLinks: DigestLink[];
+  scriptVendors: string[];
+  scriptHosts: string[];
+  jsonLdTypes: string[];
+  // articles, prices and code blocks are page-type signals for the classifier
+  counts: { links: number; images: number; iframes: number; scripts: number; articles: number; prices: number; codeBlocks: number };
+}
+
+// Digest vendors are third-party tags; the site's own framework or CMS isn't one
+const NON_VENDOR_CATEGORIES: TechnologyCategory[] = ['framework', 'cms'];
+
+function vendorNames(script: { src?: string; text?: string }): string[] {
+  return matchScriptFingerprints(script)
+    .filter(fingerprint => !NON_VENDOR_CATEGORIES.includes(fingerprint.category))
+    .map(fingerprint => fingerprint.name);
+}
+
+const CTA_PATTERN = /\b(btn|button|cta)\b/i;
+
+function cleanText(text: string): string {
+  const collapsed = text.replace(/\s+/g, ' ').trim();
+  return collapsed.length > MAX_TEXT_LENGTH ? `${collapsed.slice(0, MAX_TEXT_LENGTH - 1)}…` : collapsed;
+}
+
+function resolveUrl(href: string, base: string): URL | null {
+  try {
+    return new URL(href, base);
+  } catch {
+    return null;
+  }
+}
+
+function selectorFor(element: Element): string | undefined {
+  const id = element.getAttribute('id');
+  if (id) return `#${id}`;
+  const classes = (element.getAttribute('class') || '').trim().split(/\s+/).filter(Boolean).slice(0, 2);
+  return classes.length ? `${element.tagName}.${classes.join('.')}` : undefined;
+}
+
+export function collectJsonLdTypes(value: unknown, types: Set<string>) {
+  if (Array.isArray(value)) {
+    value.forEach(item => collectJsonLdTypes(item, types));
+  } else if (value && typeof value === 'object') {
+    const node = value as Record<string, unknown>;
+    const type = node['@type'];
+    if (typeof type === 'string') types.add(type);
+    if (Array.isArray(type)) type.filter(t => typeof t === 'string').forEach(t => types.add(t));
+    if (node['@graph']) collectJsonLdTypes(node['@graph'], types);
+  }
+}
+
+/**
+ * Stream `html` through HTMLRewriter and pull out the parts of the page that
+ * matter for analytics planning
+ */
+export async function extractPageDigest(html: string, url: string): Promise<PageDigest> {
+  const digest: PageDigest = {
+    url,
+    title: '',
+    meta: {},
+    headings: [],
+    forms: [],
+    ctas: [],
+    nav: [],
+    outboundLinks: [],
+    scriptVendors: [],
+    scriptHosts: [],
+    jsonLdTypes: [],
+    counts: { links: 0, images: 0, iframes: 0, scripts: 0, articles: 0, prices: 0, codeBlocks: 0 },
+  };
+
+  const pageHost = resolveUrl(url, url)?.hostname ?? '';
+  const labels = new Map<string, string>();
+  const fieldIds = new Map<DigestField, string>();
+  const vendors = new Set<string>();
+  const scriptHosts = new Set<string>();
+  const jsonLdTypes = new Set<string>();
+  const seenLinks = new Set<string>();
+  const seenCtas = new Set<string>();
+
+  let title: string | null = null;
+  // <title> inside inline SVG is an accessibility label, not the page title
+  let svgDepth = 0;
+  let currentForm: DigestForm | null = null;
+  let navDepth = 0;
+  // Text of the innermost element we're capturing; finished on its end tag
+  let capture: { text: string } | null = null;
+  let inlineScript: { text: string; jsonLd: boolean } | null = null;
+
+  const captureText = (element: Element, onDone: (text: string) => void) => {
+    const target = { text: '' };
+    const previous = capture;
+    capture = target;
+    // Handlers run after the element is gone; read attributes before this
+    element.onEndTag(() => {
+      capture = previous;
+      if (previous) previous.text += target.text;
+      onDone(cleanText(target.text));
+    });
+  };
+
+  const addCta = (cta: DigestCta) => {
+    const key = `${cta.text}|${cta.href ?? ''}`;
+    if (!cta.text || seenCtas.has(key)) return;
+    seenCtas.add(key);
+    digest.ctas.push(cta);
+  };
+
+  const rewriter = new HTMLRewriter()
+    .on('html', {
+      element(element) {
+        digest.lang = element.getAttribute('lang') || undefined;
+      },
+    })
+    .on('svg', {
+      element(element) {
+        svgDepth++;
+        element.onEndTag(() => { svgDepth--; });
+      },
+    })
+    .on('title', {
+      element(element) {
+        if (svgDepth > 0 || title !== null) return;
+        title = '';
+        captureText(element, text => { title = text; });
+      },
+    })
+    .on('meta', {
+      element(element) {
+        const key = element.getAttribute('name') || element.getAttribute('property');
+        const content = element.getAttribute('content');
+        if (key && content && /^(description|keywords|robots|generator|og:|twitter:card)/i.test(key)) {
+          digest.meta[key.toLowerCase()] = cleanText(content);
+        }
+      },
+    })
+    .on('link[rel="canonical"]', {
+      element(element) {
+        const href = element.getAttribute('href');
+        if (href) digest.meta.canonical = href;
+      },
+    })
+    .on('h1, h2, h3, h4', {
+      element(element) {
+        const level = Number(element.tagName.slice(1));
+        captureText(element, text => {
+          if (text) digest.headings.push({ level, text });
+        });
+      },
+    })
+    .on('nav, header', {
+      element(element) {
+        navDepth++;
+        element.onEndTag(() => { navDepth--; });
+      },
+    })
+    .on('form', {
+      element(element) {
+        const form: DigestForm = {
+          id: element.getAttribute('id') || undefined,
+          name: element.getAttribute('name') || undefined,
+          action: element.getAttribute('action') || undefined,
+          method: (element.getAttribute('method') || 'get').toLowerCase(),
+          fields: [],
+          submitLabels: [],
+        };
+        digest.forms.push(form);
+        currentForm = form;
+        element.onEndTag(() => { currentForm = null; });
+      },
+    })
+    .on('label', {
+      element(element) {
+        const target = element.getAttribute('for');
+        captureText(element, text => {
+          if (target && text) labels.set(target, text);
+        });
+      },
+    })
+    .on('input, select, textarea', {
+      element(element) {
+        const type = element.tagName === 'input' ? (element.getAttribute('type') || 'text').toLowerCase() : undefined;
+        if (type === 'submit' || type === 'button') {
+          const text = cleanText(element.getAttribute('value') || 'Submit');
+          if (currentForm && type === 'submit') currentForm.submitLabels.push(text);
+          else addCta({ tag: 'input', text, selector: selectorFor(element) });
+          return;
+        }
+        if (!currentForm || type === 'hidden') return;
+        const field: DigestField = {
+          tag: element.tagName,
+          type,
+          name: element.getAttribute('name') || undefined,
+          label: element.getAttribute('aria-label') || element.getAttribute('placeholder') || undefined,
+          required: element.hasAttribute('required'),
+        };
+        const id = element.getAttribute('id');
+        if (id) fieldIds.set(field, id);
+        currentForm.fields.push(field);
+      },
+    })
+    .on('button, [role="button"]', {
+      element(element) {
+        const form = currentForm;
+        const tag = element.tagName;
+        const isSubmit = tag === 'button' && (element.getAttribute('type') || 'submit') === 'submit';
+        const selector = selectorFor(element);
+        const ariaLabel = element.getAttribute('aria-label');
+        captureText(element, text => {
+          const label = text || cleanText(ariaLabel || '');
+          if (form && isSubmit) {
+            if (label) form.submitLabels.push(label);
+          } else {
+            addCta({ tag, text: label, selector });
+          }
+        });
+      },
+    })
+    .on('a[href]', {
+      element(element) {
+        digest.counts.links++;
+        const href = element.getAttribute('href') || '';
+        const resolved = resolveUrl(href, url);
+        if (!resolved || !/^https?:$/.test(resolved.protocol)) return;
+
+        const inNav = navDepth > 0;
+        const isCta = CTA_PATTERN.test(element.getAttribute('class') || '') || element.getAttribute('role') === 'button';
+        const isOutbound = resolved.hostname !== pageHost;
+        if (!inNav && !isCta && !isOutbound) return;
+
+        const selector = selectorFor(element);
+        const ariaLabel = element.getAttribute('aria-label');
+        captureText(element, text => {
+          const label = text || cleanText(ariaLabel || '');
+          const link = isOutbound ? resolved.href : `${resolved.pathname}${resolved.search}`;
+          if (isCta) addCta({ tag: 'a', text: label, href: link, selector });
+          if (!label || seenLinks.has(resolved.href)) return;
+          seenLinks.add(resolved.href);
+          if (inNav && !isOutbound) digest.nav.push({ text: label, href: link });
+          else if (isOutbound) digest.outboundLinks.push({ text: label, href: link });
+        });
+      },
+    })
+    .on('img', {
+      element() {
+        digest.counts.images++;
+      },
+    })
+    .on('article', {
+      element() {
+        digest.counts.articles++;
+      },
+    })
+    .on('[itemprop="price"], [data-price], [class*="price"]', {
+      element() {
+        digest.counts.prices++;
+      },
+    })
+    .on('pre', {
+      element() {
+        digest.counts.codeBlocks++;
+      },
+    })
+    .on('iframe', {
+      element(element) {
+        digest.counts.iframes++;
+        const src = resolveUrl(element.getAttribute('src') || '', url);
+        if (src && src.hostname !== pageHost) scriptHosts.add(src.hostname);
+      },
+    })
+    .on('script', {
+      element(element) {
+        digest.counts.scripts++;
+        const src = element.getAttribute('src');
+        if (src) {
+          const resolved = resolveUrl(src, url);
+          if (!resolved) return;
+          if (resolved.hostname !== pageHost) scriptHosts.add(resolved.hostname);
+          for (const name of vendorNames({ src: `${resolved.hostname}${resolved.pathname}${resolved.search}` })) vendors.add(name);
+          return;
+        }
+
+        const script = { text: '', jsonLd: element.getAttribute('type') === 'application/ld+json' };
+        inlineScript = script;
+        element.onEndTag(() => {
+          inlineScript = null;
+          if (script.jsonLd) {
+            try {
+              collectJsonLdTypes(JSON.parse(script.text), jsonLdTypes);
+            } catch {
+              // Malformed JSON-LD is common; just skip it
+            }
+            return;
+          }
+          for (const name of vendorNames({ text: script.text })) vendors.add(name);
+        });
+      },
+      text(chunk) {
+        if (inlineScript && (inlineScript.jsonLd || inlineScript.text.length < MAX_INLINE_SCRIPT_SCAN)) {
+          inlineScript.text += chunk.text;
+        }
+      },
+    })
+    .onDocument({
+      text(chunk) {
+        if (capture) capture.text += chunk.text;
+      },
+    });
+
+  // Drain the transformed body; we only care about the handler side effects
+  await rewriter.transform(new Response(html, { headers: { 'Content-Type': 'text/html' } })).arrayBuffer();
+
+  for (const form of digest.forms) {
+    for (const field of form.fields) {
+      const id = fieldIds.get(field);
+      if (id && labels.has(id)) field.label = labels.get(id);
+    }
+  }
+
+  digest.title = title ?? '';
+  digest.scriptVendors = Array.from(vendors);
+  digest.scriptHosts = Array.from(scriptHosts);
+  digest.jsonLdTypes = Array.from(jsonLdTypes);
+  return digest;
+}
+
+function formatForm(form: DigestForm): string {
+  const name = form.id ? `#${form.id}` : form.name || '(unnamed)';
+  const fields = form.fields
+    .map(field => `${field.name || field.label || field.tag}:${field.type || field.tag}${field.required ? '*' : ''}${field.label && field.name ? ` "${field.label}"` : ''}`)
+    .join(', ');
+  const submit = form.submitLabels.length ? ` submit="${form.submitLabels.join('" / "')}"` : '';
+  return `- form ${name} ${form.method.toUpperCase()} ${form.action || '(same page)'}${submit}\n  fields: ${fields || '(none)'}`;
+}
+
+/**
+ * Serialize a digest into the prompt, dropping lower-priority entries once
+ * `tokenBudget` is used up. Sections are ordered by how much the analysis
+ * depends on them, so forms and CTAs survive long after outbound links.
+ */
+export function formatPageDigest(digest: PageDigest, tokenBudget: number): string {
+  let remaining = tokenBudget * CHARS_PER_TOKEN;
+  const output: string[] = [];
+  let omitted = 0;
+
+  const push = (line: string): boolean => {
+    if (line.length + 1 > remaining) {
+      omitted++;
+      return false;
+    }
+    output.push(line);
+    remaining -= line.length + 1;
+    return true;
+  };
+
+  const section = (heading: string, lines: string[]) => {
+    if (!lines.length || !push(`\n${heading}:`)) return;
+    lines.forEach(push);
+  };
+
+  push(`Title: ${digest.title || '(none)'}`);
+  if (digest.lang) push(`Language: ${digest.lang}`);
+  section('Meta', Object.entries(digest.meta).map(([key, value]) => `- ${key}: ${value}`));
+  section('Scripts', [
+    `- vendors: ${digest.scriptVendors.join(', ') || 'none detected'}`,
+    `- third-party hosts: ${digest.scriptHosts.join(', ') || 'none'}`,
+    ...(digest.jsonLdTypes.length ? [`- JSON-LD types: ${digest.jsonLdTypes.join(', ')}`] : []),
+    `- counts: ${digest.counts.scripts} scripts, ${digest.counts.links} links, ${digest.counts.images} images, ${digest.counts.iframes} iframes`,
+  ]);
+  section('Forms', digest.forms.map(formatForm));
+  section('Buttons / CTAs', digest.ctas.map(cta => `- ${cta.tag} "${cta.text}"${cta.href ? ` -> ${cta.href}` : ''}${cta.selector ? ` (${cta.selector})` : ''}`));
+  section('Headings', digest.headings.map(heading => `${'  '.repeat(heading.level - 1)}- h${heading.level}: ${heading.text}`));
+  section('Navigation', digest.nav.map(link => `- ${link.text} -> ${link.href}`));
+  section('Outbound links', digest.outboundLinks.map(link => `- ${link.text} -> ${link.href}`));
+
+  if (omitted > 0) output.push(`\n(${omitted} entries omitted to fit the token budget)`);
+  return output.join('\n');
+}
@@ -0,0 +1,203 @@
+import { env } from 'cloudflare:workers';
+import { CRAWL_USER_AGENT, MAX_CRAWL_DELAY_MS, ROBOTS_CACHE_TTL, ROBOTS_PRODUCT_TOKEN } from './defaults';
+
+export const ROBOTS_DISALLOWED_REASON = 'disallowed by robots.txt';
+
+interface RobotsRule {
+  allow: boolean;
+  path: string;
+}
+
+interface RobotsGroup {
+  userAgents: string[];
+  rules: RobotsRule[];
+  crawlDelay?: number;
+}
+
+export interface ParsedRobotsTxt {
+  groups: RobotsGroup[];
+  sitemaps: string[];
+}
+
+// What we keep in KV per origin: the raw fetch outcome, parsed on read
+interface CachedRobotsTxt {
+  status: number | null;
+  body: string | null;
+  fetchedAt: string;
+}
+
+export interface RobotsPolicy {
+  origin: string;
+  // Raw robots.txt body, when one was served
+  body: string | null;
+  sitemaps: string[];
+  crawlDelayMs: number;
+  isAllowed: (url: string) => boolean;
+}
+
+/**
+ * Parse robots.txt into user-agent groups. Consecutive User-agent lines
+ * share the rules that follow them, per RFC 9309.
+ */
+export function parseRobotsTxt(text: string): ParsedRobotsTxt {
+  const groups: RobotsGroup[] = [];
+  const sitemaps: string[] = [];
+  let current: RobotsGroup | null = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'user-agent') {
+      if (!current || !lastWasAgent) {
+        current = { userAgents: [], rules: [] };
+        groups.push(current);
+      }
+      current.userAgents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+    lastWasAgent = false;
+
+    if (field === 'sitemap') {
+      if (value) sitemaps.push(value);
+    } else if (!current) {
+      continue;
+    } else if (field === 'allow' || field === 'disallow') {
+      // An empty Disallow means "allow everything" and adds no rule
+      if (value) current.rules.push({ allow: field === 'allow', path: value });
+    } else if (field === 'crawl-delay') {
+      const delay = Number.parseFloat(value);
+      if (Number.isFinite(delay) && delay >= 0) current.crawlDelay = delay;
+    }
+  }
+
+  return { groups, sitemaps };
+}
+
+function ruleToRegExp(path: string): RegExp {
+  const anchored = path.endsWith('$');
+  const pattern = (anchored ? path.slice(0, -1) : path)
+    .replace(/[.+?^{}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*');
+  return new RegExp(`^${pattern}${anchored ? '$' : ''}`);
+}
+
+/**
+ * Pick the rules that apply to `agent`: every group naming our product token,
+ * otherwise every `*` group.
+ */
+export function selectRobotsGroup(parsed: ParsedRobotsTxt, agent: string = ROBOTS_PRODUCT_TOKEN): RobotsGroup {
+  const token = agent.toLowerCase();
+  const specific = parsed.groups.filter(group => group.userAgents.some(ua => ua !== '*' && token.includes(ua)));
+  const matching = specific.length > 0 ? specific : parsed.groups.filter(group => group.userAgents.includes('*'));
+
+  const delays = matching.map(group => group.crawlDelay).filter((delay): delay is number => delay !== undefined);
+  return {
+    userAgents: matching.flatMap(group => group.userAgents),
+    rules: matching.flatMap(group => group.rules),
+    crawlDelay: delays.length > 0 ? Math.max(...delays) : undefined,
+  };
+}
+
+/**
+ * Longest matching rule wins; on a tie Allow beats Disallow.
+ */
+export function isPathAllowed(rules: RobotsRule[], pathAndQuery: string): boolean {
+  let best: RobotsRule | null = null;
+  for (const rule of rules) {
+    if (!ruleToRegExp(rule.path).test(pathAndQuery)) continue;
+    if (!best || rule.path.length > best.path.length || (rule.path.length === best.path.length && rule.allow)) {
+      best = rule;
+    }
+  }
+  return best ? best.allow : true;
+}
+
+export function createRobotsPolicy(origin: string, cached: CachedRobotsTxt): RobotsPolicy {
+  // 4xx means there is no robots.txt; an unreachable one (5xx, network error)
+  // means the whole site is treated as disallowed
+  if (cached.status === null || cached.status >= 500) {
+    return { origin, body: null, sitemaps: [], crawlDelayMs: 0, isAllowed: () => false };
+  }
+  if (cached.status >= 400 || !cached.body) {
+    return { origin, body: null, sitemaps: [], crawlDelayMs: 0, isAllowed: () => true };
+  }
+
+  const parsed = parseRobotsTxt(cached.body);
+  const group = selectRobotsGroup(parsed);
+  return {
+    origin,
+    body: cached.body,
+    sitemaps: parsed.sitemaps,
+    crawlDelayMs: Math.min((group.crawlDelay ?? 0) * 1000, MAX_CRAWL_DELAY_MS),
+    isAllowed: (url: string) => {
+      try {
+        const target = new URL(url);
+        if (target.origin !== origin) return true;
+        return isPathAllowed(group.rules, `${target.pathname}${target.search}`);
+      } catch {
+        return false;
+      }
+    },
+  };
+}
+
+async function fetchRobotsTxt(origin: string): Promise<CachedRobotsTxt> {
+  const fetchedAt = new Date().toISOString();
+  try {
+    const response = await fetch(`${origin}/robots.txt`, {
+      method: 'GET',
+      headers: { 'User-Agent': CRAWL_USER_AGENT }
+    });
+    return {
+      status: response.status,
+      body: response.ok ? await response.text() : null,
+      fetchedAt,
+    };
+  } catch (error) {
+    console.warn(`⚠️ Failed to fetch robots.txt for ${origin}:`, error);
+    return { status: null, body: null, fetchedAt };
+  }
+}
+
+/**
+ * Load the robots.txt policy for the origin of `url`, cached per origin in KV.
+ */
+export async function getRobotsPolicy(url: string): Promise<RobotsPolicy> {
+  const origin = new URL(url).origin;
+  const cacheKey = `robots:${origin}`;
+
+  if (env.SITE_ANALYSIS_CACHE) {
+    try {
+      const cached = await env.SITE_ANALYSIS_CACHE.get(cacheKey);
+      if (cached) {
+        return createRobotsPolicy(origin, JSON.parse(cached) as CachedRobotsTxt);
+      }
+    } catch (error) {
+      console.warn(`⚠️ robots.txt cache read error for ${origin}:`, error);
+    }
+  }
+
+  const fetched = await fetchRobotsTxt(origin);
+  console.log(`🤖 Fetched robots.txt for ${origin}: status ${fetched.status ?? 'unreachable'}`);
+
+  if (env.SITE_ANALYSIS_CACHE) {
+    try {
+      // Don't pin a transient outage for a whole day
+      const reachable = fetched.status !== null && fetched.status < 500;
+      await env.SITE_ANALYSIS_CACHE.put(cacheKey, JSON.stringify(fetched), {
+        expirationTtl: reachable ? ROBOTS_CACHE_TTL : 60
+      });
+    } catch (error) {
+      console.warn(`⚠️ robots.txt cache write error for ${origin}:`, error);
+    }
+  }
+
+  return createRobotsPolicy(origin, fetched);
+}
@@ -0,0 +1,118 @@
+import { launchSession, SessionStartError, type SessionData } from '@/api/session';
+import { getSession, type SessionResult } from '@/session/cache';
+import { diffSessions, hasLytx } from '@/session/diff';
+import { getDueSchedules, getSchedule, saveScheduleAlert, updateSchedule, type ScheduleRecord } from '@/lib/db';
+import type { NewSessionRequest, ScheduleCadence } from './types';
+
+/**
+ * When a schedule next runs after `from`
+ */
+export function nextRunAt(cadence: ScheduleCadence, from: Date): string {
+  const next = new Date(from);
+  switch (cadence) {
+    case 'daily':
+      next.setUTCDate(next.getUTCDate() + 1);
+      break;
+    case 'weekly':
+      next.setUTCDate(next.getUTCDate() + 7);
+      break;
+    case 'monthly': {
+      // Clamp to the last day of the target month: Jan 31 -> Feb 28/29, not Mar 3
+      const day = next.getUTCDate();
+      next.setUTCDate(1);
+      next.setUTCMonth(next.getUTCMonth() + 1);
+      const lastDay = new Date(Date.UTC(next.getUTCFullYear(), next.getUTCMonth() + 1, 0)).getUTCDate();
+      next.setUTCDate(Math.min(day, lastDay));
+      break;
+    }
+  }
+  return next.toISOString();
+}
+
+/**
+ * Start a session for one schedule. Each run is linked to the previous one so
+ * it can be diffed like a manual re-analysis. The schedule is only advanced
+ * once the session has actually started; otherwise the error propagates and
+ * nextRunAt is left as it was.
+ */
+export async function runSchedule(schedule: ScheduleRecord, now: Date = new Date()): Promise<SessionData> {
+  const request = { ...schedule.options, url: schedule.url } as NewSessionRequest;
+  const sessionData = await launchSession(request, {
+    scheduleId: schedule.id,
+    parentSessionId: schedule.lastSessionId ?? undefined
+  });
+
+  await updateSchedule(schedule.id, {
+    lastRunAt: now.toISOString(),
+    lastSessionId: sessionData.id,
+    nextRunAt: nextRunAt(schedule.cadence, now)
+  });
+  console.log(`⏰ Schedule ${schedule.id} started session ${sessionData.id} for ${schedule.url}`);
+  return sessionData;
+}
+
+/**
+ * Cron entry point: start every schedule that has come due. A schedule that
+ * fails to start keeps its nextRunAt and is retried on the next tick.
+ */
+export async function runDueSchedules(now: Date = new Date()): Promise<void> {
+  const due = await getDueSchedules(now);
+  console.log(`⏰ ${due.length} scheduled audit(s) due at ${now.toISOString()}`);
+
+  for (const schedule of due) {
+    try {
+      await runSchedule(schedule, now);
+    } catch (error) {
+      const detail = error instanceof SessionStartError ? ` (session ${error.sessionId} failed to start)` : '';
+      console.error(`💥 Failed to run schedule ${schedule.id} for ${schedule.url}${detail}, retrying next tick:`, error);
+    }
+  }
+}
+
+/**
+ * Compare a finished scheduled session with the schedule's previous run and
+ * raise an alert if LYTX has gone missing from a site that had it.
+ */
+export async function checkScheduledRun(session: SessionData): Promise<void> {
+  if (!session.scheduleId || !session.parentSessionId || session.status !== 'completed') return;
+
+  try {
+    const schedule = await getSchedule(session.scheduleId);
+    const previous = await getSession(session.parentSessionId);
+    if (!schedule || !previous) return;
+
+    const previousLytxUrls = ((previous.results || []) as SessionResult[])
+      .filter(result => !result.error && hasLytx(result))
+      .map(result => result.pageAnalysis.url);
+    if (previousLytxUrls.length === 0) return;
+
+    const currentResults = ((session.results || []) as SessionResult[]).filter(result => !result.error);
+    // Every page failing says nothing about the tag; don't alert on an outage
+    if (currentResults.length === 0) return;
+
+    const diff = diffSessions(previous, session);
+    const stillInstrumented = currentResults.some(hasLytx);
+
+    let message: string | null = null;
+    let urls: string[] = [];
+    if (!stillInstrumented) {
+      message = `LYTX is no longer detected anywhere on ${schedule.domain}`;
+      urls = previousLytxUrls;
+    } else if (diff.lytxRemoved.length > 0) {
+      message = `LYTX is no longer detected on ${diff.lytxRemoved.length} page(s) of ${schedule.domain}`;
+      urls = diff.lytxRemoved;
+    }
+    if (!message) return;
+
+    console.warn(`🚨 Schedule ${schedule.id}: ${message}`, urls);
+    await saveScheduleAlert({
+      scheduleId: schedule.id,
+      sessionId: session.id,
+      kind: 'lytx_removed',
+      message,
+      urls
+    });
+  } catch (error) {
+    console.warn(`Failed to check scheduled session ${session.id}:`, error);
+  }
+}
@@ -1,11 +1,40 @@
-import { updateSession } from '@/session/cache';
+import { createErrorResult, writeSessionSnapshot, type SessionResult } from '@/session/cache';
+import { encodeSessionEvent, type SessionEvent } from '@/session/events';
+import { saveSession, saveSiteSummary, updateSessionStatus } from '@/lib/db';
 import { createErrorResponse, createSuccessResponse, createNotFoundResponse } from '@/utilities';
 import type { SessionData } from "@/api/session";
-//NOTE: THIS DO IS JUST LOGGIN AND FETCHING SITE ANALYSIS
+import { createCrawlState, crawlNext, isCrawlComplete, type CrawlState, type SkippedUrl } from './crawler';
+import { getRobotsPolicy, ROBOTS_DISALLOWED_REASON } from './robots';
+import { CRAWL_TIME_SLICE_MS, DEFAULT_CONCURRENCY, DEFAULT_MAX_CRAWL_DEPTH, SNAPSHOT_MIN_INTERVAL_MS } from './defaults';
+import { mapWithConcurrency } from './concurrency';
+import { discoverSitemapUrls } from './sitemap';
+import { checkScheduledRun } from './scheduler';
+import { summarizeLlmUsage } from './llm-usage';
+import { buildSiteSummary } from './site-summary';
+import { resolveLanguageModel } from './llm-providers';
+
+type SessionPhase = 'crawling' | 'analyzing' | 'done';
+
+// Authoritative session record. Per-URL results are kept separately under
+// `result:<url>` keys; `completedUrls` preserves the order they finished in.
+interface StoredSession {
+  sessionId: string;
+  sessionData: SessionData;
+  phase: SessionPhase;
+  completedUrls: string[];
+}
+
+//NOTE: THIS DO OWNS SESSION STATE - IT IS THE ONLY WRITER OF THE KV SNAPSHOT
 export class SessionAnalysisManager implements DurableObject {
   protected state: DurableObjectState;
   protected env: Env;
   private startTime: number = 0;
+  private snapshotChain: Promise<void> = Promise.resolve();
+  private snapshotQueued = false;
+  private lastSnapshotAt = 0;
+  // Open SSE connections from GET /api/session/:sessionId/events
+  private eventWriters = new Set<WritableStreamDefaultWriter<Uint8Array>>();
+  private heartbeat: ReturnType<typeof setInterval> | null = null;
 
   constructor(state: DurableObjectState, env: Env) {
     this.state = state;
@@ -30,6 +59,18 @@ export class SessionAnalysisManager implements DurableObject {
     }
   }
 
+  /**
+   * Resumes a crawl or analysis that ran out of its time slice in a previous invocation.
+   */
+  async alarm(): Promise<void> {
+    this.startTime = Date.now();
+    const stored = await this.state.storage.get<StoredSession>('session');
+    if (!stored || stored.phase === 'done') return;
+
+    console.log(`⏰ DO: Alarm resuming session ${stored.sessionId} in phase ${stored.phase}`);
+    await this.performAnalysis(stored.sessionId, stored.sessionData);
+  }
+
   async fetch(request: Request): Promise<Response> {
     const url = new URL(request.url);
     const pathParts = url.pathname.split('/');
@@ -38,9 +79,119 @@ export class SessionAnalysisManager implements DurableObject {
       return this.handleStartRequest(request);
     }
 
+    if (request.method === 'GET' && pathParts[1] === 'events') {
+      return this.handleEventsRequest();
+    }
+
+    if (request.method === 'GET' && pathParts[1] === 'state') {
+      const session = await this.buildSessionData();
+      return session ? createSuccessResponse({ session }) : createNotFoundResponse('Session not found');
+    }
+
+    if (request.method === 'PATCH' && pathParts[1] === 'state') {
+      return this.handleUpdateRequest(request);
+    }
+
     return createNotFoundResponse();
   }
 
+  private async handleEventsRequest(): Promise<Response> {
+    const stored = await this.state.storage.get<StoredSession>('session');
+    if (!stored) {
+      return createNotFoundResponse('Session not found');
+    }
+
+    const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+    const writer = writable.getWriter();
+    writer.write(new TextEncoder().encode('retry: 5000\n\n')).catch(() => { });
+
+    const { status, progress, error } = stored.sessionData;
+    if (status === 'completed' || status === 'error') {
+      // Nothing left to stream - tell the client and hang up
+      writer.write(encodeSessionEvent({
+        type: 'session.completed',
+        status,
+        current: progress.current ?? stored.completedUrls.length,
+        total: progress.total ?? stored.completedUrls.length,
+        error
+      })).catch(() => { });
+      writer.close().catch(() => { });
+    } else {
+      this.eventWriters.add(writer);
+      this.startHeartbeat();
+      console.log(`📡 DO: Event stream opened for session ${stored.sessionId} (${this.eventWriters.size} connected)`);
+    }
+
+    return new Response(readable, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive'
+      }
+    });
+  }
+
+  private emitEvent(event: SessionEvent) {
+    if (this.eventWriters.size === 0) return;
+
+    const chunk = encodeSessionEvent(event);
+    for (const writer of this.eventWriters) {
+      writer.write(chunk).catch(() => this.dropEventWriter(writer));
+    }
+
+    if (event.type === 'session.completed') {
+      for (const writer of this.eventWriters) {
+        writer.close().catch(() => { });
+      }
+      this.eventWriters.clear();
+      this.stopHeartbeat();
+    }
+  }
+
+  private dropEventWriter(writer: WritableStreamDefaultWriter<Uint8Array>) {
+    this.eventWriters.delete(writer);
+    if (this.eventWriters.size === 0) {
+      this.stopHeartbeat();
+    }
+  }
+
+  // Idle connections get dropped by proxies, so send an SSE comment periodically
+  private startHeartbeat() {
+    if (this.heartbeat) return;
+    const ping = new TextEncoder().encode(': ping\n\n');
+    this.heartbeat = setInterval(() => {
+      for (const writer of this.eventWriters) {
+        writer.write(ping).catch(() => this.dropEventWriter(writer));
+      }
+    }, 15000);
+  }
+
+  private stopHeartbeat() {
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
+  }
+
+  private async handleUpdateRequest(request: Request): Promise<Response> {
+    try {
+      const updates = await request.json() as Partial<SessionData>;
+      // Results are owned by the per-URL map and can't be patched wholesale
+      const { results: _results, id: _id, ...allowed } = updates;
+      const updated = await this.updateSessionState(allowed);
+      if (!updated) {
+        return createNotFoundResponse('Session not found');
+      }
+      await this.snapshotChain;
+      return createSuccessResponse({ session: await this.buildSessionData() });
+    } catch (error) {
+      return createErrorResponse(error, {
+        context: 'DO: Failed to update session'
+      });
+    }
+  }
+
   private async handleStartRequest(request: Request): Promise<Response> {
     try {
       const body = await request.json() as {
@@ -52,6 +203,15 @@ export class SessionAnalysisManager implements DurableObject {
 
       console.log(`🚀 Durable Object: Starting analysis for session ${sessionId}`);
 
+      await this.state.storage.put<StoredSession>('session', {
+        sessionId,
+        sessionData,
+        phase: sessionData.crawl ? 'crawling' : 'analyzing',
+        completedUrls: []
+      });
+      this.scheduleSnapshot();
+      await saveSession(sessionData);
+
       // Start analysis immediately (not in background)
       this.performAnalysis(sessionId, sessionData);
 
@@ -70,35 +230,32 @@ export class SessionAnalysisManager implements DurableObject {
     try {
       this.logExecutionStats(`Starting performAnalysis for session ${sessionId}`);
 
-      // Check for required environment variables first
+      // Check the session's LLM provider is usable before doing any work;
+      // this throws that provider's own missing-configuration error
       console.log(`🔍 DO: Checking environment for session ${sessionId}...`);
-      if (!process.env.OPENAI_API_KEY) {
-        throw new Error('OPENAI_API_KEY not configured. Cannot proceed with analysis.');
-      }
-      console.log(`✅ DO: OPENAI_API_KEY is configured for session ${sessionId}`);
+      const llm = resolveLanguageModel({ provider: sessionData.llmProvider, model: sessionData.llmModel });
+      console.log(`✅ DO: LLM provider ${llm.provider} (${llm.modelId}) is configured for session ${sessionId}`);
       this.logExecutionStats(`Environment check completed`);
 
       let urlsToAnalyze: string[] = [];
+      const stored = await this.state.storage.get<StoredSession>('session');
+      const sliceStart = Date.now();
 
-      if (sessionData.crawl) {
-        // Update status to crawling
-        await updateSession(sessionId, {
-          status: 'crawling',
-          progress: {
-            stage: 'crawling',
-            current: 0,
-            total: sessionData.maxPages,
-            message: 'Starting site crawl...'
-          }
-        });
-
-        // Perform crawling
+      if (sessionData.crawl && stored?.phase !== 'analyzing') {
+        // Perform crawling, possibly resuming a crawl started by an earlier invocation
         console.log(`🕷️ DO: Starting crawl for session ${sessionId}`);
-        urlsToAnalyze = await this.performCrawling(sessionData);
+        const crawled = await this.performCrawling(sessionId, sessionData);
+        if (!crawled) {
+          // Time slice exhausted - the alarm picks the crawl back up
+          return;
+        }
+        urlsToAnalyze = crawled;
         console.log(`✅ DO: Crawl completed for session ${sessionId}, found ${urlsToAnalyze.length} URLs`);
 
+        await this.setPhase('analyzing');
+
         // Update session with crawled URLs
-        await updateSession(sessionId, {
+        await this.updateSessionState({
           progress: {
             stage: 'crawling',
             current: urlsToAnalyze.length,
@@ -108,30 +265,97 @@ export class SessionAnalysisManager implements DurableObject {
             allUrls: urlsToAnalyze
           }
         });
+      } else if (sessionData.crawl) {
+        const crawlState = await this.state.storage.get<CrawlState>('crawl');
+        urlsToAnalyze = crawlState?.discovered.slice(0, sessionData.maxPages) || [sessionData.url];
       } else {
         // Use provided URLs
         urlsToAnalyze = sessionData.urls || [sessionData.url];
       }
 
-      // Start analysis by spawning individual DOs
-      console.log(`🚀 DO: Starting analysis by spawning ${urlsToAnalyze.length} individual DOs for session ${sessionId}`);
-      await updateSession(sessionId, {
-        status: 'analyzing',
-        progress: {
-          stage: 'analyzing',
-          current: 0,
-          total: urlsToAnalyze.length,
-          message: 'Starting individual site analyses...',
-          urls: urlsToAnalyze
+      // Never analyze a URL robots.txt disallows, whichever way it was found
+      const robots = await getRobotsPolicy(sessionData.url);
+      const crawlState = await this.state.storage.get<CrawlState>('crawl');
+      const skipped: SkippedUrl[] = [...(crawlState?.skipped || [])];
+      for (const url of urlsToAnalyze) {
+        if (!robots.isAllowed(url)) {
+          skipped.push({ url, reason: ROBOTS_DISALLOWED_REASON });
         }
-      });
+      }
+      urlsToAnalyze = urlsToAnalyze.filter(url => robots.isAllowed(url));
+
+      if (urlsToAnalyze.length === 0) {
+        console.log(`🤖 DO: Every URL for session ${sessionId} is disallowed by robots.txt`);
+        await this.setPhase('done');
+        await this.updateSessionState({
+          status: 'completed',
+          progress: {
+            stage: 'completed',
+            current: 0,
+            total: 0,
+            message: `No pages to analyze: all URLs are ${ROBOTS_DISALLOWED_REASON}`,
+            urls: [],
+            skipped
+          }
+        });
+        this.emitEvent({ type: 'session.completed', status: 'completed', current: 0, total: 0 });
+        return;
+      }
+
+      // A resumed run only dispatches pages that haven't produced a result yet
+      const completed = new Set(stored?.completedUrls ?? []);
+      const pendingUrls = urlsToAnalyze.filter(url => !completed.has(url));
+
+      if (completed.size === 0) {
+        // Start analysis by spawning individual DOs
+        console.log(`🚀 DO: Starting analysis by spawning ${urlsToAnalyze.length} individual DOs for session ${sessionId}`);
+        await this.updateSessionState({
+          status: 'analyzing',
+          progress: {
+            stage: 'analyzing',
+            current: 0,
+            total: urlsToAnalyze.length,
+            message: skipped.length > 0
+              ? `Starting individual site analyses (${skipped.length} URLs skipped)...`
+              : 'Starting individual site analyses...',
+            urls: urlsToAnalyze,
+            skipped
+          }
+        });
+      } else {
+        console.log(`🔁 DO: Resuming analysis for session ${sessionId}: ${completed.size} done, ${pendingUrls.length} remaining`);
+      }
 
-      this.logExecutionStats(`Spawning ${urlsToAnalyze.length} individual site analysis DOs`);
+      const concurrency = sessionData.concurrency ?? DEFAULT_CONCURRENCY;
+      this.logExecutionStats(`Dispatching ${pendingUrls.length} individual site analysis DOs (concurrency=${concurrency})`);
 
-      // Spawn individual DOs for each URL
-      const siteAnalysisPromises = urlsToAnalyze.map(async (url, index) => {
+      // Honour Crawl-delay by spacing out when each page fetch starts
+      let nextDispatchAt = Date.now();
+      let sliceExhausted = false;
+
+      // Dispatch individual DOs for each URL, at most `concurrency` in flight
+      await mapWithConcurrency(pendingUrls, concurrency, async (url) => {
+        // Past the time slice, leave the rest for the alarm; in-flight pages still finish
+        if (sliceExhausted || Date.now() - sliceStart > CRAWL_TIME_SLICE_MS) {
+          sliceExhausted = true;
+          return null;
+        }
+        const index = urlsToAnalyze.indexOf(url);
         try {
+          if (robots.crawlDelayMs > 0) {
+            const waitMs = nextDispatchAt - Date.now();
+            // The wait counts against the slice; if it would overrun, the alarm waits instead
+            if (Date.now() + waitMs - sliceStart > CRAWL_TIME_SLICE_MS) {
+              sliceExhausted = true;
+              return null;
+            }
+            nextDispatchAt = Math.max(nextDispatchAt, Date.now()) + robots.crawlDelayMs;
+            if (waitMs > 0) {
+              await new Promise(resolve => setTimeout(resolve, waitMs));
+            }
+          }
           console.log(`🎯 DO: Spawning SiteAnalysisDO ${index + 1}/${urlsToAnalyze.length} for ${url}`);
+          this.emitEvent({ type: 'page.started', url, index, total: urlsToAnalyze.length });
 
           // Create unique DO ID for this session + URL combination
           const doId = this.env.SITE_ANALYSIS_DO.idFromName(`${sessionId}:${url}`);
@@ -147,114 +371,317 @@ export class SessionAnalysisManager implements DurableObject {
               options: {
                 usePuppeteer: sessionData.usePuppeteer,
                 useExternalFetcher: sessionData.useExternalFetcher,
-                externalFetcherUrl: this.env.EXTERNAL_FETCHER
+                externalFetcherUrl: this.env.EXTERNAL_FETCHER,
+                extraInstructions: sessionData.extraInstructions,
+                verifyLytx: sessionData.verifyLytx,
+                validateEvents: sessionData.validateEvents,
+                agentMode: sessionData.agentMode,
+                llm: { provider: sessionData.llmProvider, model: sessionData.llmModel },
+                promptVersion: sessionData.promptVersion,
+                forceFresh: sessionData.forceFresh
               }
             })
           }));
 
           if (!response.ok) {
-            const errorText = await response.text();
-            throw new Error(`SiteAnalysisDO failed: ${errorText}`);
+            const errorBody = await response.json().catch(() => null) as { error?: string } | null;
+            throw new Error(errorBody?.error || `SiteAnalysisDO failed with status ${response.status}`);
           }
 
-          const result = await response.json();
+          const { result } = await response.json() as { result: SessionResult };
+          await this.recordResult(url, result);
           console.log(`✅ DO: SiteAnalysisDO ${index + 1}/${urlsToAnalyze.length} completed for ${url}`);
           return result;
         } catch (error) {
           console.error(`❌ DO: SiteAnalysisDO ${index + 1}/${urlsToAnalyze.length} failed for ${url}:`, error);
+          await this.recordResult(url, createErrorResult(url, error));
           throw error;
         }
       });
 
-      // Wait for all individual DOs to complete
-      console.log(`⏳ DO: Waiting for all ${urlsToAnalyze.length} site analyses to complete...`);
-      await Promise.allSettled(siteAnalysisPromises);
+      if (sliceExhausted) {
+        const remaining = await this.state.storage.get<StoredSession>('session');
+        this.logExecutionStats(`Analysis time slice exhausted with ${urlsToAnalyze.length - (remaining?.completedUrls.length ?? 0)} pages left, scheduling alarm`);
+        await this.state.storage.setAlarm(Date.now() + Math.max(1000, robots.crawlDelayMs));
+        return;
+      }
 
+      await this.setPhase('done');
+      await this.completeSession();
       this.logExecutionStats(`All individual site analyses completed`);
       console.log(`✅ DO: All individual site analyses completed for session ${sessionId}`);
 
-      // The session will be updated progressively by each SiteAnalysisDO
-      // No need to do final update here as each DO updates the session
-
     } catch (error) {
       this.logExecutionStats(`Analysis failed: ${error instanceof Error ? error.message : String(error)}`);
       const errorMessage = error instanceof Error ? error.message : String(error);
       console.error(`💥 DO: Analysis failed for session ${sessionId}:`, errorMessage);
 
-      await updateSession(sessionId, {
+      await this.setPhase('done');
+      const updated = await this.updateSessionState({
         status: 'error',
         error: errorMessage,
       });
+      this.emitEvent({
+        type: 'session.completed',
+        status: 'error',
+        current: updated?.progress.current ?? 0,
+        total: updated?.progress.total ?? 0,
+        error: errorMessage
+      });
     }
   }
 
-  private async performCrawling(sessionData: SessionData): Promise<string[]> {
-    const { url, maxPages } = sessionData;
-    console.log(`🕷️ Crawling ${url} with maxPages=${maxPages}`);
+  private async setPhase(phase: SessionPhase) {
+    await this.state.storage.transaction(async (txn) => {
+      const stored = await txn.get<StoredSession>('session');
+      if (stored) {
+        await txn.put<StoredSession>('session', { ...stored, phase });
+      }
+    });
+  }
 
-    try {
-      // Fetch the base page HTML
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'text/html',
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/114.0.0.0 Safari/537.36'
-        }
+  /**
+   * Shallow-merge updates into the stored session and refresh the KV snapshot.
+   */
+  private async updateSessionState(updates: Partial<SessionData>): Promise<SessionData | null> {
+    const updated = await this.state.storage.transaction(async (txn) => {
+      const stored = await txn.get<StoredSession>('session');
+      if (!stored) return null;
+
+      const sessionData: SessionData = {
+        ...stored.sessionData,
+        ...updates,
+        updatedAt: new Date().toISOString()
+      };
+      await txn.put<StoredSession>('session', { ...stored, sessionData });
+      return sessionData;
+    });
+
+    if (updated) {
+      console.log(`📝 DO: Updated session ${updated.id}:`, {
+        status: updated.status,
+        stage: updated.progress?.stage
       });
-
-      if (!response.ok) {
-        console.error(`❌ Failed to fetch ${url}: ${response.status}`);
-        return [url];
+      this.scheduleSnapshot();
+      if (updates.status) {
+        await updateSessionStatus(updated.id, updated.status, updated.error);
       }
+    }
+    return updated;
+  }
 
-      const html = await response.text();
-      console.log(`📄 Fetched ${html.length} chars from ${url}`);
+  /**
+   * Store the result for one URL and advance progress in a single transaction.
+   */
+  private async recordResult(url: string, result: SessionResult) {
+    const updated = await this.state.storage.transaction(async (txn) => {
+      const stored = await txn.get<StoredSession>('session');
+      if (!stored) return null;
 
-      // Extract internal links
-      const urls = this.extractInternalLinks(html, url, maxPages);
+      await txn.put(`result:${url}`, result);
 
-      // Always include the base URL first
-      const allUrls = [url, ...urls.filter(url => url !== url)];
+      const completedUrls = stored.completedUrls.includes(url)
+        ? stored.completedUrls
+        : [...stored.completedUrls, url];
 
-      // Limit to maxPages
-      const limitedUrls = allUrls.slice(0, maxPages);
+      // Completion is left to completeSession, which writes it together with
+      // the site summary
+      const sessionData: SessionData = {
+        ...stored.sessionData,
+        progress: {
+          ...stored.sessionData.progress,
+          current: completedUrls.length,
+          stage: 'analyzing'
+        },
+        updatedAt: new Date().toISOString()
+      };
+      await txn.put<StoredSession>('session', { ...stored, sessionData, completedUrls });
+      return { sessionData, completedUrls };
+    });
+
+    if (updated) {
+      console.log(`📊 DO: Recorded ${result.error ? 'error' : 'result'} for ${url} (${updated.completedUrls.length}/${updated.sessionData.progress.total ?? '?'})`);
+      this.scheduleSnapshot();
+
+      const current = updated.completedUrls.length;
+      const total = updated.sessionData.progress.total ?? current;
+      this.emitEvent(result.error
+        ? { type: 'page.failed', url, error: result.error, result, current, total }
+        : { type: 'page.completed', url, result, current, total });
+    }
+  }
 
-      console.log(`✅ Found ${limitedUrls.length} URLs: ${limitedUrls.join(', ')}`);
-      return limitedUrls;
+  /**
+   * Mark the session completed once every dispatch has settled, even if some
+   * never produced a result.
+   */
+  private async completeSession() {
+    const stored = await this.state.storage.get<StoredSession>('session');
+    if (!stored) return;
+
+    // Site-level report over every page. It is written in the same update
+    // that marks the session completed, so no reader ever sees a completed
+    // session without its summary.
+    const finished = await this.buildSessionData();
+    const siteSummary = finished?.results?.length ? buildSiteSummary(finished.results) : undefined;
+
+    await this.updateSessionState({
+      status: 'completed',
+      progress: {
+        ...stored.sessionData.progress,
+        stage: 'completed',
+        current: stored.completedUrls.length
+      },
+      ...(siteSummary ? { siteSummary } : {})
+    });
+
+    if (siteSummary) {
+      await this.snapshotChain;
+      await saveSiteSummary(stored.sessionData.id, siteSummary);
+      console.log(`🧩 DO: Site summary for ${stored.sessionData.id}: ${siteSummary.tagPlacements.length} tag placements, ${siteSummary.trackingPlan.length} events across ${siteSummary.pageGroups.length} page templates`);
+    }
 
-    } catch (error) {
-      console.error(`💥 Crawling failed for ${url}:`, error);
-      return [url];
+    this.emitEvent({
+      type: 'session.completed',
+      status: 'completed',
+      current: stored.completedUrls.length,
+      total: stored.sessionData.progress.total ?? stored.completedUrls.length
+    });
+
+    if (stored.sessionData.scheduleId) {
+      const sessionData = await this.buildSessionData();
+      if (sessionData) {
+        await checkScheduledRun(sessionData);
+      }
     }
   }
 
-  private extractInternalLinks(html: string, baseUrl: string, limit: number): string[] {
-    const base = new URL(baseUrl);
-    const hrefs = new Set<string>();
-
-    // Find anchor hrefs
-    const anchorRegex = /<a\s+[^>]*href=["']([^"'#]+)["'][^>]*>/gi;
-    let match: RegExpExecArray | null;
-    while ((match = anchorRegex.exec(html)) && hrefs.size < limit * 2) {
-      const raw = match[1].trim();
-      if (!raw || raw.startsWith('mailto:') || raw.startsWith('tel:') || raw.startsWith('javascript:')) continue;
-
-      try {
-        const url = new URL(raw, base);
-        // Same origin only
-        if (url.origin !== base.origin) continue;
-        // Skip files (images, assets, docs)
-        if (/\.(png|jpg|jpeg|gif|svg|webp|ico|css|js|pdf|zip|rar|7z|mp4|mp3)(\?.*)?$/i.test(url.pathname)) continue;
-
-        // Normalize: drop hash, keep path+search minimally to avoid duplicates
-        url.hash = '';
-        const normalized = url.toString();
-        hrefs.add(normalized);
-      } catch {
-        continue;
+  /**
+   * Assemble the full SessionData (including ordered results) from storage.
+   */
+  private async buildSessionData(): Promise<SessionData | null> {
+    const stored = await this.state.storage.get<StoredSession>('session');
+    if (!stored) return null;
+
+    const resultMap = await this.state.storage.list<SessionResult>({ prefix: 'result:' });
+    const results = stored.completedUrls
+      .map(url => resultMap.get(`result:${url}`))
+      .filter((result): result is SessionResult => !!result);
+
+    return { ...stored.sessionData, results, usage: summarizeLlmUsage(results) };
+  }
+
+  /**
+   * Snapshots are written one at a time and always read the latest state, so
+   * an older snapshot can never land in KV after a newer one. Updates that
+   * arrive while a write is queued are folded into it, and writes are spaced
+   * SNAPSHOT_MIN_INTERVAL_MS apart to stay under KV's per-key write rate.
+   */
+  private scheduleSnapshot() {
+    if (this.snapshotQueued) return;
+    this.snapshotQueued = true;
+
+    this.snapshotChain = this.snapshotChain
+      .then(async () => {
+        const waitMs = this.lastSnapshotAt + SNAPSHOT_MIN_INTERVAL_MS - Date.now();
+        if (waitMs > 0) {
+          await new Promise(resolve => setTimeout(resolve, waitMs));
+        }
+        this.snapshotQueued = false;
+        this.lastSnapshotAt = Date.now();
+        const sessionData = await this.buildSessionData();
+        if (sessionData) {
+          await writeSessionSnapshot(sessionData);
+        }
+      })
+      .catch((error) => {
+        console.error(`💥 DO: Failed to write session snapshot:`, error);
+      });
+  }
+
+  /**
+   * Breadth-first crawl from the session URL. The frontier lives in DO storage
+   * and is persisted after every page, so when the time slice runs out we
+   * schedule an alarm and continue from the same point.
+   *
+   * Returns the URLs to analyze, or null if the crawl will resume later.
+   */
+  private async performCrawling(sessionId: string, sessionData: SessionData): Promise<string[] | null> {
+    const { url, maxPages } = sessionData;
+    const maxDepth = sessionData.maxDepth ?? DEFAULT_MAX_CRAWL_DEPTH;
+    const discoveryMode = sessionData.discoveryMode ?? 'links';
+    const sliceStart = Date.now();
+    const robots = await getRobotsPolicy(url);
+
+    let crawlState = await this.state.storage.get<CrawlState>('crawl');
+    if (!crawlState) {
+      console.log(`🕷️ Crawling ${url} with maxPages=${maxPages} maxDepth=${maxDepth} discovery=${discoveryMode}`);
+      await this.updateSessionState({
+        status: 'crawling',
+        progress: {
+          stage: 'crawling',
+          current: 0,
+          total: maxPages,
+          message: discoveryMode === 'links' ? 'Starting site crawl...' : 'Reading sitemap...'
+        }
+      });
+
+      let sitemapUrls: string[] = [];
+      if (discoveryMode !== 'links') {
+        const entries = await discoverSitemapUrls(url, robots.body);
+        sitemapUrls = entries.map(entry => entry.url);
+        console.log(`🗺️ Sitemap discovery found ${sitemapUrls.length} URLs for ${url}`);
+      }
+
+      // Fall back to following links when a sitemap-only crawl finds nothing
+      const expandLinks = discoveryMode !== 'sitemap' || sitemapUrls.length === 0;
+      crawlState = createCrawlState(url, maxPages, maxDepth, sitemapUrls, expandLinks, robots.isAllowed);
+      await this.state.storage.put('crawl', crawlState);
+    } else {
+      console.log(`🕷️ Resuming crawl of ${url}: ${crawlState.discovered.length} discovered, ${crawlState.queue.length} queued`);
+    }
+
+    while (!isCrawlComplete(crawlState)) {
+      if (Date.now() - sliceStart > CRAWL_TIME_SLICE_MS) {
+        this.logExecutionStats(`Crawl time slice exhausted with ${crawlState.queue.length} URLs queued, scheduling alarm`);
+        await this.state.storage.setAlarm(Date.now() + 1000);
+        return null;
+      }
+
+      const step = await crawlNext(crawlState, robots.isAllowed);
+      await this.state.storage.put('crawl', crawlState);
+
+      if (step?.error) {
+        console.warn(`⚠️ Crawl step failed for ${step.url}: ${step.error}`);
+      }
+
+      if (step && step.newUrls.length > 0) {
+        this.emitEvent({ type: 'crawl.url_discovered', urls: step.newUrls, total: crawlState.discovered.length });
+        await this.updateSessionState({
+          progress: {
+            stage: 'crawling',
+            current: crawlState.discovered.length,
+            total: maxPages,
+            message: `Crawling depth ${step.depth + 1}: found ${crawlState.discovered.length} pages (${crawlState.queue.length} queued)`,
+            allUrls: crawlState.discovered,
+            skipped: crawlState.skipped
+          }
+        });
+      }
+
+      if (robots.crawlDelayMs > 0 && !isCrawlComplete(crawlState)) {
+        // The wait counts against the slice; if it would overrun, the alarm waits instead
+        if (Date.now() + robots.crawlDelayMs - sliceStart > CRAWL_TIME_SLICE_MS) {
+          this.logExecutionStats(`Crawl-delay would overrun the time slice with ${crawlState.queue.length} URLs queued, scheduling alarm`);
+          await this.state.storage.setAlarm(Date.now() + robots.crawlDelayMs);
+          return null;
+        }
+        await new Promise(resolve => setTimeout(resolve, robots.crawlDelayMs));
       }
     }
 
-    return Array.from(hrefs);
+    const limitedUrls = crawlState.discovered.slice(0, maxPages);
+    console.log(`✅ Found ${limitedUrls.length} URLs: ${limitedUrls.join(', ')}`);
+    return limitedUrls;
   }
 }
@@ -29,7 +29,7 @@ const USER_AGENTS = [
   'Mozilla/5.0 (Windows NT 10.0; Win64; x64; rv:109.0) Gecko/20100101 Firefox/119.0'
 ];
 
-function getRandomUserAgent(): string {
+export function getRandomUserAgent(): string {
   return USER_AGENTS[Math.floor(Math.random() * USER_AGENTS.length)];
 }
 
@@ -80,6 +80,68 @@ export class SimpleCloudflareBrowserService {
     }
   }
 
+  /**
+   * Reuse an idle Browser Rendering session when one is available, otherwise
+   * launch a new one. Callers should disconnect (not close) when done.
+   */
+  async connectBrowser(requestId: string): Promise<{ browser: any; sessionId?: string; isReusedSession: boolean }> {
+    let browser: any;
+    let sessionId: string | undefined;
+    let isReusedSession = false;
+
+    // Use Cloudflare's built-in session management with puppeteer.sessions()
+    console.log(`[${requestId}] 🔍 Checking for available Cloudflare sessions...`);
+    
+    let availableSessions: any[] = [];
+    try {
+      availableSessions = await puppeteer.sessions(env.MYBROWSER);
+      console.log(`[${requestId}] 📊 Found ${availableSessions.length} total sessions`);
+      
+      // Log session details for debugging
+      if (availableSessions.length > 0) {
+        console.log(`[${requestId}] 🔍 Session details:`, availableSessions.map(s => ({
+          sessionId: s.sessionId?.substring(0, 8) + '...',
+          connectionId: s.connectionId,
+          hasConnectionId: !!s.connectionId,
+          fields: Object.keys(s)
+        })));
+      }
+
+      // Try to reuse any session - connectionId might persist after disconnect
+      if (availableSessions.length > 0) {
+        // Try each session until we find one that works
+        for (const sessionCandidate of availableSessions) {
+          try {
+            console.log(`[${requestId}] ♻️ Attempting to connect to session: ${sessionCandidate.sessionId} (connectionId: ${sessionCandidate.connectionId || 'none'})`);
+            browser = await puppeteer.connect(env.MYBROWSER, sessionCandidate.sessionId);
+            sessionId = sessionCandidate.sessionId;
+            isReusedSession = true;
+            console.log(`[${requestId}] ✅ Successfully reusing session: ${sessionId}`);
+            break;
+          } catch (connectError) {
+            console.warn(`[${requestId}] ⚠️ Failed to connect to session ${sessionCandidate.sessionId}:`, connectError);
+            // Continue to try next session
+          }
+        }
+      }
+    } catch (sessionsError) {
+      console.warn(`[${requestId}] ⚠️ Failed to get sessions list:`, sessionsError);
+      // Fall through to create new session
+    }
+
+    // If no session reused, create new one
+    if (!browser) {
+      console.log(`[${requestId}] 🚀 Creating new browser session...`);
+      const browserStartTime = Date.now();
+      browser = await puppeteer.launch(env.MYBROWSER);
+      sessionId = browser.sessionId();
+      isReusedSession = false;
+      console.log(`[${requestId}] ✅ New session created: ${sessionId} (${Date.now() - browserStartTime}ms)`);
+    }
+
+    return { browser, sessionId, isReusedSession };
+  }
+
   async renderPage(url: string, options: {
     takeScreenshot?: boolean;
     viewport?: { width: number; height: number };
@@ -132,55 +194,7 @@ export class SimpleCloudflareBrowserService {
     let isReusedSession = false;
     
     try {
-      // Use Cloudflare's built-in session management with puppeteer.sessions()
-      console.log(`[${requestId}] 🔍 Checking for available Cloudflare sessions...`);
-      
-      let availableSessions: any[] = [];
-      try {
-        availableSessions = await puppeteer.sessions(env.MYBROWSER);
-        console.log(`[${requestId}] 📊 Found ${availableSessions.length} total sessions`);
-        
-        // Log session details for debugging
-        if (availableSessions.length > 0) {
-          console.log(`[${requestId}] 🔍 Session details:`, availableSessions.map(s => ({
-            sessionId: s.sessionId?.substring(0, 8) + '...',
-            connectionId: s.connectionId,
-            hasConnectionId: !!s.connectionId,
-            fields: Object.keys(s)
-          })));
-        }
-
-        // Try to reuse any session - connectionId might persist after disconnect
-        if (availableSessions.length > 0) {
-          // Try each session until we find one that works
-          for (const sessionCandidate of availableSessions) {
-            try {
-              console.log(`[${requestId}] ♻️ Attempting to connect to session: ${sessionCandidate.sessionId} (connectionId: ${sessionCandidate.connectionId || 'none'})`);
-              browser = await puppeteer.connect(env.MYBROWSER, sessionCandidate.sessionId);
-              sessionId = sessionCandidate.sessionId;
-              isReusedSession = true;
-              console.log(`[${requestId}] ✅ Successfully reusing session: ${sessionId}`);
-              break;
-            } catch (connectError) {
-              console.warn(`[${requestId}] ⚠️ Failed to connect to session ${sessionCandidate.sessionId}:`, connectError);
-              // Continue to try next session
-            }
-          }
-        }
-      } catch (sessionsError) {
-        console.warn(`[${requestId}] ⚠️ Failed to get sessions list:`, sessionsError);
-        // Fall through to create new session
-      }
-
-      // If no session reused, create new one
-      if (!browser) {
-        console.log(`[${requestId}] 🚀 Creating new browser session...`);
-        const browserStartTime = Date.now();
-        browser = await puppeteer.launch(env.MYBROWSER);
-        sessionId = browser.sessionId();
-        isReusedSession = false;
-        console.log(`[${requestId}] ✅ New session created: ${sessionId} (${Date.now() - browserStartTime}ms)`);
-      }
+      ({ browser, sessionId, isReusedSession } = await this.connectBrowser(requestId));
 
       console.log(`[${requestId}] 📄 Creating new browser page...`);
       const page = await browser.newPage();
@@ -1,12 +1,25 @@
 import { SiteAnalysisService } from './analysis-service';
 import { SiteAnalysisResult } from './types';
-import { updateSessionWithResult, updateSessionWithError } from '@/session/cache';
 import { createErrorResponse, createSuccessResponse, createNotFoundResponse } from '@/utilities';
+import { savePageAnalysis, savePageFailure } from '@/lib/db';
+import { createFailedVerification, verifyLytxInstallation, type LytxVerification } from './lytx-verifier';
+import { validateTrackingEvents, withEventValidations } from './event-validator';
+import type { AgentTrace } from './agent-analysis';
+import type { LlmSelection } from './llm-providers';
+import type { LlmCacheInfo } from './llm-cache';
+import type { LlmUsage } from './llm-usage';
 
 export interface SiteAnalysisOptions {
   usePuppeteer: boolean;
   useExternalFetcher: boolean;
   externalFetcherUrl?: string;
+  extraInstructions?: string;
+  verifyLytx?: boolean;
+  validateEvents?: boolean;
+  agentMode?: boolean;
+  llm?: LlmSelection;
+  promptVersion?: string;
+  forceFresh?: boolean;
 }
 
 export class SiteAnalysisDO implements DurableObject {
@@ -53,7 +66,7 @@ export class SiteAnalysisDO implements DurableObject {
     }
   }
 
-  private async analyzeSite(sessionId: string, url: string, options: SiteAnalysisOptions): Promise<SiteAnalysisResult> {
+  private async analyzeSite(sessionId: string, url: string, options: SiteAnalysisOptions): Promise<SiteAnalysisResult & { lytxVerification?: LytxVerification; agentTrace?: AgentTrace; llmCache?: LlmCacheInfo; usage?: LlmUsage }> {
     const analysisService = new SiteAnalysisService();
 
     console.log(`🤖 SiteAnalysisDO: Analyzing ${url} with options:`, options);
@@ -64,22 +77,56 @@ export class SiteAnalysisDO implements DurableObject {
         url,
         options.usePuppeteer,
         options.useExternalFetcher,
-        options.externalFetcherUrl
+        options.externalFetcherUrl,
+        {
+          extraInstructions: options.extraInstructions,
+          agentMode: options.agentMode,
+          llm: options.llm,
+          promptVersion: options.promptVersion,
+          forceFresh: options.forceFresh
+        }
       );
 
-      console.log(`✅ SiteAnalysisDO: Analysis completed for ${url}`);
-
-      // Update the session with this result
-      await updateSessionWithResult(sessionId, url, result);
-
-      return result;
+      // The SessionAnalysisManager records this result - it owns session state
+      console.log(`✅ SiteAnalysisDO: Analysis completed for ${url} in session ${sessionId}`);
+
+      //NOTE: A failed verification is a finding about the page, not an analysis failure
+      let lytxVerification: LytxVerification | undefined;
+      if (options.verifyLytx) {
+        const expectedAccountId = result.detectedLytxAccount ?? undefined;
+        try {
+          lytxVerification = await verifyLytxInstallation(url, { expectedAccountId });
+        } catch (error) {
+          console.warn(`⚠️ SiteAnalysisDO: LYTX verification could not run for ${url}:`, error);
+          lytxVerification = createFailedVerification(url, error, expectedAccountId);
+        }
+      }
+      let verifiedResult = lytxVerification ? { ...result, lytxVerification } : result;
+
+      if (options.validateEvents && result.lytxRecommendations.trackingEvents.length > 0) {
+        try {
+          const validations = await validateTrackingEvents(url, result.lytxRecommendations.trackingEvents);
+          verifiedResult = {
+            ...verifiedResult,
+            lytxRecommendations: {
+              ...verifiedResult.lytxRecommendations,
+              trackingEvents: withEventValidations(result.lytxRecommendations.trackingEvents, validations)
+            }
+          };
+        } catch (error) {
+          // Events are left without a validation flag rather than marked unverified
+          console.warn(`⚠️ SiteAnalysisDO: Event validation could not run for ${url}:`, error);
+        }
+      }
+
+      // Durable copy in D1, kept beyond the KV session TTL
+      await savePageAnalysis(sessionId, url, verifiedResult);
+
+      return verifiedResult;
 
     } catch (error) {
-      console.error(`❌ SiteAnalysisDO: Analysis failed for ${url}:`, error);
-
-      // Update session with error for this URL
-      await updateSessionWithError(sessionId, url, error);
-
+      console.error(`❌ SiteAnalysisDO: Analysis failed for ${url} in session ${sessionId}:`, error);
+      await savePageFailure(sessionId, url, error instanceof Error ? error.message : String(error));
       throw error;
     }
   }
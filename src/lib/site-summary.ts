@@ -0,0 +1,131 @@
+import { PAGE_TYPES, type LYTXRecommendation, type PageType, type SiteAnalysisResult } from './types';
+import { classifyPageUrl } from './page-classifier';
+import { eventKey, normalizeEventName, renameEventInCode } from './event-templates';
+
+// Site-level synthesis over a finished session. Every page is analyzed on its
+// own, so the same core tag and the same events come back once per page, often
+// under slightly different names. This folds them into one report: each tag
+// placement once, pages grouped by page type, and a single tracking plan with
+// one name per event.
+
+type Priority = 'high' | 'medium' | 'low';
+type TagPlacement = LYTXRecommendation['tagPlacements'][number];
+type TrackingEvent = LYTXRecommendation['trackingEvents'][number];
+
+export interface SiteTagPlacement extends TagPlacement {
+  pageCount: number;
+  urls: string[];
+}
+
+export interface SiteTrackingEvent {
+  // Unified name used across the site
+  event: string;
+  // Other names pages used for the same event
+  aliases: string[];
+  conversionImpact?: Priority;
+  conversionReason?: string;
+  triggers: string[];
+  // From the first page that recommended it, renamed to the unified event
+  implementation: string;
+  templates: PageType[];
+  pageCount: number;
+  urls: string[];
+}
+
+export interface SiteSummary {
+  generatedAt: string;
+  pageCount: number;
+  failedPageCount: number;
+  pageGroups: { template: PageType; urls: string[] }[];
+  tagPlacements: SiteTagPlacement[];
+  trackingPlan: SiteTrackingEvent[];
+}
+
+const MAX_TRIGGERS_PER_EVENT = 5;
+const PRIORITY_RANK: Record<Priority, number> = { high: 0, medium: 1, low: 2 };
+
+function higherPriority(a: Priority | undefined, b: Priority | undefined): Priority | undefined {
+  if (!a) return b;
+  if (!b) return a;
+  return PRIORITY_RANK[a] <= PRIORITY_RANK[b] ? a : b;
+}
+
+function mergeTagPlacements(pages: { url: string; placements: TagPlacement[] }[]): SiteTagPlacement[] {
+  const merged = new Map<string, SiteTagPlacement>();
+  for (const { url, placements } of pages) {
+    for (const placement of placements) {
+      const key = `${placement.location}\n${placement.code.replace(/\s+/g, ' ').trim()}`;
+      const existing = merged.get(key);
+      if (!existing) {
+        merged.set(key, { ...placement, pageCount: 1, urls: [url] });
+      } else if (!existing.urls.includes(url)) {
+        existing.urls.push(url);
+        existing.pageCount++;
+        existing.priority = higherPriority(existing.priority, placement.priority)!;
+      }
+    }
+  }
+  return Array.from(merged.values())
+    .sort((a, b) => PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] || b.pageCount - a.pageCount);
+}
+
+function buildTrackingPlan(pages: { url: string; template: PageType; events: TrackingEvent[] }[]): SiteTrackingEvent[] {
+  type EventGroup = { names: Map<string, number>; events: { url: string; template: PageType; event: TrackingEvent }[] };
+  const groups = new Map<string, EventGroup>();
+  for (const { url, template, events } of pages) {
+    for (const event of events) {
+      const key = eventKey(event.event);
+      const group: EventGroup = groups.get(key) ?? { names: new Map(), events: [] };
+      const name = normalizeEventName(event.event);
+      group.names.set(name, (group.names.get(name) ?? 0) + 1);
+      group.events.push({ url, template, event });
+      groups.set(key, group);
+    }
+  }
+
+  return Array.from(groups.values()).map(({ names, events }) => {
+    // The name most pages used becomes the site-wide one
+    const [event] = Array.from(names.entries()).sort((a, b) => b[1] - a[1] || a[0].length - b[0].length)[0];
+    const first = events[0].event;
+    const urls = Array.from(new Set(events.map(entry => entry.url)));
+    return {
+      event,
+      aliases: Array.from(new Set(events.map(entry => entry.event.event))).filter(name => name !== event),
+      conversionImpact: events.reduce<Priority | undefined>((impact, entry) => higherPriority(impact, entry.event.conversionImpact), undefined),
+      conversionReason: events.find(entry => entry.event.conversionReason)?.event.conversionReason,
+      triggers: Array.from(new Set(events.map(entry => entry.event.trigger))).slice(0, MAX_TRIGGERS_PER_EVENT),
+      implementation: renameEventInCode(first.implementation, first.event, event),
+      templates: Array.from(new Set(events.map(entry => entry.template))),
+      pageCount: urls.length,
+      urls,
+    };
+  }).sort((a, b) =>
+    PRIORITY_RANK[a.conversionImpact ?? 'low'] - PRIORITY_RANK[b.conversionImpact ?? 'low'] || b.pageCount - a.pageCount);
+}
+
+/**
+ * Fold per-page results into one site-level report. Failed pages are counted
+ * but contribute no recommendations.
+ */
+export function buildSiteSummary(results: (SiteAnalysisResult & { error?: string })[]): SiteSummary {
+  const analyzed = results.filter(result => !result.error);
+  const pages = analyzed.map(result => ({
+    url: result.pageAnalysis.url,
+    template: result.pageAnalysis.pageType ?? classifyPageUrl(result.pageAnalysis.url),
+    placements: result.lytxRecommendations.tagPlacements,
+    events: result.lytxRecommendations.trackingEvents,
+  }));
+
+  const pageGroups = PAGE_TYPES
+    .map(template => ({ template, urls: pages.filter(page => page.template === template).map(page => page.url) }))
+    .filter(group => group.urls.length > 0);
+
+  return {
+    generatedAt: new Date().toISOString(),
+    pageCount: results.length,
+    failedPageCount: results.length - analyzed.length,
+    pageGroups,
+    tagPlacements: mergeTagPlacements(pages),
+    trackingPlan: buildTrackingPlan(pages),
+  };
+}
@@ -0,0 +1,161 @@
+import { normalizeCrawlUrl } from './crawler';
+import { CRAWL_USER_AGENT, SITEMAP_MAX_FILES, SITEMAP_MAX_URLS } from './defaults';
+
+export interface SitemapEntry {
+  url: string;
+  lastmod?: string;
+  priority?: number;
+}
+
+interface ParsedSitemap {
+  entries: SitemapEntry[];
+  // Child sitemaps listed by a <sitemapindex>
+  sitemaps: string[];
+}
+
+const DEFAULT_PRIORITY = 0.5;
+
+function decodeXmlText(value: string): string {
+  return value
+    .replace(/^<!\[CDATA\[([\s\S]*)\]\]>$/, '$1')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+    .trim();
+}
+
+function readTag(block: string, tag: string): string | undefined {
+  const match = block.match(new RegExp(`<(?:\\w+:)?${tag}[^>]*>([\\s\\S]*?)</(?:\\w+:)?${tag}>`, 'i'));
+  return match ? decodeXmlText(match[1]) : undefined;
+}
+
+/**
+ * Parse either a <urlset> or a <sitemapindex> document. Namespaced tags
+ * (e.g. <ns:url>) are accepted since some generators emit them.
+ */
+export function parseSitemapXml(xml: string): ParsedSitemap {
+  const entries: SitemapEntry[] = [];
+  const sitemaps: string[] = [];
+
+  const sitemapBlocks = xml.match(/<(?:\w+:)?sitemap\b[^>]*>[\s\S]*?<\/(?:\w+:)?sitemap>/gi) || [];
+  for (const block of sitemapBlocks) {
+    const loc = readTag(block, 'loc');
+    if (loc) sitemaps.push(loc);
+  }
+
+  const urlBlocks = xml.match(/<(?:\w+:)?url\b[^>]*>[\s\S]*?<\/(?:\w+:)?url>/gi) || [];
+  for (const block of urlBlocks) {
+    const loc = readTag(block, 'loc');
+    if (!loc) continue;
+    const priority = Number.parseFloat(readTag(block, 'priority') ?? '');
+    entries.push({
+      url: loc,
+      lastmod: readTag(block, 'lastmod'),
+      priority: Number.isFinite(priority) ? priority : undefined,
+    });
+  }
+
+  return { entries, sitemaps };
+}
+
+/**
+ * Extract `Sitemap:` directives from a robots.txt body.
+ */
+export function extractSitemapDirectives(robotsTxt: string): string[] {
+  const sitemaps: string[] = [];
+  for (const line of robotsTxt.split(/\r?\n/)) {
+    const match = line.match(/^\s*sitemap\s*:\s*(\S+)/i);
+    if (match) sitemaps.push(match[1]);
+  }
+  return sitemaps;
+}
+
+// Sitemaps are frequently served as .xml.gz; sniff the gzip magic bytes
+// rather than trusting the extension or content-type.
+async function readSitemapBody(response: Response): Promise<string> {
+  const buffer = await response.arrayBuffer();
+  const bytes = new Uint8Array(buffer);
+  if (bytes.length > 2 && bytes[0] === 0x1f && bytes[1] === 0x8b) {
+    const stream = new Response(buffer).body!.pipeThrough(new DecompressionStream('gzip'));
+    return await new Response(stream).text();
+  }
+  return new TextDecoder().decode(bytes);
+}
+
+async function fetchText(url: string): Promise<string | null> {
+  try {
+    const response = await fetch(url, {
+      method: 'GET',
+      headers: { 'User-Agent': CRAWL_USER_AGENT }
+    });
+    if (!response.ok) {
+      console.log(`🗺️ ${url} returned ${response.status}`);
+      return null;
+    }
+    return await readSitemapBody(response);
+  } catch (error) {
+    console.warn(`⚠️ Failed to fetch ${url}:`, error);
+    return null;
+  }
+}
+
+function siteKey(hostname: string): string {
+  return hostname.toLowerCase().replace(/^www\./, '');
+}
+
+/**
+ * Sort by sitemap priority, then most recently modified first.
+ */
+export function prioritizeSitemapEntries(entries: SitemapEntry[]): SitemapEntry[] {
+  return [...entries].sort((a, b) => {
+    const priorityDiff = (b.priority ?? DEFAULT_PRIORITY) - (a.priority ?? DEFAULT_PRIORITY);
+    if (priorityDiff !== 0) return priorityDiff;
+    const aTime = a.lastmod ? Date.parse(a.lastmod) || 0 : 0;
+    const bTime = b.lastmod ? Date.parse(b.lastmod) || 0 : 0;
+    return bTime - aTime;
+  });
+}
+
+/**
+ * Discover page URLs for a site from robots.txt `Sitemap:` lines and
+ * /sitemap.xml, following nested sitemap indexes. Only URLs on the same
+ * site (ignoring a leading www.) are returned, prioritized and deduplicated.
+ */
+export async function discoverSitemapUrls(siteUrl: string, robotsTxt?: string | null): Promise<SitemapEntry[]> {
+  const base = new URL(siteUrl);
+  const site = siteKey(base.hostname);
+
+  const robots = robotsTxt !== undefined ? robotsTxt : await fetchText(`${base.origin}/robots.txt`);
+  const queue = [
+    ...(robots ? extractSitemapDirectives(robots) : []),
+    `${base.origin}/sitemap.xml`,
+  ];
+
+  const visitedSitemaps = new Set<string>();
+  const entries = new Map<string, SitemapEntry>();
+
+  while (queue.length > 0 && visitedSitemaps.size < SITEMAP_MAX_FILES && entries.size < SITEMAP_MAX_URLS) {
+    const sitemapUrl = normalizeCrawlUrl(queue.shift()!, base);
+    if (!sitemapUrl || visitedSitemaps.has(sitemapUrl)) continue;
+    visitedSitemaps.add(sitemapUrl);
+
+    const xml = await fetchText(sitemapUrl);
+    if (!xml) continue;
+
+    const parsed = parseSitemapXml(xml);
+    console.log(`🗺️ Parsed ${sitemapUrl}: ${parsed.entries.length} URLs, ${parsed.sitemaps.length} nested sitemaps`);
+    queue.push(...parsed.sitemaps);
+
+    for (const entry of parsed.entries) {
+      const normalized = normalizeCrawlUrl(entry.url, base);
+      if (!normalized || entries.has(normalized)) continue;
+      if (siteKey(new URL(normalized).hostname) !== site) continue;
+      entries.set(normalized, { ...entry, url: normalized });
+      if (entries.size >= SITEMAP_MAX_URLS) break;
+    }
+  }
+
+  return prioritizeSitemapEntries(Array.from(entries.values()));
+}
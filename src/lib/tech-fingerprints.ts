@@ -0,0 +1,730 @@
+import type { z } from 'zod';
+import { TECHNOLOGY_CATEGORIES, type DetectedTechnology, type PageAnalysisSchema, type TechnologyCategory } from './types';
+
+// Data-driven technology detection. Each catalogue entry lists the traces a
+// technology leaves on a page - script URLs, inline globals, meta tags, DOM
+// markers, cookies and response headers. A pattern's first capture group, when
+// it has one, is the version. Every match adds evidence and the confidences
+// combine, so a script URL plus a cookie beats either alone.
+
+type TechnicalStack = z.infer<typeof PageAnalysisSchema>['technicalStack'];
+
+export interface DomMarker {
+  // HTMLRewriter selector
+  selector: string;
+  // Attribute whose value is matched against `pattern` (or holds the version)
+  attribute?: string;
+  pattern?: RegExp;
+}
+
+export interface TechFingerprint {
+  name: string;
+  category: TechnologyCategory;
+  // Matched against host + path + query of every external script
+  scriptSrc?: RegExp[];
+  // Identifiers referenced from inline scripts (window.Shopify, __NUXT__)
+  globals?: string[];
+  // Inline script content
+  inline?: RegExp[];
+  // <meta name|property> content, keyed by lowercased name
+  meta?: Record<string, RegExp>;
+  dom?: DomMarker[];
+  // Cookie names set by the response
+  cookies?: RegExp[];
+  // Response header values, keyed by lowercased header name
+  headers?: Record<string, RegExp>;
+  // Raw HTML, for traces in hrefs or markup the other kinds miss
+  html?: RegExp[];
+  // Technologies this one is built on, reported alongside it
+  implies?: string[];
+  // What it already captures, so recommendations don't duplicate it
+  notes?: string;
+}
+
+export interface PageTraces {
+  html: string;
+  url: string;
+  // Response headers, when the page was fetched directly
+  headers?: Headers;
+}
+
+type EvidenceKind = 'header' | 'meta' | 'cookie' | 'script' | 'dom' | 'global' | 'inline' | 'html';
+
+// How much one match of each kind is worth on its own
+const EVIDENCE_CONFIDENCE: Record<EvidenceKind, number> = {
+  header: 0.95,
+  meta: 0.95,
+  cookie: 0.85,
+  script: 0.9,
+  dom: 0.75,
+  global: 0.7,
+  inline: 0.6,
+  html: 0.5,
+};
+
+// Implied technologies are as likely as what implies them, discounted a little
+const IMPLIED_CONFIDENCE = 0.9;
+const MAX_INLINE_SCRIPT_SCAN = 50000;
+
+export const TECH_FINGERPRINTS: TechFingerprint[] = [
+  // Frameworks
+  {
+    name: 'React', category: 'framework',
+    scriptSrc: [/react(?:-dom)?@(\d+(?:\.\d+)*)/, /react(?:-dom)?(?:\.production)?(?:\.min)?\.js/, /\/react\/(\d+(?:\.\d+)*)\//],
+    dom: [{ selector: '[data-reactroot]' }, { selector: '[data-reactid]' }],
+    globals: ['__REACT_DEVTOOLS_GLOBAL_HOOK__'],
+  },
+  {
+    name: 'Next.js', category: 'framework', implies: ['React'],
+    scriptSrc: [/\/_next\/static\//],
+    dom: [{ selector: 'script#__NEXT_DATA__' }, { selector: 'div#__next' }],
+    inline: [/self\.__next_f\b/],
+    headers: { 'x-powered-by': /Next\.js ?(\d+(?:\.\d+)*)?/i, 'x-nextjs-cache': /./ },
+  },
+  {
+    name: 'Gatsby', category: 'framework', implies: ['React'],
+    dom: [{ selector: 'div#___gatsby' }],
+    meta: { generator: /^Gatsby ?(\d+(?:\.\d+)*)?/i },
+  },
+  {
+    name: 'Remix', category: 'framework', implies: ['React'],
+    globals: ['__remixContext', '__remixManifest'],
+  },
+  {
+    name: 'Vue.js', category: 'framework',
+    scriptSrc: [/vue@(\d+(?:\.\d+)*)/, /\/vue\/(\d+(?:\.\d+)*)\//, /vue(?:\.runtime)?(?:\.global)?(?:\.prod)?(?:\.min)?\.js/],
+    dom: [{ selector: '[data-v-app]' }, { selector: '[data-server-rendered]' }],
+  },
+  {
+    name: 'Nuxt', category: 'framework', implies: ['Vue.js'],
+    scriptSrc: [/\/_nuxt\//],
+    dom: [{ selector: 'div#__nuxt' }],
+    globals: ['__NUXT__'],
+    meta: { generator: /^Nuxt ?(\d+(?:\.\d+)*)?/i },
+  },
+  {
+    name: 'Angular', category: 'framework',
+    dom: [{ selector: '[ng-version]', attribute: 'ng-version', pattern: /^(\d+(?:\.\d+)*)/ }, { selector: '[ng-app]' }],
+  },
+  {
+    name: 'Svelte', category: 'framework',
+    dom: [{ selector: '[class*="svelte-"]' }],
+  },
+  {
+    name: 'SvelteKit', category: 'framework', implies: ['Svelte'],
+    scriptSrc: [/\/_app\/immutable\//],
+    dom: [{ selector: '[data-sveltekit-preload-data]' }],
+    globals: ['__sveltekit'],
+  },
+  {
+    name: 'Astro', category: 'framework',
+    dom: [{ selector: 'astro-island' }],
+    meta: { generator: /^Astro v?(\d+(?:\.\d+)*)?/i },
+  },
+
+  // CMSes
+  {
+    name: 'WordPress', category: 'cms',
+    meta: { generator: /^WordPress ?(\d+(?:\.\d+)*)?/i },
+    scriptSrc: [/\/wp-(?:content|includes)\//],
+    html: [/\/wp-content\//],
+    headers: { 'x-pingback': /\/xmlrpc\.php/, link: /rel="https:\/\/api\.w\.org\/"/ },
+    cookies: [/^wordpress_/, /^wp-settings/],
+  },
+  {
+    name: 'Drupal', category: 'cms',
+    meta: { generator: /^Drupal ?(\d+(?:\.\d+)*)?/i },
+    headers: { 'x-generator': /Drupal ?(\d+(?:\.\d+)*)?/i, 'x-drupal-cache': /./ },
+    globals: ['drupalSettings'],
+    scriptSrc: [/\/sites\/(?:all|default)\/|\/core\/misc\/drupal\.js/],
+  },
+  {
+    name: 'Joomla', category: 'cms',
+    meta: { generator: /^Joomla!? ?(\d+(?:\.\d+)*)?/i },
+    scriptSrc: [/\/media\/(?:jui|system)\/js\//],
+  },
+  {
+    name: 'Wix', category: 'cms',
+    meta: { generator: /^Wix\.com/i },
+    headers: { 'x-wix-request-id': /./ },
+    scriptSrc: [/static\.parastorage\.com/],
+  },
+  {
+    name: 'Squarespace', category: 'cms',
+    meta: { generator: /Squarespace/i },
+    scriptSrc: [/static1?\.squarespace\.com|assets\.squarespace\.com/],
+    globals: ['Static.SQUARESPACE_CONTEXT'],
+  },
+  {
+    name: 'Webflow', category: 'cms',
+    meta: { generator: /^Webflow/i },
+    dom: [{ selector: 'html[data-wf-site]' }, { selector: 'html[data-wf-page]' }],
+    scriptSrc: [/assets(?:-global)?\.website-files\.com|uploads-ssl\.webflow\.com/],
+  },
+  {
+    name: 'Ghost', category: 'cms',
+    meta: { generator: /^Ghost ?(\d+(?:\.\d+)*)?/i },
+    scriptSrc: [/\/ghost\/|cdn\.jsdelivr\.net\/ghost\//],
+  },
+  {
+    name: 'Framer', category: 'cms',
+    meta: { generator: /^Framer/i },
+    scriptSrc: [/framerusercontent\.com|events\.framer\.com/],
+  },
+  {
+    name: 'HubSpot CMS', category: 'cms',
+    meta: { generator: /^HubSpot/i },
+    headers: { 'x-hs-hub-id': /./ },
+  },
+
+  // E-commerce platforms
+  {
+    name: 'Shopify', category: 'ecommerce',
+    notes: 'Storefront with cart and checkout flows; checkout pages are hosted by Shopify.',
+    scriptSrc: [/cdn\.shopify\.com/, /\/cdn\/shop\//],
+    globals: ['Shopify.shop', 'Shopify.theme'],
+    meta: { 'shopify-checkout-api-token': /./, 'shopify-digital-wallet': /./ },
+    headers: { 'x-shopid': /./, 'x-shopify-stage': /./ },
+    cookies: [/^_shopify_/],
+  },
+  {
+    name: 'WooCommerce', category: 'ecommerce', implies: ['WordPress'],
+    meta: { generator: /^WooCommerce ?(\d+(?:\.\d+)*)?/i },
+    scriptSrc: [/\/plugins\/woocommerce\/.*[?&]ver=(\d+(?:\.\d+)*)/, /\/plugins\/woocommerce\//],
+    dom: [{ selector: 'body[class*="woocommerce"]' }],
+    cookies: [/^woocommerce_/, /^wp_woocommerce_session/],
+  },
+  {
+    name: 'Magento', category: 'ecommerce',
+    scriptSrc: [/\/static\/version\d+\/frontend\//, /\/mage\/|requirejs\/require\.js/],
+    inline: [/Magento_Ui|mage\/cookies/],
+    cookies: [/^X-Magento-Vary$/, /^mage-cache-/],
+  },
+  {
+    name: 'BigCommerce', category: 'ecommerce',
+    scriptSrc: [/cdn\d*\.bigcommerce\.com/],
+    globals: ['BCData'],
+    cookies: [/^SHOP_SESSION_TOKEN$/],
+  },
+  {
+    name: 'PrestaShop', category: 'ecommerce',
+    meta: { generator: /^PrestaShop/i },
+    globals: ['prestashop'],
+    cookies: [/^PrestaShop-/],
+  },
+  {
+    name: 'Salesforce Commerce Cloud', category: 'ecommerce',
+    scriptSrc: [/demandware\.static|\/on\/demandware\.store\//],
+    cookies: [/^dwsid$/, /^dwanonymous_/],
+  },
+
+  // Tag managers
+  {
+    name: 'Google Tag Manager', category: 'tag_manager',
+    notes: 'Container that may already fire other tags; LYTX can be deployed through it.',
+    scriptSrc: [/googletagmanager\.com\/gtm\.js/],
+    inline: [/googletagmanager\.com\/gtm\.js/, /\bGTM-[A-Z0-9]{4,}\b/],
+  },
+  {
+    name: 'Tealium', category: 'tag_manager',
+    scriptSrc: [/tags\.tiqcdn\.com/],
+    globals: ['utag_data'],
+  },
+  {
+    name: 'Adobe Experience Platform Launch', category: 'tag_manager',
+    scriptSrc: [/assets\.adobedtm\.com/],
+    globals: ['_satellite'],
+  },
+
+  // Analytics
+  {
+    name: 'LYTX', category: 'analytics',
+    notes: 'Page views via lytx.js; custom events via window.lytxApi.event.',
+    scriptSrc: [/(^|\.)lytx\.io\//],
+    globals: ['lytxApi'],
+    html: [/lytx-analytics/],
+  },
+  {
+    name: 'Google Analytics', category: 'analytics',
+    notes: 'Page views and enhanced measurement (scrolls, outbound clicks, site search).',
+    scriptSrc: [/googletagmanager\.com\/gtag\/js/, /google-analytics\.com\/(?:analytics|ga)\.js/],
+    inline: [/\bgtag\(\s*['"]config['"]\s*,\s*['"](?:G|UA)-/, /\bga\(\s*['"]create['"]/],
+    cookies: [/^_ga(?:_|$)/, /^_gid$/],
+  },
+  {
+    name: 'Segment', category: 'analytics',
+    notes: 'Customer data pipeline; existing track() calls show which events are already named.',
+    scriptSrc: [/cdn\.segment\.com\/analytics\.js/],
+    inline: [/analytics\.load\(/],
+  },
+  {
+    name: 'Mixpanel', category: 'analytics',
+    notes: 'Product analytics with custom events.',
+    scriptSrc: [/cdn\.mxpnl\.com/],
+    inline: [/mixpanel\.init\(/],
+    cookies: [/^mp_[a-f0-9]+_mixpanel$/],
+  },
+  {
+    name: 'Amplitude', category: 'analytics',
+    scriptSrc: [/cdn\.amplitude\.com\/(?:libs\/)?analytics-browser-(\d+(?:\.\d+)*)/, /cdn\.amplitude\.com/],
+    inline: [/amplitude\.(?:init|getInstance)\(/],
+  },
+  {
+    name: 'Heap', category: 'analytics',
+    scriptSrc: [/cdn\.heapanalytics\.com/],
+    inline: [/heap\.load\(/],
+  },
+  {
+    name: 'PostHog', category: 'analytics',
+    scriptSrc: [/(?:us|eu)(?:-assets)?\.i\.posthog\.com|app\.posthog\.com\/static\/array\.js/],
+    inline: [/posthog\.init\(/],
+  },
+  {
+    name: 'Plausible', category: 'analytics',
+    notes: 'Cookieless page views and goal events.',
+    scriptSrc: [/plausible\.io\/js\//],
+  },
+  {
+    name: 'Matomo', category: 'analytics',
+    scriptSrc: [/\/matomo\.js|\/piwik\.js/],
+    inline: [/_paq\.push\(/],
+    cookies: [/^_pk_id\./],
+  },
+  {
+    name: 'Adobe Analytics', category: 'analytics',
+    scriptSrc: [/\/AppMeasurement(?:\.min)?\.js/],
+    globals: ['s_account'],
+    cookies: [/^s_cc$/, /^s_vi$/],
+  },
+  {
+    name: 'Hotjar', category: 'analytics',
+    notes: 'Heatmaps and recordings; no conversion events of its own.',
+    scriptSrc: [/static\.hotjar\.com\/c\/hotjar-/],
+    inline: [/\bhjid\s*:/],
+    cookies: [/^_hjSession/],
+  },
+  {
+    name: 'HubSpot', category: 'analytics',
+    notes: 'Tracks HubSpot form submissions and page views for its CRM.',
+    scriptSrc: [/js\.hs-scripts\.com|js\.hs-analytics\.net|js\.hsforms\.net/],
+    cookies: [/^hubspotutk$/],
+  },
+  {
+    name: 'Microsoft Clarity', category: 'analytics',
+    scriptSrc: [/clarity\.ms\/tag\//],
+    inline: [/clarity\.ms\/tag\//],
+  },
+
+  // Advertising pixels
+  {
+    name: 'Meta Pixel', category: 'advertising',
+    notes: 'PageView plus ad conversion events (Lead, Purchase, AddToCart).',
+    scriptSrc: [/connect\.facebook\.net\/[^/]+\/fbevents\.js/],
+    inline: [/\bfbq\(\s*['"]init['"]/],
+    cookies: [/^_fbp$/],
+  },
+  {
+    name: 'Google Ads', category: 'advertising',
+    scriptSrc: [/googleadservices\.com\/pagead\/conversion/],
+    inline: [/\bgtag\(\s*['"]config['"]\s*,\s*['"]AW-/],
+    cookies: [/^_gcl_au$/],
+  },
+  {
+    name: 'LinkedIn Insight Tag', category: 'advertising',
+    scriptSrc: [/snap\.licdn\.com\/li\.lms-analytics/],
+    globals: ['_linkedin_partner_id'],
+  },
+  {
+    name: 'Klaviyo', category: 'advertising',
+    notes: 'Email signup forms and ecommerce events for email flows.',
+    scriptSrc: [/static\.klaviyo\.com/],
+    globals: ['_learnq'],
+  },
+  {
+    name: 'TikTok Pixel', category: 'advertising',
+    scriptSrc: [/analytics\.tiktok\.com/],
+    inline: [/\bttq\.load\(/],
+  },
+
+  // Consent management platforms
+  {
+    name: 'OneTrust', category: 'consent',
+    scriptSrc: [/cdn\.cookielaw\.org|optanon\.blob\.core\.windows\.net|otSDKStub\.js/],
+    dom: [{ selector: '#onetrust-consent-sdk' }],
+    cookies: [/^OptanonConsent$/, /^OptanonAlertBoxClosed$/],
+  },
+  {
+    name: 'Cookiebot', category: 'consent',
+    scriptSrc: [/consent\.cookiebot\.(?:com|eu)/],
+    dom: [{ selector: '#CybotCookiebotDialog' }],
+    cookies: [/^CookieConsent$/],
+  },
+  {
+    name: 'Didomi', category: 'consent',
+    scriptSrc: [/sdk\.privacy-center\.org/],
+    globals: ['didomiConfig'],
+    cookies: [/^didomi_token$/],
+  },
+  {
+    name: 'Usercentrics', category: 'consent',
+    scriptSrc: [/app\.usercentrics\.eu|web\.cmp\.usercentrics\.eu/],
+    dom: [{ selector: '#usercentrics-root' }, { selector: '#usercentrics-cmp' }],
+  },
+  {
+    name: 'TrustArc', category: 'consent',
+    scriptSrc: [/consent\.trustarc\.com/],
+    dom: [{ selector: '#truste-consent-track' }, { selector: '#teconsent' }],
+    cookies: [/^notice_behavior$/],
+  },
+  {
+    name: 'Osano', category: 'consent',
+    scriptSrc: [/cmp\.osano\.com/],
+  },
+  {
+    name: 'Quantcast Choice', category: 'consent',
+    scriptSrc: [/cmp\.quantcast\.com|quantcast\.mgr\.consensu\.org/],
+  },
+  {
+    name: 'CookieYes', category: 'consent',
+    scriptSrc: [/cdn-cookieyes\.com/],
+    cookies: [/^cookieyes-consent$/],
+  },
+  {
+    name: 'iubenda', category: 'consent',
+    scriptSrc: [/cdn\.iubenda\.com/],
+    globals: ['_iub'],
+  },
+  {
+    name: 'Termly', category: 'consent',
+    scriptSrc: [/app\.termly\.io/],
+  },
+
+  // A/B testing
+  {
+    name: 'Optimizely', category: 'ab_testing',
+    scriptSrc: [/cdn\.optimizely\.com\/js\//],
+    globals: ['optimizely'],
+    cookies: [/^optimizelyEndUserId$/],
+  },
+  {
+    name: 'VWO', category: 'ab_testing',
+    scriptSrc: [/dev\.visualwebsiteoptimizer\.com/],
+    globals: ['_vwo_code'],
+    cookies: [/^_vwo_uuid/],
+  },
+  {
+    name: 'AB Tasty', category: 'ab_testing',
+    scriptSrc: [/try\.abtasty\.com/],
+    cookies: [/^ABTasty$/],
+  },
+  {
+    name: 'Convert', category: 'ab_testing',
+    scriptSrc: [/cdn-\d+\.convertexperiments\.com/],
+  },
+  {
+    name: 'Kameleoon', category: 'ab_testing',
+    scriptSrc: [/\.kameleoon\.(?:eu|io)\//],
+  },
+  {
+    name: 'LaunchDarkly', category: 'ab_testing',
+    scriptSrc: [/app\.launchdarkly\.com|launchdarkly-js-client-sdk/],
+    inline: [/LDClient\.initialize\(/],
+  },
+
+  // Chat widgets
+  {
+    name: 'Intercom', category: 'chat',
+    notes: 'Chat widget; opening the messenger is a useful engagement event.',
+    scriptSrc: [/widget\.intercom\.io|js\.intercomcdn\.com/],
+    globals: ['intercomSettings'],
+    cookies: [/^intercom-/],
+  },
+  {
+    name: 'Drift', category: 'chat',
+    scriptSrc: [/js\.driftt\.com/],
+    inline: [/drift\.load\(/],
+  },
+  {
+    name: 'Zendesk Chat', category: 'chat',
+    scriptSrc: [/static\.zdassets\.com\/ekr\/snippet\.js|v2\.zopim\.com/],
+    dom: [{ selector: 'script#ze-snippet' }],
+  },
+  {
+    name: 'LiveChat', category: 'chat',
+    scriptSrc: [/cdn\.livechatinc\.com/],
+    globals: ['__lc'],
+  },
+  {
+    name: 'HubSpot Chat', category: 'chat',
+    scriptSrc: [/js\.usemessages\.com/],
+  },
+  {
+    name: 'Crisp', category: 'chat',
+    scriptSrc: [/client\.crisp\.chat/],
+    globals: ['CRISP_WEBSITE_ID'],
+  },
+  {
+    name: 'Tawk.to', category: 'chat',
+    scriptSrc: [/embed\.tawk\.to/],
+    globals: ['Tawk_API'],
+  },
+  {
+    name: 'Tidio', category: 'chat',
+    scriptSrc: [/code\.tidio\.co/],
+  },
+  {
+    name: 'Freshchat', category: 'chat',
+    scriptSrc: [/wchat\.freshchat\.com|\.freshworks\.com\/widget/],
+  },
+];
+
+interface Match {
+  fingerprint: TechFingerprint;
+  kind: EvidenceKind;
+  detail: string;
+  version?: string;
+}
+
+function versionFrom(match: RegExpExecArray | null): string | undefined {
+  const version = match?.[1];
+  return version && /^\d/.test(version) ? version : undefined;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Compiled once: a global is referenced as a whole identifier, not a substring
+const GLOBAL_PATTERNS = new Map(TECH_FINGERPRINTS.map(fingerprint => [
+  fingerprint,
+  (fingerprint.globals ?? []).map(name => ({ name, pattern: new RegExp(`(^|[^\\w$.])(?:window\\.)?${escapeRegExp(name)}\\b`) })),
+]));
+
+function cookieNames(headers?: Headers): string[] {
+  if (!headers) return [];
+  const setCookies = typeof headers.getSetCookie === 'function'
+    ? headers.getSetCookie()
+    : (headers.get('set-cookie') ?? '').split(/,(?=\s*[^;,=\s]+=)/);
+  return setCookies
+    .map(cookie => cookie.split('=')[0].trim())
+    .filter(Boolean);
+}
+
+async function collectMatches({ html, url, headers }: PageTraces): Promise<Match[]> {
+  const matches: Match[] = [];
+  const add = (fingerprint: TechFingerprint, kind: EvidenceKind, detail: string, version?: string) =>
+    matches.push({ fingerprint, kind, detail, version });
+
+  const scripts: string[] = [];
+  const inlineScripts: string[] = [];
+  // Pages can repeat a name, e.g. one generator tag for WordPress and one for WooCommerce
+  const meta: Record<string, string[]> = {};
+  let inlineScript: { text: string } | null = null;
+
+  let rewriter = new HTMLRewriter()
+    .on('script', {
+      element(element) {
+        const src = element.getAttribute('src');
+        if (src) {
+          try {
+            const resolved = new URL(src, url);
+            scripts.push(`${resolved.hostname}${resolved.pathname}${resolved.search}`);
+          } catch {
+            // Unparseable src; nothing to fingerprint
+          }
+          return;
+        }
+        if (element.getAttribute('type') === 'application/ld+json') return;
+        const script = { text: '' };
+        inlineScript = script;
+        element.onEndTag(() => {
+          inlineScript = null;
+          inlineScripts.push(script.text);
+        });
+      },
+      text(chunk) {
+        if (inlineScript && inlineScript.text.length < MAX_INLINE_SCRIPT_SCAN) inlineScript.text += chunk.text;
+      },
+    })
+    .on('meta', {
+      element(element) {
+        const name = (element.getAttribute('name') || element.getAttribute('property') || '').toLowerCase();
+        const content = element.getAttribute('content');
+        if (name && content !== null) (meta[name] ??= []).push(content);
+      },
+    });
+
+  // One handler per DOM marker; each marker counts once however often it appears
+  for (const fingerprint of TECH_FINGERPRINTS) {
+    for (const marker of fingerprint.dom ?? []) {
+      let seen = false;
+      rewriter = rewriter.on(marker.selector, {
+        element(element) {
+          if (seen) return;
+          const value = marker.attribute ? element.getAttribute(marker.attribute) ?? '' : '';
+          const match = marker.pattern ? marker.pattern.exec(value) : null;
+          if (marker.pattern && !match) return;
+          seen = true;
+          add(fingerprint, 'dom', marker.selector, versionFrom(match));
+        },
+      });
+    }
+  }
+
+  // Drain the transformed body; we only care about the handler side effects
+  await rewriter.transform(new Response(html, { headers: { 'Content-Type': 'text/html' } })).arrayBuffer();
+
+  const cookies = cookieNames(headers);
+  const inlineText = inlineScripts.join('\n');
+
+  for (const fingerprint of TECH_FINGERPRINTS) {
+    for (const pattern of fingerprint.scriptSrc ?? []) {
+      for (const src of scripts) {
+        const match = pattern.exec(src);
+        if (match) {
+          add(fingerprint, 'script', src, versionFrom(match));
+          break;
+        }
+      }
+    }
+    for (const { name, pattern } of GLOBAL_PATTERNS.get(fingerprint) ?? []) {
+      if (pattern.test(inlineText)) add(fingerprint, 'global', name);
+    }
+    for (const pattern of fingerprint.inline ?? []) {
+      const match = pattern.exec(inlineText);
+      if (match) add(fingerprint, 'inline', match[0], versionFrom(match));
+    }
+    for (const [name, pattern] of Object.entries(fingerprint.meta ?? {})) {
+      for (const content of meta[name] ?? []) {
+        const match = pattern.exec(content);
+        if (match) add(fingerprint, 'meta', `${name}: ${content}`, versionFrom(match));
+      }
+    }
+    for (const pattern of fingerprint.cookies ?? []) {
+      const cookie = cookies.find(name => pattern.test(name));
+      if (cookie) add(fingerprint, 'cookie', cookie);
+    }
+    for (const [name, pattern] of Object.entries(fingerprint.headers ?? {})) {
+      const value = headers?.get(name);
+      const match = value != null ? pattern.exec(value) : null;
+      if (match) add(fingerprint, 'header', `${name}: ${value}`, versionFrom(match));
+    }
+    for (const pattern of fingerprint.html ?? []) {
+      if (pattern.test(html)) add(fingerprint, 'html', pattern.source);
+    }
+  }
+
+  return matches;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Match a page against the fingerprint catalogue, ordered by category then
+ * confidence
+ */
+export async function detectTechnologies(traces: PageTraces): Promise<DetectedTechnology[]> {
+  const detected = new Map<string, DetectedTechnology & { miss: number; versionConfidence: number }>();
+
+  for (const { fingerprint, kind, detail, version } of await collectMatches(traces)) {
+    const entry = detected.get(fingerprint.name)
+      ?? { name: fingerprint.name, category: fingerprint.category, confidence: 0, evidence: [], miss: 1, versionConfidence: 0 };
+    detected.set(fingerprint.name, entry);
+    const evidence = `${kind} ${detail}`;
+    // Two patterns hitting the same trace are one piece of evidence
+    if (entry.evidence.includes(evidence)) continue;
+    // Independent evidence: confidence is the chance not every match is wrong
+    entry.miss *= 1 - EVIDENCE_CONFIDENCE[kind];
+    entry.evidence.push(evidence);
+    // Trust the version from the strongest evidence, then the most specific
+    const versionConfidence = EVIDENCE_CONFIDENCE[kind];
+    if (version && (versionConfidence > entry.versionConfidence
+      || (versionConfidence === entry.versionConfidence && version.length > (entry.version?.length ?? 0)))) {
+      entry.version = version;
+      entry.versionConfidence = versionConfidence;
+    }
+  }
+
+  for (const entry of detected.values()) entry.confidence = round(1 - entry.miss);
+
+  // Implied technologies, e.g. Next.js -> React
+  for (const entry of Array.from(detected.values())) {
+    for (const impliedName of TECH_FINGERPRINTS.find(fingerprint => fingerprint.name === entry.name)?.implies ?? []) {
+      const implied = TECH_FINGERPRINTS.find(fingerprint => fingerprint.name === impliedName);
+      if (!implied) continue;
+      const existing = detected.get(impliedName);
+      const confidence = round(entry.confidence * IMPLIED_CONFIDENCE);
+      if (!existing) {
+        detected.set(impliedName, { name: impliedName, category: implied.category, confidence, evidence: [`implied by ${entry.name}`], miss: 1 - confidence, versionConfidence: 0 });
+      } else {
+        existing.confidence = Math.max(existing.confidence, confidence);
+        existing.evidence.push(`implied by ${entry.name}`);
+      }
+    }
+  }
+
+  return Array.from(detected.values())
+    .map(({ miss: _miss, versionConfidence: _versionConfidence, ...technology }) => technology)
+    .sort((a, b) => TECHNOLOGY_CATEGORIES.indexOf(a.category) - TECHNOLOGY_CATEGORIES.indexOf(b.category) || b.confidence - a.confidence);
+}
+
+/**
+ * Catalogue entry by name, exact match first, e.g. for the agent's
+ * lookup_vendor tool
+ */
+export function lookupVendor(name: string): TechFingerprint | undefined {
+  const query = name.trim().toLowerCase();
+  if (!query) return undefined;
+  return TECH_FINGERPRINTS.find(fingerprint => fingerprint.name.toLowerCase() === query)
+    ?? TECH_FINGERPRINTS.find(fingerprint => fingerprint.name.toLowerCase().includes(query) || query.includes(fingerprint.name.toLowerCase()));
+}
+
+/**
+ * Fingerprints matched by one script alone - its URL (host + path + query) or
+ * its inline text. Cheaper than detectTechnologies when the caller already
+ * walks the page's scripts, as the page digest does.
+ */
+export function matchScriptFingerprints(script: { src?: string; text?: string }): TechFingerprint[] {
+  return TECH_FINGERPRINTS.filter(fingerprint => {
+    if (script.src !== undefined) {
+      return (fingerprint.scriptSrc ?? []).some(pattern => pattern.test(script.src!));
+    }
+    const text = script.text ?? '';
+    return (fingerprint.inline ?? []).some(pattern => pattern.test(text))
+      || (GLOBAL_PATTERNS.get(fingerprint) ?? []).some(({ pattern }) => pattern.test(text));
+  });
+}
+
+// Below this a detection is listed but doesn't name the framework or CMS
+const STACK_MIN_CONFIDENCE = 0.5;
+
+const ANALYTICS_CATEGORIES: TechnologyCategory[] = ['analytics', 'tag_manager', 'advertising'];
+
+/**
+ * Fold detections into technicalStack. Fingerprints win over what the model
+ * guessed for framework and CMS; analytics keeps the model's extra names.
+ * Versions stay on `technologies` so framework and cms remain plain names.
+ */
+export function applyTechnologies(stack: TechnicalStack, technologies: DetectedTechnology[]): TechnicalStack {
+  const implied = new Set(technologies.flatMap(technology =>
+    TECH_FINGERPRINTS.find(fingerprint => fingerprint.name === technology.name)?.implies ?? []));
+  // The most specific one: Next.js rather than the React it implies
+  const pick = (...categories: TechnologyCategory[]) => technologies
+    .filter(technology => categories.includes(technology.category) && technology.confidence >= STACK_MIN_CONFIDENCE)
+    .sort((a, b) => Number(implied.has(a.name)) - Number(implied.has(b.name))
+      || categories.indexOf(a.category) - categories.indexOf(b.category)
+      || b.confidence - a.confidence)[0];
+
+  const detectedAnalytics = technologies
+    .filter(technology => ANALYTICS_CATEGORIES.includes(technology.category))
+    .map(technology => technology.name);
+  const known = new Set(detectedAnalytics.map(name => name.toLowerCase()));
+
+  return {
+    ...stack,
+    framework: pick('framework')?.name ?? stack.framework,
+    cms: pick('cms', 'ecommerce')?.name ?? stack.cms,
+    analytics: [...detectedAnalytics, ...stack.analytics.filter(name => !known.has(name.toLowerCase()))],
+    technologies,
+  };
+}
@@ -1,16 +1,86 @@
 import { z } from 'zod';
+import type { LlmProviderId } from './llm-providers';
+
+// How the crawl finds pages: following anchors, reading sitemap.xml, or both
+export const CRAWL_DISCOVERY_MODES = ['links', 'sitemap', 'both'] as const;
+export type CrawlDiscoveryMode = typeof CRAWL_DISCOVERY_MODES[number];
+
+export type ScheduleCadence = 'daily' | 'weekly' | 'monthly';
+
+// Labels from the page classifier (page-classifier.ts)
+export const PAGE_TYPES = ['home', 'product', 'category', 'cart', 'checkout', 'blog-post', 'landing', 'contact', 'pricing', 'docs', 'other'] as const;
+export type PageType = typeof PAGE_TYPES[number];
+
+// Categories in the technology fingerprint catalogue (tech-fingerprints.ts)
+export const TECHNOLOGY_CATEGORIES = ['framework', 'cms', 'ecommerce', 'tag_manager', 'analytics', 'advertising', 'consent', 'ab_testing', 'chat'] as const;
+export type TechnologyCategory = typeof TECHNOLOGY_CATEGORIES[number];
+
+export type NewScheduleRequest = {
+  url: string;
+  cadence: ScheduleCadence;
+  // Options for each session the schedule starts
+  options?: Omit<NewSessionRequest, 'url'>;
+};
 
 export type NewSessionRequest = {
   url: string;
   crawl?: boolean;
   maxPages?: number;
+  maxDepth?: number;
+  discoveryMode?: CrawlDiscoveryMode;
   usePuppeteer?: boolean;
   useExternalFetcher?: boolean;
   extraInstructions?: string;
   concurrency?: number;
+  // Also load each page in a real browser and check the LYTX tag actually runs
+  verifyLytx?: boolean;
+  // Simulate each recommended tracking event in a browser and flag whether it fires
+  validateEvents?: boolean;
+  // Let the model investigate each page with tools (multi-step) before answering
+  agentMode?: boolean;
+  // Defaults to LLM_PROVIDER / LLM_MODEL from env
+  llmProvider?: LlmProviderId;
+  llmModel?: string;
+  // Pin a site-analysis prompt version (e.g. "v2") instead of the active one
+  promptVersion?: string;
+  // Skip cached LLM answers for unchanged pages and analyze every page anew
+  forceFresh?: boolean;
 };
 
 
+export const DetectedTechnologySchema = z.object({
+  name: z.string(),
+  category: z.enum(TECHNOLOGY_CATEGORIES),
+  // 0-1, combined from every matching fingerprint
+  confidence: z.number(),
+  version: z.string().optional(),
+  evidence: z.array(z.string()),
+});
+
+export type DetectedTechnology = z.infer<typeof DetectedTechnologySchema>;
+
+// How the site treats tracking before the visitor decides (consent.ts)
+export const CONSENT_MODELS = ['opt-in', 'opt-out', 'notice-only', 'none', 'unknown'] as const;
+export type ConsentModel = typeof CONSENT_MODELS[number];
+
+export const ConsentSchema = z.object({
+  // CMPs from the fingerprint catalogue
+  platforms: z.array(z.string()),
+  model: z.enum(CONSENT_MODELS),
+  // Google Consent Mode, IAB TCF, IAB GPP, IAB USP
+  frameworks: z.array(z.string()),
+  // A banner without a known CMP behind it
+  customBanner: z.boolean(),
+  signals: z.array(z.string()),
+  // Whether the LYTX tag should wait for consent
+  gateLytx: z.boolean(),
+  guidance: z.string(),
+  // Script wiring loadLytx / pauseLytx to the CMP's callbacks
+  integrationCode: z.string().optional(),
+});
+
+export type ConsentAnalysis = z.infer<typeof ConsentSchema>;
+
 export const PageAnalysisSchema = z.object({
   url: z.string(),
   title: z.string(),
@@ -24,6 +94,10 @@ export const PageAnalysisSchema = z.object({
     framework: z.string().optional(),
     cms: z.string().optional(),
     analytics: z.array(z.string()),
+    // Set by technology fingerprinting after generation
+    technologies: z.array(DetectedTechnologySchema).optional(),
+    // GTM-XXXX IDs of containers loaded on the page
+    gtmContainerIds: z.array(z.string()).optional(),
   }),
   seoMetrics: z.object({
     hasMetaTitle: z.boolean(),
@@ -32,6 +106,10 @@ export const PageAnalysisSchema = z.object({
     imageCount: z.number(),
     linkCount: z.number(),
   }),
+  // Set by the page classifier after generation
+  pageType: z.enum(PAGE_TYPES).optional(),
+  // Set by consent detection after generation
+  consent: ConsentSchema.optional(),
 });
 
 export const LYTXRecommendationSchema = z.object({
@@ -61,6 +139,8 @@ export const SiteAnalysisResult = z.object({
   analysisId: z.string(),
   timestamp: z.string(),
   detectedLytxAccount: z.string().nullable().optional(),
+  // name@version of the prompt template, set after generation
+  promptVersion: z.string().optional(),
 });
 
 export type PageAnalysis = z.infer<typeof PageAnalysisSchema>;
@@ -1,214 +1,116 @@
 import { SiteAnalysisResult } from '@/lib/types';
+import type { LytxVerification } from '@/lib/lytx-verifier';
+import type { AgentTrace } from '@/lib/agent-analysis';
+import type { LlmCacheInfo } from '@/lib/llm-cache';
+import type { LlmUsage } from '@/lib/llm-usage';
 import type { SessionData } from '@/api/session';
 import { env } from 'cloudflare:workers';
 import { SESSION_TTL } from '@/lib/defaults';
 
-/**
- * Generic session update utility
- */
-export async function updateSession(sessionId: string, updates: Partial<SessionData>): Promise<void> {
-  try {
-    if (!env.SITE_ANALYSIS_CACHE) {
-      console.error(`❌ No SITE_ANALYSIS_CACHE available for session ${sessionId}`);
-      return;
-    }
-
-    const currentData = await env.SITE_ANALYSIS_CACHE.get(`session:${sessionId}`);
-    if (!currentData) {
-      console.error(`❌ Session ${sessionId} not found in cache`);
-      return;
-    }
-
-    const data = JSON.parse(currentData) as SessionData;
-    const updatedData = {
-      ...data,
-      ...updates,
-      updatedAt: new Date().toISOString()
-    } as SessionData;
+// KV only holds a read-through snapshot of each session for GET /api/session/:id.
+// The SessionAnalysisManager Durable Object owns the authoritative state and is
+// the only writer, so results from concurrent SiteAnalysisDOs can't overwrite
+// each other.
 
-    console.log(`📝 Updating session ${sessionId}:`, {
-      status: updatedData.status,
-      stage: updatedData.progress?.stage
-    });
+export type SessionResult = SiteAnalysisResult & { error?: string; lytxVerification?: LytxVerification; agentTrace?: AgentTrace; llmCache?: LlmCacheInfo; usage?: LlmUsage };
 
-    await env.SITE_ANALYSIS_CACHE.put(
-      `session:${sessionId}`,
-      JSON.stringify(updatedData),
-      { expirationTtl: SESSION_TTL }
-    );
-  } catch (error) {
-    console.error(`💥 Failed to update session ${sessionId}:`, error);
-    throw error;
-  }
+/**
+ * Get the SessionAnalysisManager stub that owns a session
+ */
+export function getSessionManager(sessionId: string) {
+  const durableObjectId = env.SESSION_ANALYSIS_MANAGER.idFromName(sessionId);
+  return env.SESSION_ANALYSIS_MANAGER.get(durableObjectId);
 }
 
 /**
- * Update session with analysis result for a specific URL
+ * Write the latest session snapshot to KV
  */
-export async function updateSessionWithResult(sessionId: string, url: string, result: SiteAnalysisResult): Promise<void> {
-  try {
-    if (!env.SITE_ANALYSIS_CACHE) {
-      console.error(`❌ No SITE_ANALYSIS_CACHE available for session ${sessionId}`);
-      return;
-    }
-
-    const currentData = await env.SITE_ANALYSIS_CACHE.get(`session:${sessionId}`);
-    if (!currentData) {
-      console.error(`❌ Session ${sessionId} not found in cache`);
-      return;
-    }
-
-    const sessionData = JSON.parse(currentData) as SessionData;
-
-    // Add this result to the session
-    if (!sessionData.results) {
-      sessionData.results = [];
-    }
-
-    // Find existing result for this URL or add new one
-    const existingIndex = sessionData.results.findIndex((r: any) => r.pageAnalysis?.url === url);
-    if (existingIndex >= 0) {
-      sessionData.results[existingIndex] = result;
-    } else {
-      sessionData.results.push(result);
-    }
-
-    // Update progress
-    const totalUrls = sessionData.urls?.length || 1;
-    sessionData.progress = {
-      ...sessionData.progress,
-      current: sessionData.results.length,
-      stage: sessionData.results.length >= totalUrls ? 'completed' : 'analyzing'
-    };
-
-    // Update session status if all URLs are done
-    if (sessionData.results.length >= totalUrls) {
-      sessionData.status = 'completed';
-    }
-
-    sessionData.updatedAt = new Date().toISOString();
-
-    console.log(`📊 Updated session ${sessionId} with result for ${url} (${sessionData.results.length}/${totalUrls})`);
-
-    await env.SITE_ANALYSIS_CACHE.put(
-      `session:${sessionId}`,
-      JSON.stringify(sessionData),
-      { expirationTtl: SESSION_TTL }
-    );
-
-  } catch (error) {
-    console.error(`💥 Failed to update session ${sessionId} with result:`, error);
-    throw error;
+export async function writeSessionSnapshot(sessionData: SessionData): Promise<void> {
+  if (!env.SITE_ANALYSIS_CACHE) {
+    console.error(`❌ No SITE_ANALYSIS_CACHE available for session ${sessionData.id}`);
+    return;
   }
+
+  console.log(`📝 Writing snapshot for session ${sessionData.id}:`, {
+    status: sessionData.status,
+    stage: sessionData.progress?.stage,
+    results: sessionData.results?.length ?? 0
+  });
+
+  await env.SITE_ANALYSIS_CACHE.put(
+    `session:${sessionData.id}`,
+    JSON.stringify(sessionData),
+    { expirationTtl: SESSION_TTL }
+  );
 }
 
 /**
- * Update session with error for a specific URL
+ * Build the placeholder result stored for a URL whose analysis failed
  */
-export async function updateSessionWithError(sessionId: string, url: string, error: any): Promise<void> {
-  try {
-    if (!env.SITE_ANALYSIS_CACHE) {
-      console.error(`❌ No SITE_ANALYSIS_CACHE available for session ${sessionId}`);
-      return;
-    }
-
-    const currentData = await env.SITE_ANALYSIS_CACHE.get(`session:${sessionId}`);
-    if (!currentData) {
-      console.error(`❌ Session ${sessionId} not found in cache`);
-      return;
-    }
-
-    const sessionData = JSON.parse(currentData) as SessionData;
-
-    // Add error result for this URL
-    if (!sessionData.results) {
-      sessionData.results = [];
-    }
-
-    const errorResult = {
-      pageAnalysis: {
-        url,
-        title: 'Analysis Failed',
-        description: `Failed to analyze: ${error instanceof Error ? error.message : String(error)}`,
-        headings: [],
-        keyContent: '',
-        technicalStack: {
-          framework: null,
-          cms: null,
-          analytics: []
-        },
-        seoMetrics: {
-          hasMetaTitle: false,
-          hasMetaDescription: false,
-          hasStructuredData: false,
-          imageCount: 0,
-          linkCount: 0
-        }
+export function createErrorResult(url: string, error: unknown): SessionResult {
+  const message = error instanceof Error ? error.message : String(error);
+  return {
+    pageAnalysis: {
+      url,
+      title: 'Analysis Failed',
+      description: `Failed to analyze: ${message}`,
+      headings: [],
+      keyContent: '',
+      technicalStack: {
+        analytics: []
       },
-      lytxRecommendations: {
-        tagPlacements: [],
-        trackingEvents: [],
-        optimizations: []
-      },
-      analysisId: `error-${Date.now()}`,
-      timestamp: new Date().toISOString(),
-      error: error instanceof Error ? error.message : String(error)
-    };
-
-    // Find existing result for this URL or add new one
-    const existingIndex = sessionData.results.findIndex((r: any) => r.pageAnalysis?.url === url);
-    if (existingIndex >= 0) {
-      sessionData.results[existingIndex] = errorResult;
-    } else {
-      sessionData.results.push(errorResult);
-    }
-
-    // Update progress
-    const totalUrls = sessionData.urls?.length || 1;
-    sessionData.progress = {
-      ...sessionData.progress,
-      current: sessionData.results.length,
-      stage: sessionData.results.length >= totalUrls ? 'completed' : 'analyzing'
-    };
-
-    // Update session status if all URLs are done
-    if (sessionData.results.length >= totalUrls) {
-      sessionData.status = 'completed';
-    }
-
-    sessionData.updatedAt = new Date().toISOString();
-
-    console.log(`📊 Updated session ${sessionId} with error for ${url} (${sessionData.results.length}/${totalUrls})`);
-
-    await env.SITE_ANALYSIS_CACHE.put(
-      `session:${sessionId}`,
-      JSON.stringify(sessionData),
-      { expirationTtl: SESSION_TTL }
-    );
+      seoMetrics: {
+        hasMetaTitle: false,
+        hasMetaDescription: false,
+        hasStructuredData: false,
+        imageCount: 0,
+        linkCount: 0
+      }
+    },
+    lytxRecommendations: {
+      tagPlacements: [],
+      trackingEvents: [],
+      optimizations: []
+    },
+    analysisId: `error-${Date.now()}`,
+    timestamp: new Date().toISOString(),
+    error: message
+  };
+}
 
-  } catch (updateError) {
-    console.error(`💥 Failed to update session ${sessionId} with error:`, updateError);
-    throw updateError;
-  }
+function isTerminal(session: SessionData): boolean {
+  return session.status === 'completed' || session.status === 'error';
 }
 
 /**
- * Get session data from cache
+ * Get session data. A finished session is served from its KV snapshot; one
+ * still running reads through to the owning Durable Object, since snapshots
+ * are throttled and may lag behind (or have missed the final write).
  */
 export async function getSession(sessionId: string): Promise<SessionData | null> {
   try {
-    if (!env.SITE_ANALYSIS_CACHE) {
-      console.error(`❌ No SITE_ANALYSIS_CACHE available for session ${sessionId}`);
-      return null;
+    let snapshot: SessionData | null = null;
+    if (env.SITE_ANALYSIS_CACHE) {
+      const cached = await env.SITE_ANALYSIS_CACHE.get(`session:${sessionId}`);
+      snapshot = cached ? JSON.parse(cached) as SessionData : null;
+      if (snapshot && isTerminal(snapshot)) {
+        return snapshot;
+      }
     }
 
-    const currentData = await env.SITE_ANALYSIS_CACHE.get(`session:${sessionId}`);
-    if (!currentData) {
-      console.error(`❌ Session ${sessionId} not found in cache`);
+    const response = await getSessionManager(sessionId).fetch('https://internal/state');
+    if (!response.ok) {
+      if (snapshot) return snapshot;
+      console.error(`❌ Session ${sessionId} not found`);
       return null;
     }
 
-    return JSON.parse(currentData) as SessionData;
+    const { session } = await response.json() as { session: SessionData };
+    // Only finished sessions are written back; the DO keeps running ones fresh
+    if (env.SITE_ANALYSIS_CACHE && isTerminal(session)) {
+      await writeSessionSnapshot(session);
+    }
+    return session;
   } catch (error) {
     console.error(`💥 Failed to get session ${sessionId}:`, error);
     throw error;
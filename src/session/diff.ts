@@ -0,0 +1,131 @@
+import type { SessionData } from '@/api/session';
+import type { SessionResult } from '@/session/cache';
+import { normalizeCrawlUrl } from '@/lib/crawler';
+
+type TagPlacement = SessionResult['lytxRecommendations']['tagPlacements'][number];
+type TrackingEvent = SessionResult['lytxRecommendations']['trackingEvents'][number];
+
+export interface ListChange<T> {
+  added: T[];
+  removed: T[];
+}
+
+export interface PageDiff {
+  url: string;
+  analytics: ListChange<string>;
+  framework?: { before?: string; after?: string };
+  cms?: { before?: string; after?: string };
+  lytx: {
+    before: boolean;
+    after: boolean;
+    newlyDetected: boolean;
+    removed: boolean;
+  };
+  tagPlacements: ListChange<TagPlacement>;
+  trackingEvents: ListChange<TrackingEvent>;
+}
+
+export interface SessionDiff {
+  baseSessionId: string;
+  targetSessionId: string;
+  pagesAdded: string[];
+  pagesRemoved: string[];
+  // Only pages present in both sessions where something changed
+  pagesChanged: PageDiff[];
+  lytxNewlyDetected: string[];
+  lytxRemoved: string[];
+}
+
+function pageKey(url: string): string {
+  return normalizeCrawlUrl(url) ?? url;
+}
+
+export function hasLytx(result: SessionResult): boolean {
+  return result.pageAnalysis.technicalStack.analytics.includes('LYTX') || !!result.detectedLytxAccount;
+}
+
+function diffBy<T>(before: T[], after: T[], key: (item: T) => string): ListChange<T> {
+  const beforeKeys = new Set(before.map(key));
+  const afterKeys = new Set(after.map(key));
+  return {
+    added: after.filter(item => !beforeKeys.has(key(item))),
+    removed: before.filter(item => !afterKeys.has(key(item))),
+  };
+}
+
+function isEmpty(change: ListChange<unknown>): boolean {
+  return change.added.length === 0 && change.removed.length === 0;
+}
+
+// Placements are compared by where and what gets injected, events by name;
+// the model rewording a reason or trigger isn't a change worth surfacing
+const placementKey = (placement: TagPlacement) => `${placement.location}\n${placement.code.replace(/\s+/g, ' ').trim()}`;
+const eventKey = (event: TrackingEvent) => event.event.trim().toLowerCase();
+
+function diffPage(url: string, before: SessionResult, after: SessionResult): PageDiff {
+  const beforeStack = before.pageAnalysis.technicalStack;
+  const afterStack = after.pageAnalysis.technicalStack;
+  const lytxBefore = hasLytx(before);
+  const lytxAfter = hasLytx(after);
+
+  return {
+    url,
+    analytics: diffBy(beforeStack.analytics, afterStack.analytics, vendor => vendor.toLowerCase()),
+    framework: beforeStack.framework !== afterStack.framework ? { before: beforeStack.framework, after: afterStack.framework } : undefined,
+    cms: beforeStack.cms !== afterStack.cms ? { before: beforeStack.cms, after: afterStack.cms } : undefined,
+    lytx: {
+      before: lytxBefore,
+      after: lytxAfter,
+      newlyDetected: !lytxBefore && lytxAfter,
+      removed: lytxBefore && !lytxAfter,
+    },
+    tagPlacements: diffBy(before.lytxRecommendations.tagPlacements, after.lytxRecommendations.tagPlacements, placementKey),
+    trackingEvents: diffBy(before.lytxRecommendations.trackingEvents, after.lytxRecommendations.trackingEvents, eventKey),
+  };
+}
+
+function hasChanges(page: PageDiff): boolean {
+  return !isEmpty(page.analytics)
+    || !!page.framework
+    || !!page.cms
+    || page.lytx.before !== page.lytx.after
+    || !isEmpty(page.tagPlacements)
+    || !isEmpty(page.trackingEvents);
+}
+
+function indexResults(session: SessionData): Map<string, SessionResult> {
+  const byUrl = new Map<string, SessionResult>();
+  for (const result of (session.results || []) as SessionResult[]) {
+    // Failed pages carry placeholder analyses; comparing them would report
+    // every vendor and event as removed
+    if (result.error || !result.pageAnalysis?.url) continue;
+    byUrl.set(pageKey(result.pageAnalysis.url), result);
+  }
+  return byUrl;
+}
+
+/**
+ * Compare the per-URL results of two sessions, `base` being the earlier run
+ */
+export function diffSessions(base: SessionData, target: SessionData): SessionDiff {
+  const before = indexResults(base);
+  const after = indexResults(target);
+
+  const pagesChanged: PageDiff[] = [];
+  for (const [key, result] of after) {
+    const previous = before.get(key);
+    if (!previous) continue;
+    const page = diffPage(result.pageAnalysis.url, previous, result);
+    if (hasChanges(page)) pagesChanged.push(page);
+  }
+
+  return {
+    baseSessionId: base.id,
+    targetSessionId: target.id,
+    pagesAdded: [...after].filter(([key]) => !before.has(key)).map(([, result]) => result.pageAnalysis.url),
+    pagesRemoved: [...before].filter(([key]) => !after.has(key)).map(([, result]) => result.pageAnalysis.url),
+    pagesChanged,
+    lytxNewlyDetected: pagesChanged.filter(page => page.lytx.newlyDetected).map(page => page.url),
+    lytxRemoved: pagesChanged.filter(page => page.lytx.removed).map(page => page.url),
+  };
+}
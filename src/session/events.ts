@@ -0,0 +1,100 @@
+import type { SessionData } from '@/api/session';
+import type { SessionResult } from '@/session/cache';
+import { summarizeLlmUsage } from '@/lib/llm-usage';
+
+// Events streamed from GET /api/session/:sessionId/events. The
+// SessionAnalysisManager emits them as state changes; SessionPage applies them
+// to its local copy of the session instead of re-fetching everything.
+export type SessionEvent =
+  | { type: 'crawl.url_discovered'; urls: string[]; total: number }
+  | { type: 'page.started'; url: string; index: number; total: number }
+  | { type: 'page.completed'; url: string; result: SessionResult; current: number; total: number }
+  | { type: 'page.failed'; url: string; error: string; result: SessionResult; current: number; total: number }
+  | { type: 'session.completed'; status: SessionData['status']; current: number; total: number; error?: string };
+
+export type SessionEventType = SessionEvent['type'];
+
+export const SESSION_EVENT_TYPES: SessionEventType[] = [
+  'crawl.url_discovered',
+  'page.started',
+  'page.completed',
+  'page.failed',
+  'session.completed',
+];
+
+const encoder = new TextEncoder();
+
+/**
+ * Serialize an event in text/event-stream format
+ */
+export function encodeSessionEvent(event: SessionEvent): Uint8Array {
+  return encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+}
+
+/**
+ * Apply a streamed event to a session snapshot, returning the new snapshot
+ */
+export function applySessionEvent<T extends Pick<SessionData, 'status' | 'progress' | 'results' | 'usage' | 'error'>>(
+  session: T,
+  event: SessionEvent
+): T {
+  switch (event.type) {
+    case 'crawl.url_discovered': {
+      const allUrls = Array.from(new Set([...(session.progress.allUrls || []), ...event.urls]));
+      return {
+        ...session,
+        status: 'crawling',
+        progress: {
+          ...session.progress,
+          stage: 'crawling',
+          current: event.total,
+          message: `Crawling: found ${event.total} pages`,
+          allUrls
+        }
+      };
+    }
+    case 'page.started': {
+      const urls = session.progress.urls || [];
+      return {
+        ...session,
+        status: 'analyzing',
+        progress: {
+          ...session.progress,
+          stage: 'analyzing',
+          total: event.total,
+          message: `Analyzing ${event.url}`,
+          urls: urls.includes(event.url) ? urls : [...urls, event.url]
+        }
+      };
+    }
+    case 'page.completed':
+    case 'page.failed': {
+      const results = [
+        ...(session.results || []).filter((result: SessionResult) => result.pageAnalysis?.url !== event.url),
+        event.result
+      ];
+      return {
+        ...session,
+        results,
+        usage: summarizeLlmUsage(results),
+        progress: {
+          ...session.progress,
+          current: event.current,
+          total: event.total
+        }
+      };
+    }
+    case 'session.completed':
+      return {
+        ...session,
+        status: event.status,
+        error: event.error ?? session.error,
+        progress: {
+          ...session.progress,
+          stage: event.status === 'error' ? 'error' : 'completed',
+          current: event.current,
+          total: event.total
+        }
+      };
+  }
+}
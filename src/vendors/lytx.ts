@@ -89,11 +89,31 @@ export interface LytxApi {
 
 }
 
+/**
+ * Runtime shape of `window.lytxApi`, checked against a live page when
+ * verifying an installation. Keyed by LytxApi so the two can't drift apart.
+ */
+export const LYTX_API_SHAPE = {
+	emit: 'function',
+	event: 'function',
+	rid: 'function',
+	debugMode: 'boolean',
+	currentSiteConfig: 'object',
+	track_web_events: 'boolean',
+	trackCustomEvents: 'function',
+} as const satisfies Record<keyof LytxApi, 'function' | 'boolean' | 'object'>;
+
+
+// lytx.js posts page views and events here (versioned variants share the prefix)
+export const LYTX_EVENT_PATH = '/trackWebEvent';
+
+export function lytxScriptSrc(apiKey: string): string {
+  return `https://lytx.io/lytx.js?account=${encodeURIComponent(apiKey)}`;
+}
 
 export function createLytxTag(apiKey: string, domain: string): string {
   const safeDomain = domain.replace(/"/g, '');
-  const safeApiKey = encodeURIComponent(apiKey);
-  return `<script defer data-domain="${safeDomain}" src="https://lytx.io/lytx.js?account=${safeApiKey}"></script>`;
+  return `<script defer data-domain="${safeDomain}" src="${lytxScriptSrc(apiKey)}"></script>`;
 }
 
 export function inferDomainFromUrl(inputUrl: string): string {
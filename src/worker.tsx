@@ -3,25 +3,62 @@ import { route, render } from "rwsdk/router";
 import { Document } from "./Document";
 import { HomePage } from "./components/HomePage";
 import { SessionPage } from "./components/SessionPage";
+import { HistoryPage } from "./components/HistoryPage";
+import { SchedulesPage } from "./components/SchedulesPage";
+import { SchedulePage } from "./components/SchedulePage";
 import analyzeHtmlHandler from "./api/analyze-html";
+import verifyLytxHandler from "./api/verify-lytx";
 import sessionHandler from "./api/session";
+import sessionsHandler from "./api/sessions";
+import schedulesHandler from "./api/schedules";
+import adminPromptsHandler from "./api/admin-prompts";
+import { runDueSchedules } from "./lib/scheduler";
+import { getRecentSearches } from "./lib/db";
 import { SimpleBrowserSessionManager } from "./lib/simple-session-manager";
 import { SessionAnalysisManager } from "./lib/session-analysis-manager";
 import { SiteAnalysisDO } from "./lib/site-analysis-do";
 export type AppContext = {
 };
-export default defineApp([
+const app = defineApp([
 	render(Document, [
 
 		route("/", () => <HomePage />),
 		route("/session/:sessionId", ({ params }) => <SessionPage sessionId={params.sessionId} />),
+		route("/history", async () => {
+			const recentSearches = await getRecentSearches(10).catch((error) => {
+				console.warn('Failed to load recent searches', error);
+				return [];
+			});
+			return <HistoryPage recentSearches={recentSearches} />;
+		}),
+		route("/schedules", () => <SchedulesPage />),
+		route("/schedules/:scheduleId", ({ params }) => <SchedulePage scheduleId={params.scheduleId} />),
 		route("/api/analyze-html", analyzeHtmlHandler),
+		route("/api/verify-lytx", verifyLytxHandler),
 
 		route("/api/session", sessionHandler),
 		route("/api/session/:sessionId", sessionHandler),
+		route("/api/session/:sessionId/events", sessionHandler),
+		route("/api/session/:sessionId/diff", sessionHandler),
+		route("/api/session/:sessionId/reanalyze", sessionHandler),
+		route("/api/session/:sessionId/gtm", sessionHandler),
+		route("/api/sessions", sessionsHandler),
+		route("/api/schedules", schedulesHandler),
+		route("/api/schedules/:scheduleId", schedulesHandler),
+		route("/api/schedules/:scheduleId/run", schedulesHandler),
+		route("/api/admin/prompts", adminPromptsHandler),
+		route("/api/admin/prompts/:name/activate", adminPromptsHandler),
 	]),
 ]);
 
+export default {
+	fetch: app.fetch,
+	// Cron Trigger: start any scheduled audits that have come due
+	async scheduled(controller: ScheduledController, _env: Env, ctx: ExecutionContext) {
+		ctx.waitUntil(runDueSchedules(new Date(controller.scheduledTime)));
+	},
+};
+
 // Export Durable Objects
 export { SimpleBrowserSessionManager as BrowserSessionManager };
 export { SessionAnalysisManager };